@@ -6,11 +6,18 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MessageSquare, X, User, Bot, Zap, Cpu, History, Gauge, Send, DollarSign } from 'lucide-react';
+import { MessageSquare, X, User, Bot, Zap, Cpu, History, Gauge, Send, DollarSign, RotateCcw, Square, Timer } from 'lucide-react';
 import { InferenceOrchestrator } from '../../services/aiService';
+import { ConversationMemory } from '../../services/conversation';
 import { useNavigation } from '../../hooks/useNavigation';
 import { useCity } from '../../context/CityContext';
-import { InferenceMetrics, HubId } from '../../types';
+import { TRANSIT_HUBS, TRANSIT_HUB_IDS } from '../../data/content';
+import { RoutingEngine } from '../../services/simulation/routing';
+import { TransitEngine } from '../../services/simulation/transit';
+import { ChaosEngine } from '../../services/simulation/chaos';
+import { TopologyModel } from '../../services/simulation/topology';
+import { ResilienceAnalyzer } from '../../services/simulation/resilience';
+import { InferenceMetrics, HubId, Conversation, ToolResult } from '../../types';
 
 interface Message {
   role: 'user' | 'model';
@@ -19,6 +26,11 @@ interface Message {
   cost?: number;
 }
 
+const WELCOME = "FlashFusion Planning Intelligence active. District status synchronized. How may I assist your urban stack today?";
+
+/** Shown when the model answers with tool calls only, or with nothing at all. */
+const NO_REPLY = "Architectural packet timeout. Re-routing...";
+
 const SUGGESTIONS = [
   "How does n8n Metro work?",
   "Simulate DATA district fault",
@@ -31,19 +43,20 @@ const SUGGESTIONS = [
  * 
  * Interactive AI intelligence interface for the platform architecture.
  * Features strict tool-calling integration and performance telemetry.
+ * Earlier turns, tool calls and their results are sent with each message,
+ * so follow-ups can refer back to them.
  */
 export const ChatAssistant: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([
-    { 
-      role: 'model', 
-      text: "FlashFusion Planning Intelligence active. District status synchronized. How may I assist your urban stack today?" 
-    }
-  ]);
+  const [messages, setMessages] = useState<Message[]>([{ role: 'model', text: WELCOME }]);
+  const [conversation, setConversation] = useState<Conversation>(ConversationMemory.empty);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  // Text of the response being streamed, shown until it completes
+  const [streamingText, setStreamingText] = useState('');
+  const inFlight = useRef<AbortController | null>(null);
   
-  const { state, toggleDistrict, setTransitHub, resetSimulation, toggleGPUBooost } = useCity();
+  const { state, flows, routes, toggleDistrict, setTransitWeights, resetSimulation, toggleGPUBooost, injectFault, clearFault } = useCity();
   const scrollRef = useRef<HTMLDivElement>(null);
   const { scrollToSection } = useNavigation();
 
@@ -52,7 +65,10 @@ export const ChatAssistant: React.FC = () => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingText]);
+
+  // Stop any response still streaming when the assistant unmounts
+  useEffect(() => () => inFlight.current?.abort(), []);
 
   const handleSend = useCallback(async (text: string = input) => {
     const trimmedText = text.trim();
@@ -61,34 +77,89 @@ export const ChatAssistant: React.FC = () => {
     setMessages(prev => [...prev, { role: 'user', text: trimmedText }]);
     setInput('');
     setIsTyping(true);
+    const controller = new AbortController();
+    inFlight.current = controller;
 
     try {
       const isBoosted = state.districts.AI.gpuAcceleration?.isBoosted ?? false;
-      const response = await InferenceOrchestrator.chat(trimmedText, isBoosted);
-      
-      // Handle potential tool calls from the model
-      if (response.functionCalls) {
-        for (const fc of response.functionCalls) {
-          switch (fc.name) {
-            case 'navigateToSection':
-              scrollToSection((fc.args as any).sectionId)();
-              break;
-            case 'triggerSimulationEvent':
-              const { eventType, targetId } = fc.args as any;
-              if (eventType === 'FAIL_DISTRICT') toggleDistrict(targetId as HubId);
-              else if (eventType === 'SWITCH_TRANSIT') setTransitHub(targetId as any);
-              else if (eventType === 'RESET') resetSimulation();
-              break;
-            case 'toggleGpuBoost':
-              toggleGPUBooost();
-              break;
+      const unavailable = TransitEngine.unavailable(state.transit).map(h => `${h.id} ${h.isOnline ? 'drained' : 'offline'}`);
+      const liveContext = [
+        `Districts: ${TopologyModel.describe(state.topology)}`,
+        `Transit mix: ${TransitEngine.describe(state.transit.weights)}${unavailable.length ? ` (${unavailable.join(', ')})` : ''}`,
+        `Chaos faults: ${state.faults.map(f => ChaosEngine.describe(f.fault)).join('; ') || 'none'}`,
+        `Telemetry: ${state.observed ? `real metrics from ${state.observed.origin}` : 'synthetic'}`,
+        RoutingEngine.describe(flows, routes)
+      ].join('\n');
+      const response = await InferenceOrchestrator.chat(trimmedText, isBoosted, liveContext, conversation, {
+        signal: controller.signal,
+        onText: setStreamingText
+      });
+
+      // Analyses requested by the model are appended to its reply
+      const findings: string[] = [];
+      const districtIds = state.topology.map(h => h.id);
+
+      // Handle potential tool calls from the model, recording each outcome for the next turn
+      const results: ToolResult[] = (response.functionCalls ?? []).map(fc => {
+        const args = fc.args as any;
+        const result = (outcome: Record<string, unknown>): ToolResult => ({ id: fc.id, name: fc.name, response: outcome });
+        switch (fc.name) {
+          case 'navigateToSection':
+            scrollToSection(args.sectionId)();
+            return result({ status: 'ok', sectionId: args.sectionId });
+          case 'triggerSimulationEvent': {
+            const { eventType, targetId, peerId, value } = args;
+            if (eventType === 'FAIL_DISTRICT') {
+              if (!districtIds.includes(targetId)) return result({ error: `Unknown district ${targetId}` });
+              toggleDistrict(targetId as HubId, 'ai');
+              return result({ status: 'ok', district: targetId, isActive: !state.districts[targetId as HubId]?.isActive });
+            }
+            if (eventType === 'SWITCH_TRANSIT') {
+              const weights = TransitEngine.parseWeights(String(targetId ?? ''), TRANSIT_HUB_IDS);
+              if (!weights) return result({ error: `Unreadable transit mix ${targetId}` });
+              setTransitWeights(weights, 'ai');
+              return result({ status: 'ok', transit: TransitEngine.describe(weights) });
+            }
+            if (eventType === 'CLEAR_CHAOS') {
+              state.faults.forEach(f => clearFault(f.id, 'ai'));
+              return result({ status: 'ok', cleared: state.faults.length });
+            }
+            if (eventType === 'RESET') {
+              resetSimulation('ai');
+              return result({ status: 'ok' });
+            }
+            const fault = ChaosEngine.fromEvent(eventType, targetId, value, peerId, districtIds, TRANSIT_HUB_IDS);
+            if (!fault) return result({ error: `Cannot apply ${eventType} to ${targetId ?? 'nothing'}` });
+            injectFault(fault, 'ai');
+            return result({ status: 'ok', fault: ChaosEngine.describe(fault) });
           }
+          case 'analyzeResilience': {
+            const { from, to } = args;
+            const report = ResilienceAnalyzer.describe(ResilienceAnalyzer.report(state.topology, flows, state.transit, TRANSIT_HUBS));
+            const cut = districtIds.includes(from) && districtIds.includes(to)
+              ? `Min cut ${ResilienceAnalyzer.describeCut(ResilienceAnalyzer.minCut(state.topology, from, to))}`
+              : null;
+            findings.push(report, ...(cut ? [cut] : []));
+            return result({ report, ...(cut ? { cut } : {}) });
+          }
+          case 'toggleGpuBoost':
+            toggleGPUBooost('ai');
+            return result({ status: 'ok', isBoosted: !state.districts.AI.gpuAcceleration?.isBoosted });
+          default:
+            return result({ error: `Unknown tool ${fc.name}` });
         }
-      }
+      });
+
+      setConversation(prev => ConversationMemory.append(prev, [
+        { role: 'user', text: trimmedText },
+        { role: 'model', text: response.text, toolCalls: response.functionCalls ?? [] },
+        ...(results.length > 0 ? [{ role: 'tool' as const, results }] : [])
+      ]));
 
       setMessages(prev => [...prev, { 
         role: 'model', 
-        text: response.text,
+        text: [response.text, ...findings].filter(Boolean).join('\n\n')
+          || (response.metrics.cancelled ? 'Response cancelled.' : NO_REPLY),
         metrics: response.metrics,
         cost: response.costEstimate
       }]);
@@ -98,9 +169,16 @@ export const ChatAssistant: React.FC = () => {
         text: "Platform reasoning interrupted. Please check your district connectivity or API cluster status." 
       }]);
     } finally {
+      inFlight.current = null;
+      setStreamingText('');
       setIsTyping(false);
     }
-  }, [input, isTyping, state.districts.AI.gpuAcceleration?.isBoosted, scrollToSection, toggleDistrict, setTransitHub, resetSimulation, toggleGPUBooost]);
+  }, [input, isTyping, conversation, state.districts, state.transit, state.faults, state.topology, routes, scrollToSection, toggleDistrict, setTransitWeights, resetSimulation, toggleGPUBooost, injectFault, clearFault]);
+
+  const startOver = useCallback(() => {
+    setConversation(ConversationMemory.empty());
+    setMessages([{ role: 'model', text: WELCOME }]);
+  }, []);
 
   const isGPUActive = state.districts.AI.gpuAcceleration?.isBoosted;
 
@@ -130,13 +208,24 @@ export const ChatAssistant: React.FC = () => {
                   </div>
                 </div>
               </div>
-              <button 
-                onClick={() => setIsOpen(false)} 
-                aria-label="Close Assistant"
-                className="w-10 h-10 flex items-center justify-center rounded-xl hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors text-stone-400"
-              >
-                <X size={22} />
-              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={startOver}
+                  disabled={isTyping || conversation.turns.length === 0}
+                  aria-label="New Conversation"
+                  title="Forget this conversation"
+                  className="w-10 h-10 flex items-center justify-center rounded-xl hover:bg-stone-100 dark:hover:bg-stone-800 disabled:opacity-30 transition-colors text-stone-400"
+                >
+                  <RotateCcw size={18} />
+                </button>
+                <button 
+                  onClick={() => setIsOpen(false)} 
+                  aria-label="Close Assistant"
+                  className="w-10 h-10 flex items-center justify-center rounded-xl hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors text-stone-400"
+                >
+                  <X size={22} />
+                </button>
+              </div>
             </div>
 
             {/* Conversation Area */}
@@ -152,7 +241,7 @@ export const ChatAssistant: React.FC = () => {
                     {msg.role === 'user' ? <User size={18} /> : <Bot size={18} />}
                   </div>
                   <div className={`flex flex-col gap-2.5 max-w-[85%] ${msg.role === 'user' ? 'items-end' : ''}`}>
-                    <div className={`p-5 rounded-2xl text-[13px] leading-relaxed shadow-sm ${
+                    <div className={`p-5 rounded-2xl text-[13px] leading-relaxed whitespace-pre-line shadow-sm ${
                       msg.role === 'user' 
                         ? 'bg-stone-900 text-white rounded-tr-none' 
                         : 'bg-stone-50 dark:bg-stone-800/40 text-stone-700 dark:text-stone-300 rounded-tl-none border dark:border-stone-800'
@@ -162,6 +251,9 @@ export const ChatAssistant: React.FC = () => {
                     {msg.metrics && (
                       <div className="flex flex-wrap items-center gap-3 px-3 py-1 bg-stone-100 dark:bg-stone-800 rounded-full text-[8px] font-bold text-stone-500 border dark:border-stone-700 uppercase tracking-widest">
                         <span className="flex items-center gap-1"><Gauge size={10} /> {msg.metrics.totalLatency}ms</span>
+                        {!msg.metrics.cached && <span className="flex items-center gap-1" title="Time to first token"><Timer size={10} /> {msg.metrics.ttft}ms</span>}
+                        {!msg.metrics.cached && msg.metrics.tokensPerSecond > 0 && <span>{msg.metrics.tokensPerSecond.toFixed(0)} tok/s</span>}
+                        {msg.metrics.cancelled && <span className="text-orange-400">Cancelled</span>}
                         {msg.cost !== undefined && <span className="flex items-center gap-1"><DollarSign size={10} /> {msg.cost.toFixed(4)}</span>}
                         {msg.metrics.cached && <span className="text-fusion-bolt flex items-center gap-1"><History size={10} /> Cached</span>}
                         {msg.metrics.accelerated && !msg.metrics.cached && <span className="text-emerald-500 flex items-center gap-1"><Zap size={10} /> GPU Accelerated</span>}
@@ -170,7 +262,18 @@ export const ChatAssistant: React.FC = () => {
                   </div>
                 </motion.div>
               ))}
-              {isTyping && (
+              {isTyping && streamingText && (
+                <div className="flex gap-4">
+                  <div className="w-9 h-9 rounded-xl flex items-center justify-center shrink-0 shadow-sm bg-fusion-bolt/10 text-fusion-bolt">
+                    <Bot size={16} />
+                  </div>
+                  <div className="max-w-[85%] p-5 rounded-2xl rounded-tl-none text-[13px] leading-relaxed whitespace-pre-line shadow-sm bg-stone-50 dark:bg-stone-800/40 text-stone-700 dark:text-stone-300 border dark:border-stone-800">
+                    {streamingText}
+                    <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-fusion-bolt animate-pulse" aria-hidden />
+                  </div>
+                </div>
+              )}
+              {isTyping && !streamingText && (
                 <div className="flex items-center gap-3 ml-13">
                   <div className="flex gap-1">
                     <div className="w-1.5 h-1.5 rounded-full bg-stone-400 animate-bounce" style={{ animationDelay: '0ms' }} />
@@ -208,13 +311,24 @@ export const ChatAssistant: React.FC = () => {
                   placeholder="Query urban stack infrastructure..." 
                   className="w-full bg-stone-50 dark:bg-stone-950 border border-stone-200 dark:border-stone-800 rounded-2xl px-6 py-4.5 pr-14 text-sm focus:outline-none focus:ring-2 focus:ring-fusion-bolt/30 dark:text-white transition-all shadow-inner"
                 />
-                <button 
-                  type="submit"
-                  disabled={!input.trim() || isTyping}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 w-10 h-10 flex items-center justify-center rounded-xl bg-fusion-bolt text-white disabled:opacity-30 disabled:grayscale transition-all"
-                >
-                  <Send size={18} />
-                </button>
+                {isTyping ? (
+                  <button
+                    type="button"
+                    onClick={() => inFlight.current?.abort()}
+                    aria-label="Stop response"
+                    className="absolute right-3 top-1/2 -translate-y-1/2 w-10 h-10 flex items-center justify-center rounded-xl bg-stone-900 dark:bg-stone-700 text-white transition-all"
+                  >
+                    <Square size={14} fill="white" />
+                  </button>
+                ) : (
+                  <button 
+                    type="submit"
+                    disabled={!input.trim()}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 w-10 h-10 flex items-center justify-center rounded-xl bg-fusion-bolt text-white disabled:opacity-30 disabled:grayscale transition-all"
+                  >
+                    <Send size={18} />
+                  </button>
+                )}
               </div>
             </form>
           </motion.div>
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useCallback, useState } from 'react';
+import { Download, Image, FileCode } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { useFlowTrace } from '../../hooks/useFlowTrace';
+import { TRANSIT_HUBS } from '../../data/content';
+import { DiagramExporter } from '../../services/diagramExport';
+
+type ExportFormat = 'svg' | 'png' | 'mermaid' | 'dot';
+
+const EXTENSIONS: Record<ExportFormat, string> = { svg: 'svg', png: 'png', mermaid: 'mmd', dot: 'dot' };
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  // Some browsers only follow links in the document, and start the download after click() returns
+  document.body.appendChild(anchor);
+  anchor.click();
+  setTimeout(() => {
+    anchor.remove();
+    URL.revokeObjectURL(url);
+  }, 0);
+};
+
+const buttonClass = 'flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-[9px] font-bold uppercase tracking-widest text-stone-400 hover:text-stone-900 dark:hover:text-white hover:bg-stone-100 dark:hover:bg-stone-800 disabled:opacity-40 transition-all';
+
+/**
+ * DiagramExportMenu Component
+ *
+ * Downloads the city grid topology as displayed: an SVG or PNG of the radial
+ * diagram with live district status and any traced flow, or Mermaid and DOT
+ * text of the districts, roads and, optionally, the flows through their hubs.
+ */
+export const DiagramExportMenu: React.FC = () => {
+  const { state, flows, routes } = useCity();
+  const traced = useFlowTrace();
+  const [includeFlows, setIncludeFlows] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportAs = useCallback(async (format: ExportFormat) => {
+    const filename = `flashfusion-topology-T${state.clock.elapsed}s.${EXTENSIONS[format]}`;
+    setError(null);
+    try {
+      switch (format) {
+        case 'svg':
+          download(new Blob([DiagramExporter.toSvg(state, routes, traced?.trace)], { type: 'image/svg+xml' }), filename);
+          break;
+        case 'png':
+          setBusy(true);
+          download(await DiagramExporter.toPng(DiagramExporter.toSvg(state, routes, traced?.trace)), filename);
+          break;
+        case 'mermaid':
+          download(new Blob([DiagramExporter.toMermaid(state, flows, routes, TRANSIT_HUBS, includeFlows)], { type: 'text/plain' }), filename);
+          break;
+        case 'dot':
+          download(new Blob([DiagramExporter.toDot(state, flows, routes, TRANSIT_HUBS, includeFlows)], { type: 'text/vnd.graphviz' }), filename);
+          break;
+      }
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }, [state, routes, traced, includeFlows]);
+
+  return (
+    <div className="flex flex-col items-center gap-1 mt-2">
+      <div className="flex flex-wrap items-center justify-center gap-1">
+        <Download size={12} className="text-stone-400 mr-1" aria-hidden />
+        <button onClick={() => exportAs('svg')} className={buttonClass}>
+          <Image size={11} /> SVG
+        </button>
+        <button onClick={() => exportAs('png')} disabled={busy} className={buttonClass}>
+          <Image size={11} /> PNG
+        </button>
+        <button onClick={() => exportAs('mermaid')} className={buttonClass}>
+          <FileCode size={11} /> Mermaid
+        </button>
+        <button onClick={() => exportAs('dot')} className={buttonClass}>
+          <FileCode size={11} /> DOT
+        </button>
+        <label className="flex items-center gap-1.5 ml-1 text-[9px] font-bold uppercase tracking-widest text-stone-400" title="Draw flows through their hubs in Mermaid and DOT exports">
+          <input type="checkbox" checked={includeFlows} onChange={(e) => setIncludeFlows(e.target.checked)} />
+          Flows
+        </label>
+      </div>
+      {error && <p className="text-[9px] font-mono text-red-400">{error}</p>}
+    </div>
+  );
+};
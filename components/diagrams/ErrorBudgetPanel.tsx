@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo } from 'react';
+import { Target, BellRing } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { SERVICE_LEVEL_OBJECTIVES, BURN_RATE_ALERTS, SLO_COMPLIANCE_PERIOD } from '../../data/content';
+import { SloEngine } from '../../services/simulation/slo';
+import { TICK_SECONDS } from '../../services/simulation/engine';
+import { ServiceLevelObjective, SloStatus } from '../../types';
+
+const formatObjective = (slo: ServiceLevelObjective) =>
+  slo.indicator === 'latency'
+    ? `${(slo.objective * 100).toFixed(1)}% < ${slo.thresholdMs}ms`
+    : `${(slo.objective * 100).toFixed(1)}% delivered`;
+
+const formatDuration = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s` : `${Math.round(seconds)}s`;
+
+const budgetColor = (remaining: number) =>
+  remaining <= 0 ? 'bg-red-500' : remaining < 0.25 ? 'bg-orange-400' : 'bg-emerald-500';
+
+/**
+ * ErrorBudgetPanel Component
+ *
+ * Per-flow and per-district SLOs measured from simulated outcomes: attainment,
+ * remaining error budget, projected time to exhaustion and firing burn-rate alerts.
+ */
+export const ErrorBudgetPanel: React.FC = () => {
+  const { state } = useCity();
+
+  const statuses = useMemo(
+    () => SloEngine.evaluateAll(state.slo, SERVICE_LEVEL_OBJECTIVES, BURN_RATE_ALERTS, SLO_COMPLIANCE_PERIOD, TICK_SECONDS),
+    [state.slo]);
+  const firing = statuses.flatMap(s => s.burnRates.filter(b => b.firing).map(b => ({ slo: s.slo, reading: b })));
+
+  return (
+    <div className="p-8 bg-stone-900 border border-stone-800 rounded-[3rem] font-sans">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <span className="flex items-center gap-3 text-[10px] font-bold text-white uppercase tracking-widest">
+          <Target size={14} className="text-fusion-bolt" /> Error Budgets
+        </span>
+        <span className="text-[10px] text-stone-500 font-mono">{SLO_COMPLIANCE_PERIOD / 60} min compliance window</span>
+      </div>
+
+      {firing.length > 0 && (
+        <div className="mb-6 space-y-1.5">
+          {firing.map(({ slo, reading }) => (
+            <div
+              key={`${slo.id}-${reading.alert.id}`}
+              className={`flex items-center gap-3 px-4 py-2 rounded-xl text-[10px] font-mono ${
+                reading.alert.severity === 'page' ? 'bg-red-500/10 text-red-400' : 'bg-orange-500/10 text-orange-400'
+              }`}
+            >
+              <BellRing size={12} className="shrink-0" />
+              <span className="font-bold uppercase">{reading.alert.severity}</span>
+              <span className="flex-1 truncate">{slo.label}</span>
+              <span>{reading.long.toFixed(1)}x / {reading.short.toFixed(1)}x burn</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {statuses.map(status => <BudgetCard key={status.slo.id} status={status} />)}
+      </div>
+    </div>
+  );
+};
+
+const BudgetCard: React.FC<{ status: SloStatus }> = ({ status }) => {
+  const { slo, sli, budgetRemaining, timeToExhaustion, burnRates } = status;
+  const isFiring = burnRates.some(b => b.firing);
+
+  return (
+    <div className={`p-5 rounded-2xl border bg-stone-950/50 ${isFiring ? 'border-red-900/50' : 'border-stone-800/50'}`}>
+      <div className="flex justify-between items-start gap-3 mb-1">
+        <span className="text-[10px] font-bold text-stone-300 uppercase tracking-widest">{slo.label}</span>
+        <span className="shrink-0 text-[9px] font-mono text-stone-500">{slo.scope.kind} · {slo.scope.id}</span>
+      </div>
+      <div className="text-[9px] font-mono text-stone-500 mb-4">
+        Target {formatObjective(slo)} · SLI {(sli * 100).toFixed(2)}%
+      </div>
+
+      <div className="flex justify-between text-[9px] font-bold uppercase tracking-widest mb-1">
+        <span className="text-stone-500">Budget Left</span>
+        <span className={budgetRemaining <= 0 ? 'text-red-400' : 'text-stone-300'}>
+          {budgetRemaining <= 0 ? 'Exhausted' : `${(budgetRemaining * 100).toFixed(1)}%`}
+        </span>
+      </div>
+      <div className="h-1.5 bg-stone-800 rounded-full overflow-hidden mb-3">
+        <div
+          className={`h-full transition-all duration-700 ${budgetColor(budgetRemaining)}`}
+          style={{ width: `${Math.max(0, Math.min(100, budgetRemaining * 100))}%` }}
+        />
+      </div>
+
+      <div className="flex justify-between text-[9px] font-mono">
+        <span className="text-stone-500">
+          {burnRates.map(b => `${b.alert.longWindow / 60}m ${b.long.toFixed(1)}x`).join(' · ')}
+        </span>
+        <span className={timeToExhaustion !== null ? 'text-orange-400 font-bold' : 'text-stone-600'}>
+          {timeToExhaustion === null ? 'Stable' : timeToExhaustion === 0 ? 'Overspent' : `Empty in ${formatDuration(timeToExhaustion)}`}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Route, ChevronRight, AlertTriangle, X } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { useFlowTrace } from '../../hooks/useFlowTrace';
+import { TRANSIT_HUBS } from '../../data/content';
+import { FlowTraceStatus, FlowTraceStep, RouteStatus } from '../../types';
+
+const ROUTE_COLORS: Record<RouteStatus, string> = {
+  nominal: 'bg-emerald-500',
+  rerouted: 'bg-fusion-bolt',
+  degraded: 'bg-orange-400',
+  broken: 'bg-red-500'
+};
+
+const STEP_COLORS: Record<FlowTraceStatus, string> = {
+  ok: 'border-stone-800 text-stone-300',
+  degraded: 'border-orange-500/40 text-orange-300',
+  failed: 'border-red-500/50 text-red-400'
+};
+
+const stepLabel = (step: FlowTraceStep) =>
+  step.node.kind === 'transit' ? TRANSIT_HUBS[step.node.id].label : step.platform ?? `${step.node.id} roads`;
+
+/**
+ * FlowTracerPanel Component
+ *
+ * Follows one packet of a selected flow end to end: the districts, platforms
+ * and hub it touches, the expected latency and cost at each step, and where it
+ * would fail under the current state. The traced path is highlighted in the
+ * topology and integration diagrams as well.
+ */
+export const FlowTracerPanel: React.FC = () => {
+  const { flows, routes, tracedFlowId, traceFlow } = useCity();
+  const traced = useFlowTrace();
+
+  return (
+    <div className="p-8 bg-stone-900 border border-stone-800 rounded-[3rem] font-sans">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <span className="flex items-center gap-3 text-[10px] font-bold text-white uppercase tracking-widest">
+          <Route size={14} className="text-fusion-bolt" /> Flow Tracer
+        </span>
+        {tracedFlowId && (
+          <button
+            onClick={() => traceFlow(null)}
+            aria-label="Stop tracing"
+            className="flex items-center gap-1 text-[10px] font-bold text-stone-500 uppercase tracking-widest hover:text-white transition-colors"
+          >
+            <X size={12} /> Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {flows.map(flow => {
+          const status = routes.find(r => r.flowId === flow.id)?.status ?? 'broken';
+          const isTraced = flow.id === tracedFlowId;
+          return (
+            <button
+              key={flow.id}
+              onClick={() => traceFlow(isTraced ? null : flow.id)}
+              aria-pressed={isTraced}
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all ${
+                isTraced ? 'bg-stone-700 text-white' : 'bg-stone-950 text-stone-400 hover:text-white'
+              }`}
+            >
+              <span className={`w-1.5 h-1.5 rounded-full ${ROUTE_COLORS[status]}`} />
+              {flow.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {traced ? (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-6 text-[10px] font-mono text-stone-400">
+            <span>~{traced.trace.latencyMs.toFixed(0)}ms end to end</span>
+            <span>${traced.trace.costPer1k.toFixed(2)} / 1k packets</span>
+            <span>{traced.flow.arrivalRate} pkt/s nominal</span>
+          </div>
+
+          {traced.trace.failure && (
+            <div className="flex items-center gap-3 px-4 py-2 rounded-xl bg-red-500/10 text-[10px] font-mono text-red-400">
+              <AlertTriangle size={12} className="shrink-0" />
+              <span>
+                Fails at {stepLabel(traced.trace.failure.step)} ({traced.trace.failure.step.node.id}) on the way to {traced.trace.failure.destination}
+                {traced.trace.failure.step.note ? `: ${traced.trace.failure.step.note}` : ''}
+              </span>
+            </div>
+          )}
+
+          {traced.trace.legs.map(leg => (
+            <div key={leg.destination} className="p-4 rounded-2xl bg-stone-950/50 border border-stone-800/50">
+              <div className="flex justify-between mb-3 text-[9px] font-bold uppercase tracking-widest">
+                <span className="text-stone-500">To {leg.destination}</span>
+                <span className={leg.status === 'failed' ? 'text-red-400' : 'text-stone-400'}>
+                  {leg.status === 'failed' ? 'Undelivered' : `${leg.latencyMs.toFixed(0)}ms`}
+                </span>
+              </div>
+              <ol className="flex flex-wrap items-stretch gap-2">
+                {leg.steps.map((step, i) => (
+                  <li key={`${step.node.kind}-${step.node.id}-${i}`} className="flex items-center gap-2">
+                    {i > 0 && <ChevronRight size={12} className="text-stone-600 shrink-0" />}
+                    <div className={`px-3 py-2 rounded-xl border bg-stone-900 ${STEP_COLORS[step.status]}`} title={step.note}>
+                      <div className="text-[10px] font-bold">{stepLabel(step)}</div>
+                      <div className="text-[9px] font-mono text-stone-500">
+                        {step.node.id} · {step.latencyMs.toFixed(0)}ms{step.costPer1k > 0 ? ` · $${step.costPer1k.toFixed(2)}/1k` : ''}
+                      </div>
+                      {step.note && <div className="text-[9px] font-mono">{step.note}</div>}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-[10px] font-mono text-stone-500">Select a flow to follow one packet through the city.</p>
+      )}
+    </div>
+  );
+};
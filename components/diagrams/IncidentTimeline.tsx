@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo } from 'react';
+import { Siren, CheckCheck } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { ALERT_RULES } from '../../data/content';
+import { AlertEngine } from '../../services/simulation/alerts';
+import { TimelineRecorder } from '../../services/simulation/recorder';
+import { SOURCE_STYLES } from '../simulation/TimelineScrubber';
+import { AlertSeverity, Incident } from '../../types';
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  critical: 'bg-red-500/20 text-red-400',
+  warning: 'bg-orange-500/20 text-orange-400',
+  info: 'bg-sky-500/20 text-sky-400'
+};
+
+/** Firing incidents first, then most recent first. */
+const byUrgency = (a: Incident, b: Incident) =>
+  Number(a.resolvedAt !== null) - Number(b.resolvedAt !== null) || b.firedAt - a.firedAt;
+
+/**
+ * IncidentTimeline Component
+ *
+ * Alerts raised by the rule engine: when each fired, who acknowledged it, and
+ * which change preceded its resolution.
+ */
+export const IncidentTimeline: React.FC = () => {
+  const { state, timeline, acknowledgeIncident } = useCity();
+  const incidents = useMemo(() => [...state.alerts.incidents].sort(byUrgency), [state.alerts.incidents]);
+  const firing = incidents.filter(i => i.resolvedAt === null).length;
+
+  return (
+    <div className="p-8 bg-stone-900 border border-stone-800 rounded-[3rem] font-sans">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <span className="flex items-center gap-3 text-[10px] font-bold text-white uppercase tracking-widest">
+          <Siren size={14} className={firing > 0 ? 'text-red-500' : 'text-stone-500'} /> Incident Timeline
+        </span>
+        <span className={`text-[10px] font-mono ${firing > 0 ? 'text-red-400' : 'text-emerald-500'}`}>
+          {firing > 0 ? `${firing} firing` : 'All clear'} · {ALERT_RULES.length} rules
+        </span>
+      </div>
+
+      {incidents.length === 0 ? (
+        <p className="text-[10px] font-mono text-stone-600">No alerts have fired.</p>
+      ) : (
+        <ul className="space-y-2">
+          {incidents.map(incident => (
+            <IncidentRow
+              key={incident.id}
+              incident={incident}
+              canAcknowledge={timeline.cursor === null}
+              onAcknowledge={() => acknowledgeIncident(incident.id)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const IncidentRow: React.FC<{
+  incident: Incident;
+  canAcknowledge: boolean;
+  onAcknowledge: () => void;
+}> = ({ incident, canAcknowledge, onAcknowledge }) => {
+  const rule = ALERT_RULES.find(r => r.id === incident.ruleId);
+  const { acknowledgedBy, resolvedBy } = incident;
+  const isFiring = incident.resolvedAt === null;
+
+  return (
+    <li className={`grid md:grid-cols-[5rem_1fr_auto] gap-x-4 gap-y-1 items-center px-4 py-3 rounded-2xl border text-[10px] font-mono ${
+      isFiring ? 'border-red-900/50 bg-red-950/10' : 'border-stone-800/50 bg-stone-950/50'
+    }`}>
+      <span className={`justify-self-start px-1.5 py-0.5 rounded text-[8px] font-bold uppercase ${SEVERITY_STYLES[incident.severity]}`}>
+        {incident.severity}
+      </span>
+
+      <div className="min-w-0">
+        <div className={`truncate font-bold ${isFiring ? 'text-white' : 'text-stone-400'}`}>
+          {rule?.label ?? incident.ruleId} · {incident.subject}
+          {incident.occurrences > 1 && <span className="text-stone-500 font-normal"> ×{incident.occurrences}</span>}
+        </div>
+        <div className="text-stone-500 truncate">
+          Fired T+{incident.firedAt}s at {rule ? AlertEngine.formatValue(rule, incident.value) : incident.value}
+          {rule && incident.peak !== incident.value && ` · worst ${AlertEngine.formatValue(rule, incident.peak)}`}
+          {incident.resolvedAt !== null && ` · resolved T+${incident.resolvedAt}s`}
+          {incident.resolvedAt !== null && (resolvedBy
+            ? ` after ${TimelineRecorder.describe(resolvedBy.action)} (${resolvedBy.source})`
+            : ' without intervention')}
+        </div>
+      </div>
+
+      {incident.acknowledgedAt !== null ? (
+        <span className="flex items-center gap-2 text-stone-500">
+          <CheckCheck size={12} className="text-emerald-500" />
+          T+{incident.acknowledgedAt}s
+          {acknowledgedBy && (
+            <span className={`px-1.5 py-0.5 rounded text-[8px] font-bold uppercase ${SOURCE_STYLES[acknowledgedBy.source]}`}>{acknowledgedBy.source}</span>
+          )}
+        </span>
+      ) : (
+        <button
+          onClick={onAcknowledge}
+          disabled={!canAcknowledge}
+          className="px-3 py-1.5 rounded-lg bg-stone-800 text-stone-300 hover:text-white disabled:opacity-30 text-[9px] font-bold uppercase tracking-widest transition-all"
+        >
+          Acknowledge
+        </button>
+      )}
+    </li>
+  );
+};
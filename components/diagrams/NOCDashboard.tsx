@@ -4,40 +4,82 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { motion } from 'framer-motion';
-import { Activity, Zap, ShieldCheck, AlertTriangle } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Activity, Zap, ShieldCheck, AlertTriangle, DollarSign, Settings2 } from 'lucide-react';
 import { useCity } from '../../context/CityContext';
-import { DistrictStatus } from '../../types';
+import { TRANSIT_HUBS, TRANSIT_HUB_IDS, SERVICE_LEVEL_OBJECTIVES, BURN_RATE_ALERTS, SLO_COMPLIANCE_PERIOD } from '../../data/content';
+import { RoutingEngine } from '../../services/simulation/routing';
+import { TransitEngine } from '../../services/simulation/transit';
+import { ChaosEngine } from '../../services/simulation/chaos';
+import { SloEngine } from '../../services/simulation/slo';
+import { TICK_SECONDS } from '../../services/simulation/engine';
+import { HistoryStore, HISTORY_WINDOWS } from '../../services/simulation/history';
+import { NocConfigModel } from '../../services/nocConfig';
+import { useNocConfig } from '../../hooks/useNocConfig';
+import { RouteStatus } from '../../types';
+import { NocSettingsPanel } from './NocSettingsPanel';
+import { TimeSeriesChart } from './TimeSeriesChart';
+
+const STATUS_COLOR: Record<RouteStatus, string> = {
+  nominal: 'text-emerald-500',
+  rerouted: 'text-fusion-metro',
+  degraded: 'text-orange-400',
+  broken: 'text-red-500'
+};
 
 /**
  * NOCDashboard Component
  * 
  * Visualizes the real-time health and throughput of the FlashFusion transit hubs.
- * Now dynamically reacts to the District Simulation state.
+ * Crisis mode and headline formulas follow the operator's NOC configuration.
  */
 export const NOCDashboard: React.FC = () => {
-  const { state } = useCity();
-  const [ticker, setTicker] = useState(0);
-
-  useEffect(() => {
-    const interval = setInterval(() => setTicker(t => t + 1), 2000);
-    return () => clearInterval(interval);
-  }, []);
+  const { state, flows, routes } = useCity();
+  // Nominal offered load, the 100% mark of the load-balancing chart
+  const nominalArrivals = flows.reduce((acc, f) => acc + f.arrivalRate, 0);
+  const noc = useNocConfig();
+  const { formulas } = noc.config;
+  const [isConfiguring, setIsConfiguring] = useState(false);
 
   const metrics = useMemo(() => {
-    // Cast Object.values result to DistrictStatus[] to avoid "unknown" type errors during filtering
-    const activeCount = (Object.values(state.districts) as DistrictStatus[]).filter(d => d.isActive).length;
-    const isCrisis = activeCount < 5;
-    
+    const readings = NocConfigModel.measure(noc.config, state, routes);
+    const crisis = NocConfigModel.crisis(noc.config, readings);
+    const hubs = Object.values(state.telemetry.hubs);
+
     return {
-      throughput: isCrisis ? (600 + Math.random() * 200) : (1200 + Math.random() * 100),
-      latency: isCrisis ? (45 + Math.random() * 20) : (15 + Math.random() * 5),
-      uptime: isCrisis ? (98.4 + Math.random() * 1) : (99.998 + Math.random() * 0.001),
-      activePackets: activeCount * 7,
-      isCrisis
+      throughput: state.telemetry.throughput,
+      latency: state.telemetry.latency,
+      uptime: readings.integrity,
+      cityHealth: readings['city-health'],
+      dropRate: state.telemetry.dropRate,
+      cost: state.telemetry.transitCost,
+      queuedPackets: hubs.reduce((acc, h) => acc + (h?.queueDepth ?? 0), 0),
+      breachedSlos: SloEngine.evaluateAll(state.slo, SERVICE_LEVEL_OBJECTIVES, BURN_RATE_ALERTS, SLO_COMPLIANCE_PERIOD, TICK_SECONDS)
+        .filter(s => s.burnRates.some(b => b.firing)).length,
+      crisis,
+      isCrisis: crisis.length > 0
     };
-  }, [state.districts, ticker]);
+  }, [routes, state, noc.config]);
+
+  // Hubs carrying traffic or configured in the mix, in canonical order, at their rate-limited capacity
+  const hubRows = useMemo(() => {
+    const profiles = ChaosEngine.profiles(TRANSIT_HUBS, state.faults);
+    return TRANSIT_HUB_IDS
+      .filter(id => state.telemetry.hubs[id] || (state.transit.weights[id] ?? 0) > 0)
+      .map(id => ({
+        status: state.transit.hubs[id],
+        queue: state.telemetry.hubs[id],
+        capacity: profiles[id].capacity
+      }));
+  }, [state.telemetry.hubs, state.transit, state.faults]);
+
+  // Throughput samples from the simulation clock, scaled against nominal capacity
+  const throughputSeries = useMemo(() => [{
+    key: 'throughput',
+    label: 'Throughput',
+    color: metrics.isCrisis ? '#EF4444' : '#FF6B6B',
+    points: HistoryStore.series(state.history, '1m', HistoryStore.networkKey('throughput'))
+  }], [state.history, metrics.isCrisis]);
 
   return (
     <div className={`h-full p-8 border rounded-[3rem] shadow-2xl flex flex-col gap-6 font-sans transition-all duration-700 ${
@@ -50,9 +92,25 @@ export const NOCDashboard: React.FC = () => {
             {metrics.isCrisis ? 'EMERGENCY PROTOCOL' : 'NOC LIVE FEED'}
           </span>
         </div>
-        <span className="text-[10px] text-stone-500 font-mono">HUB: {state.transitHub}</span>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] text-stone-500 font-mono">HUB: {TransitEngine.describe(state.transit.weights)} · T+{state.clock.elapsed}s</span>
+          <button
+            onClick={() => setIsConfiguring(!isConfiguring)}
+            aria-label="NOC settings"
+            className={`p-2 rounded-lg transition-all ${isConfiguring ? 'bg-fusion-bolt text-white' : 'bg-stone-800 text-stone-400 hover:text-white'}`}
+          >
+            <Settings2 size={14} />
+          </button>
+        </div>
       </div>
 
+      {metrics.isCrisis && !isConfiguring && (
+        <p className="-mt-2 mb-2 text-[9px] font-mono text-red-400 truncate">
+          {metrics.crisis.map(NocConfigModel.describeRule).join(' · ')}
+        </p>
+      )}
+
+      {isConfiguring ? <NocSettingsPanel {...noc} districts={state.topology} /> : <>
       <MetricBox 
         label="Metro Throughput" 
         value={`${metrics.throughput.toFixed(0)} req/s`} 
@@ -60,44 +118,95 @@ export const NOCDashboard: React.FC = () => {
         color={metrics.isCrisis ? "text-red-400" : "text-fusion-bolt"} 
       />
       <MetricBox 
-        label="Rapid Latency (p95)" 
-        value={`${metrics.latency.toFixed(0)}ms`} 
+        label={`Rapid Latency (${formulas.latencyPercentile})`} 
+        value={`${metrics.latency[formulas.latencyPercentile].toFixed(0)}ms`} 
+        detail={`p50 ${metrics.latency.p50.toFixed(0)}ms · p99 ${metrics.latency.p99.toFixed(0)}ms`}
         icon={metrics.isCrisis ? AlertTriangle : Activity} 
         color={metrics.isCrisis ? "text-orange-400" : "text-fusion-metro"} 
       />
       <MetricBox 
         label="System Integrity" 
         value={`${metrics.uptime.toFixed(3)}%`} 
+        detail={[
+          formulas.integrity !== 'weighted-health' && metrics.dropRate > 0.5 ? `${metrics.dropRate.toFixed(0)} pkt/s dropped` : '',
+          formulas.integrity !== 'packet-delivery' ? `city health ${metrics.cityHealth.toFixed(0)}%` : '',
+          metrics.breachedSlos > 0 ? `${metrics.breachedSlos}/${SERVICE_LEVEL_OBJECTIVES.length} SLOs burning` : ''
+        ].filter(Boolean).join(' · ') || undefined}
         icon={ShieldCheck} 
         color={metrics.isCrisis ? "text-red-500" : "text-emerald-500"} 
       />
+      <MetricBox 
+        label="Transit Spend" 
+        value={`$${metrics.cost.toFixed(2)}/hr`} 
+        icon={DollarSign} 
+        color="text-stone-300" 
+      />
       
+      <div className="space-y-2">
+        {routes.map(route => {
+          const flow = flows.find(f => f.id === route.flowId);
+          return (
+            <div key={route.flowId} className="flex justify-between items-center gap-3 text-[9px] font-mono">
+              <span className="text-stone-400 truncate">{flow?.label ?? route.flowId}</span>
+              <span className={`font-bold uppercase tracking-widest ${STATUS_COLOR[route.status]}`} title={route.legs.map(l => RoutingEngine.formatPath(l)).join(' | ')}>
+                {route.status}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <span className="block text-[9px] font-bold text-stone-500 uppercase tracking-widest">Per-Hub Queues</span>
+        {hubRows.map(({ status, queue, capacity }) => {
+          const utilization = queue?.utilization ?? 0;
+          return (
+            <div key={status.id} className="flex items-center gap-3 text-[9px] font-mono" title={queue ? `${(utilization * 100).toFixed(0)}% utilized · ${(queue.backpressure * 100).toFixed(0)}% backpressure · ${queue.dropRate.toFixed(0)} pkt/s dropped` : undefined}>
+              <span className="w-12 shrink-0 text-stone-400">{status.id}</span>
+              <div className="flex-1 h-1.5 bg-stone-800 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-700 ${status.isDrained ? 'bg-red-500/60' : utilization >= 1 ? 'bg-orange-400' : 'bg-fusion-bolt/60'}`}
+                  style={{ width: `${Math.min(100, utilization * 100)}%` }}
+                />
+              </div>
+              <span className={`w-16 shrink-0 text-right ${status.isDrained ? 'text-red-400 font-bold uppercase' : 'text-stone-300'}`}>
+                {status.isDrained ? (status.isOnline ? 'Drained' : 'Offline') : `${(queue?.throughput ?? 0).toFixed(0)}/${capacity}`}
+              </span>
+              <span className={`w-14 shrink-0 text-right ${(queue?.queueDepth ?? 0) >= 1 ? 'text-orange-400' : 'text-stone-600'}`}>
+                Q {(queue?.queueDepth ?? 0).toFixed(0)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
       <div className="mt-auto pt-6 border-t border-stone-800">
         <div className="flex justify-between items-center mb-4">
           <span className="text-[9px] font-bold text-stone-500 uppercase tracking-widest">Real-time Load Balancing</span>
-          <span className="text-[9px] font-mono text-emerald-500">{metrics.activePackets} Active Packets</span>
-        </div>
-        <div className="flex gap-1.5 h-12 items-end">
-          {[...Array(12)].map((_, i) => (
-            <motion.div
-              key={i + ticker}
-              initial={{ height: 0 }}
-              animate={{ height: `${20 + Math.random() * 80}%` }}
-              transition={{ duration: 1, ease: "easeInOut" }}
-              className={`flex-1 rounded-t-sm ${metrics.isCrisis ? 'bg-red-500/40' : 'bg-fusion-bolt/20'}`}
-            />
-          ))}
+          <span className="text-[9px] font-mono text-emerald-500">{metrics.queuedPackets.toFixed(0)} Queued Packets</span>
         </div>
+        <TimeSeriesChart
+          series={throughputSeries}
+          now={state.clock.elapsed}
+          span={HISTORY_WINDOWS['1m'].span}
+          format={v => `${v.toFixed(0)} req/s`}
+          max={nominalArrivals}
+          height={48}
+          area
+          compact
+        />
       </div>
+      </>}
     </div>
   );
 };
 
-const MetricBox: React.FC<{ label: string; value: string; icon: React.ElementType; color: string }> = ({ label, value, icon: Icon, color }) => (
+const MetricBox: React.FC<{ label: string; value: string; detail?: string; icon: React.ElementType; color: string }> = ({ label, value, detail, icon: Icon, color }) => (
   <div className="bg-stone-950/50 p-5 rounded-2xl border border-stone-800/50 flex items-center justify-between group hover:border-fusion-bolt/30 transition-colors">
     <div>
       <div className="text-[9px] font-bold text-stone-500 uppercase tracking-widest mb-1">{label}</div>
       <div className={`text-xl font-mono font-bold ${color}`}>{value}</div>
+      {detail && <div className="text-[9px] font-mono text-stone-500 mt-1">{detail}</div>}
     </div>
     <div className={`p-2 rounded-lg bg-stone-900 ${color} opacity-50 group-hover:opacity-100 transition-opacity`}>
       <Icon size={18} />
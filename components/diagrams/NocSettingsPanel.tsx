@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { NOC_METRICS, MAX_DISTRICT_WEIGHT, DEFAULT_DISTRICT_WEIGHT } from '../../services/nocConfig';
+import { CrisisRule, HubNode, NocConfigHook, NocFormulas } from '../../types';
+
+const INTEGRITY_LABELS: Record<NocFormulas['integrity'], string> = {
+  'packet-delivery': 'Packets delivered',
+  'weighted-health': 'Weighted district health',
+  'lowest': 'Lower of the two'
+};
+
+const fieldClass = 'bg-stone-950 border border-stone-800 rounded-lg px-2 py-1.5 text-[10px] font-mono text-stone-200 focus:outline-none focus:ring-2 focus:ring-fusion-bolt/30';
+
+/**
+ * NocSettingsPanel Component
+ *
+ * Editor for the NOC configuration: how headline metrics are computed, how
+ * much each district counts towards city health, and the crisis rules.
+ */
+export const NocSettingsPanel: React.FC<NocConfigHook & { districts: readonly HubNode[] }> = ({ config, updateConfig, resetConfig, districts }) => {
+  const updateRule = (id: string, patch: Partial<CrisisRule>) =>
+    updateConfig(c => ({ ...c, crisisRules: c.crisisRules.map(r => r.id === id ? { ...r, ...patch } : r) }));
+
+  return (
+    <div className="flex flex-col gap-6 text-[10px]">
+      <section className="space-y-2">
+        <span className="block text-[9px] font-bold text-stone-500 uppercase tracking-widest">Metric Formulas</span>
+        <label className="flex items-center justify-between gap-3 text-stone-400">
+          System integrity
+          <select
+            value={config.formulas.integrity}
+            onChange={(e) => updateConfig(c => ({ ...c, formulas: { ...c.formulas, integrity: e.target.value as NocFormulas['integrity'] } }))}
+            className={fieldClass}
+          >
+            {(Object.keys(INTEGRITY_LABELS) as NocFormulas['integrity'][]).map(f => <option key={f} value={f}>{INTEGRITY_LABELS[f]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-3 text-stone-400">
+          Latency percentile
+          <select
+            value={config.formulas.latencyPercentile}
+            onChange={(e) => updateConfig(c => ({ ...c, formulas: { ...c.formulas, latencyPercentile: e.target.value as NocFormulas['latencyPercentile'] } }))}
+            className={fieldClass}
+          >
+            <option value="p50">p50</option>
+            <option value="p95">p95</option>
+            <option value="p99">p99</option>
+          </select>
+        </label>
+      </section>
+
+      <section className="space-y-2">
+        <span className="block text-[9px] font-bold text-stone-500 uppercase tracking-widest">District Weights</span>
+        {districts.map(hub => (
+          <label key={hub.id} className="flex items-center gap-3 font-mono text-stone-400">
+            <span className="w-16 shrink-0">{hub.id}</span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_DISTRICT_WEIGHT}
+              step={0.5}
+              value={config.districtWeights[hub.id] ?? DEFAULT_DISTRICT_WEIGHT}
+              onChange={(e) => updateConfig(c => ({ ...c, districtWeights: { ...c.districtWeights, [hub.id]: Number(e.target.value) } }))}
+              aria-label={`${hub.id} weight`}
+              className="flex-1 accent-[#FF6B6B]"
+            />
+            <span className="w-8 shrink-0 text-right text-stone-300">{(config.districtWeights[hub.id] ?? DEFAULT_DISTRICT_WEIGHT).toFixed(1)}</span>
+          </label>
+        ))}
+      </section>
+
+      <section className="space-y-2">
+        <span className="block text-[9px] font-bold text-stone-500 uppercase tracking-widest">Crisis When Any Enabled Rule Matches</span>
+        {config.crisisRules.map(rule => (
+          <div key={rule.id} className={`flex items-center gap-2 font-mono ${rule.enabled ? 'text-stone-300' : 'text-stone-600'}`}>
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              aria-label={`Enable ${NOC_METRICS[rule.metric].label} rule`}
+              className="accent-[#FF6B6B]"
+            />
+            <span className="flex-1 truncate">{NOC_METRICS[rule.metric].label}</span>
+            <select
+              value={rule.comparator}
+              onChange={(e) => updateRule(rule.id, { comparator: e.target.value as CrisisRule['comparator'] })}
+              aria-label="Comparator"
+              className={fieldClass}
+            >
+              <option value="above">&gt;</option>
+              <option value="below">&lt;</option>
+            </select>
+            <input
+              type="number"
+              value={rule.threshold}
+              onChange={(e) => Number.isFinite(e.target.valueAsNumber) && updateRule(rule.id, { threshold: e.target.valueAsNumber })}
+              aria-label="Threshold"
+              className={`${fieldClass} w-16`}
+            />
+            <span className="w-5 shrink-0 text-stone-500">{NOC_METRICS[rule.metric].unit}</span>
+          </div>
+        ))}
+      </section>
+
+      <button
+        onClick={resetConfig}
+        className="flex items-center justify-center gap-2 py-2.5 rounded-xl bg-stone-800 text-stone-400 hover:text-white text-[10px] font-bold uppercase tracking-widest transition-all"
+      >
+        <RotateCcw size={12} /> Restore Defaults
+      </button>
+    </div>
+  );
+};
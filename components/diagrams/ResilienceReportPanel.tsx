@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { TRANSIT_HUBS } from '../../data/content';
+import { ResilienceAnalyzer } from '../../services/simulation/resilience';
+import { HubId } from '../../types';
+
+const selectClass = 'bg-stone-950 border border-stone-800 rounded-lg px-2 py-1 text-[10px] font-mono text-stone-200 focus:outline-none';
+
+/**
+ * ResilienceReportPanel Component
+ *
+ * Graph analytics over the district road network: single points of failure,
+ * how many shortest routes run through each district, the flows stranded when
+ * each one fails on its own, and the fewest roads separating any two districts.
+ */
+export const ResilienceReportPanel: React.FC = () => {
+  const { state, flows } = useCity();
+  const flowLabel = (id: string) => flows.find(f => f.id === id)?.label ?? id;
+  const ids = state.topology.map(h => h.id);
+  const [from, setFrom] = useState<HubId>(ids[0]);
+  const [to, setTo] = useState<HubId>(ids[ids.length - 1]);
+
+  const report = useMemo(
+    () => ResilienceAnalyzer.report(state.topology, flows, state.transit, TRANSIT_HUBS),
+    [state.topology, flows, state.transit]
+  );
+  const cut = useMemo(
+    () => state.topology.some(h => h.id === from) && state.topology.some(h => h.id === to)
+      ? ResilienceAnalyzer.minCut(state.topology, from, to)
+      : null,
+    [state.topology, from, to]
+  );
+  const fragile = report.flowCuts.filter(c => c.size <= 1);
+
+  return (
+    <div className="mt-8 p-8 bg-stone-900 border border-stone-800 rounded-[3rem] font-sans">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <span className="flex items-center gap-3 text-[10px] font-bold text-white uppercase tracking-widest">
+          <ShieldAlert size={14} className="text-fusion-bolt" /> Resilience Report
+        </span>
+        <span className="text-[9px] font-mono text-stone-500">
+          {report.articulationPoints.length} SPOF · {report.bridges.length} bridges · {fragile.length} fragile flows
+        </span>
+      </div>
+
+      <table className="w-full text-[10px] font-mono mb-6">
+        <thead>
+          <tr className="text-[8px] text-stone-600 uppercase tracking-widest text-left">
+            <th className="pb-2 font-bold">District</th>
+            <th className="pb-2 font-bold">Betweenness</th>
+            <th className="pb-2 font-bold text-right" title="Flows that start or end in the district">Ends</th>
+            <th className="pb-2 font-bold text-right" title="Other flows broken or degraded when the district fails, under current transit / on roads only">Strands</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.districts.map(d => (
+            <tr key={d.district} className="border-t border-stone-800">
+              <td className="py-2 text-stone-300">
+                {d.district}
+                {d.isArticulationPoint && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 text-[8px] font-bold uppercase">SPOF</span>
+                )}
+              </td>
+              <td className="py-2 w-1/3">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 h-1 rounded-full bg-stone-800 overflow-hidden">
+                    <div className="h-full bg-fusion-bolt" style={{ width: `${d.betweenness * 100}%` }} />
+                  </div>
+                  <span className="w-8 text-right text-stone-500">{(d.betweenness * 100).toFixed(0)}%</span>
+                </div>
+              </td>
+              <td className="py-2 text-right text-stone-400">{d.endpointFlows.length}</td>
+              <td
+                className={`py-2 text-right ${d.strandedByRoad.length > 0 ? 'text-orange-300' : 'text-stone-600'}`}
+                title={Array.from(new Set([...d.strandedFlows, ...d.strandedByRoad])).map(flowLabel).join(', ')}
+              >
+                {d.strandedFlows.length} / {d.strandedByRoad.length}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="pt-4 border-t border-stone-800 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-[9px] font-bold text-stone-500 uppercase tracking-widest">
+          Min cut
+          <select value={from} onChange={(e) => setFrom(e.target.value as HubId)} aria-label="Cut from" className={selectClass}>
+            {ids.map(id => <option key={id} value={id}>{id}</option>)}
+          </select>
+          ↔
+          <select value={to} onChange={(e) => setTo(e.target.value as HubId)} aria-label="Cut to" className={selectClass}>
+            {ids.map(id => <option key={id} value={id}>{id}</option>)}
+          </select>
+        </div>
+        {cut && from !== to && (
+          <p className={`text-[10px] font-mono ${cut.size <= 1 ? 'text-orange-300' : 'text-stone-400'}`}>
+            {ResilienceAnalyzer.describeCut(cut)}
+          </p>
+        )}
+
+        {report.bridges.length > 0 && (
+          <p className="text-[9px] font-mono text-stone-500">
+            Bridges: {report.bridges.map(([a, b]) => `${a}–${b}`).join(', ')}
+          </p>
+        )}
+        {fragile.length > 0 && (
+          <ul className="space-y-1">
+            {fragile.map(c => (
+              <li key={c.flowId} className="text-[9px] font-mono text-orange-300">
+                {flowLabel(c.flowId)}: {ResilienceAnalyzer.describeCut(c)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
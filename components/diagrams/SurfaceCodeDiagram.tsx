@@ -6,41 +6,49 @@
 
 import React, { useState, useMemo, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ShieldAlert, Zap } from 'lucide-react';
+import { ShieldAlert, Zap, Boxes } from 'lucide-react';
 import { Tooltip } from '../ui/Library';
-import { HUBS_DATA } from '../../data/content';
+import { DISTRICT_ICONS } from '../../data/content';
 import { useCity } from '../../context/CityContext';
-import { HubId } from '../../types';
+import { useFlowTrace } from '../../hooks/useFlowTrace';
+import { RoutingEngine } from '../../services/simulation/routing';
+import { TransitEngine } from '../../services/simulation/transit';
+import { FlowTracer } from '../../services/simulation/tracer';
+import { DIAGRAM_SIZE, hubPosition, districtColor } from '../../services/diagramExport';
+import { DiagramExportMenu } from './DiagramExportMenu';
+import { HubId, RouteNode } from '../../types';
 
-const SVG_SIZE = 400;
+const SVG_SIZE = DIAGRAM_SIZE;
 const CENTER = SVG_SIZE / 2;
-const HUB_RADIUS = 145;
-
-const getHubPos = (index: number) => {
-  const angle = (index * (360 / 7) - 90) * (Math.PI / 180);
-  return {
-    x: CENTER + Math.cos(angle) * HUB_RADIUS,
-    y: CENTER + Math.sin(angle) * HUB_RADIUS
-  };
-};
-
-const getThemeColor = (colorClass: string) => {
-  if (colorClass.includes('indigo')) return '#4F46E5';
-  if (colorClass.includes('blue')) return '#2563EB';
-  if (colorClass.includes('emerald')) return '#10B981';
-  if (colorClass.includes('rose')) return '#E11D48';
-  if (colorClass.includes('amber')) return '#D97706';
-  if (colorClass.includes('violet')) return '#7C3AED';
-  if (colorClass.includes('teal')) return '#0D9488';
-  return '#C5A059';
-};
 
 export const HubArchitectureDiagram: React.FC = () => {
-  const { state } = useCity();
+  const { state, routes } = useCity();
+  const hubs = state.topology;
   const [activeHub, setActiveHub] = useState<string | null>(null);
   
+  // Point-to-point roads currently carrying routed packets (Manual transit or alternate paths)
+  const routedConnections = useMemo(() => RoutingEngine.activeConnections(routes), [routes]);
+  const impactedFlows = useMemo(() => routes.filter(r => r.status !== 'nominal').length, [routes]);
+  const transitMix = useMemo(() => TransitEngine.mix(state.transit.weights), [state.transit.weights]);
+
   const hubPositions = useMemo(() => 
-    HUBS_DATA.map((_, i) => getHubPos(i)), []);
+    hubs.map((_, i) => hubPosition(i, hubs.length)), [hubs]);
+
+  // Path of the flow being traced: district to district, or through the Metro Core for hubs
+  const traced = useFlowTrace();
+  const tracedNodes = useMemo(() => traced ? FlowTracer.nodes(traced.trace) : null, [traced]);
+  const tracedSegments = useMemo(() => {
+    if (!traced) return [];
+    const position = (node: RouteNode) => node.kind === 'transit'
+      ? { x: CENTER, y: CENTER }
+      : hubPositions[hubs.findIndex(h => h.id === node.id)];
+    return traced.trace.legs.flatMap(leg => leg.steps.slice(1).map((step, i) => ({
+      id: `${leg.destination}-${i}`,
+      source: position(leg.steps[i].node),
+      target: position(step.node),
+      isFailed: step.status === 'failed'
+    })));
+  }, [traced, hubs, hubPositions]);
 
   const handleInteraction = useCallback((id: string | null) => {
     setActiveHub(id);
@@ -61,19 +69,19 @@ export const HubArchitectureDiagram: React.FC = () => {
     
     const processed = new Set<string>();
 
-    HUBS_DATA.forEach((hub, i) => {
+    hubs.forEach((hub, i) => {
       hub.connections.forEach(targetId => {
         const pair = [hub.id, targetId].sort().join('-');
         if (!processed.has(pair)) {
-          const targetIdx = HUBS_DATA.findIndex(h => h.id === targetId);
+          const targetIdx = hubs.findIndex(h => h.id === targetId);
           if (targetIdx !== -1) {
             lines.push({
               id: pair,
               source: hubPositions[i],
               target: hubPositions[targetIdx],
-              sourceId: hub.id as HubId,
-              targetId: targetId as HubId,
-              color: getThemeColor(hub.color)
+              sourceId: hub.id,
+              targetId: targetId,
+              color: districtColor(hub.color)
             });
             processed.add(pair);
           }
@@ -81,10 +89,10 @@ export const HubArchitectureDiagram: React.FC = () => {
       });
     });
     return lines;
-  }, [hubPositions]);
+  }, [hubs, hubPositions]);
 
   const currentHubData = useMemo(() => 
-    HUBS_DATA.find(h => h.id === activeHub), [activeHub]);
+    hubs.find(h => h.id === activeHub), [hubs, activeHub]);
 
   return (
     <div className="flex flex-col items-center p-8 bg-white dark:bg-stone-900 rounded-[4rem] shadow-4xl border border-stone-200 dark:border-stone-800 my-8 select-none transition-all duration-1000 relative overflow-visible w-full max-w-2xl mx-auto group/diagram">
@@ -94,8 +102,11 @@ export const HubArchitectureDiagram: React.FC = () => {
         </h3>
         <div className="flex items-center gap-2 text-stone-400">
            <Zap size={14} className="text-fusion-bolt animate-pulse" />
-           <span className="text-[10px] font-bold uppercase tracking-[0.3em]">Real-time Federated Mesh</span>
+           <span className="text-[10px] font-bold uppercase tracking-[0.3em]">
+             {traced ? `Tracing ${traced.flow.label}` : 'Real-time Federated Mesh'}
+           </span>
         </div>
+        <DiagramExportMenu />
       </header>
       
       <div className="relative z-10 flex items-center justify-center w-[380px] h-[380px]">
@@ -113,15 +124,16 @@ export const HubArchitectureDiagram: React.FC = () => {
                 const sourceActive = state.districts[conn.sourceId].isActive;
                 const targetActive = state.districts[conn.targetId].isActive;
                 const isParticipating = activeHub === conn.sourceId || activeHub === conn.targetId;
+                const isRouted = routedConnections.has(conn.id);
 
                 return (
                     <g key={conn.id}>
                         <path 
                             d={`M${conn.source.x},${conn.source.y} L${conn.target.x},${conn.target.y}`}
                             fill="none"
-                            stroke={sourceActive && targetActive ? "#d6d3d1" : "#ef4444"}
-                            strokeWidth={1}
-                            strokeOpacity={activeHub ? 0.05 : 0.15}
+                            stroke={!(sourceActive && targetActive) ? "#ef4444" : isRouted ? "#FFD93D" : "#d6d3d1"}
+                            strokeWidth={isRouted ? 2 : 1}
+                            strokeOpacity={isRouted ? 0.7 : activeHub ? 0.05 : 0.15}
                             strokeDasharray={sourceActive && targetActive ? "0" : "5,5"}
                             className="dark:stroke-stone-700 transition-all duration-700"
                         />
@@ -153,6 +165,18 @@ export const HubArchitectureDiagram: React.FC = () => {
                     </g>
                 );
             })}
+            {tracedSegments.map(seg => (
+                <path
+                    key={seg.id}
+                    d={`M${seg.source.x},${seg.source.y} L${seg.target.x},${seg.target.y}`}
+                    fill="none"
+                    stroke={seg.isFailed ? "#ef4444" : "#FFD93D"}
+                    strokeWidth={3}
+                    strokeDasharray={seg.isFailed ? "4,4" : "0"}
+                    strokeLinecap="round"
+                    filter="url(#glow)"
+                />
+            ))}
          </svg>
 
          <motion.div 
@@ -175,16 +199,27 @@ export const HubArchitectureDiagram: React.FC = () => {
                 >
                   Metro Core
                 </motion.span>
-                <span className="block text-lg font-serif font-bold text-fusion-bolt uppercase tracking-tight leading-none">{state.transitHub}</span>
+                <span className="block text-lg font-serif font-bold text-fusion-bolt uppercase tracking-tight leading-none">{transitMix[0]?.hub ?? 'Manual'}</span>
+                {transitMix.length > 1 && (
+                  <span className="block mt-1 text-[7px] font-mono text-stone-400">
+                    {transitMix.slice(1).map(s => `+${s.hub} ${Math.round(s.share * 100)}%`).join(' ')}
+                  </span>
+                )}
+                {impactedFlows > 0 && (
+                  <span className="block mt-1 text-[7px] font-bold text-red-400 uppercase tracking-widest">
+                    {impactedFlows} flow{impactedFlows > 1 ? 's' : ''} impacted
+                  </span>
+                )}
              </div>
          </motion.div>
 
-         {HUBS_DATA.map((hub, i) => {
+         {hubs.map((hub, i) => {
              const { x, y } = hubPositions[i];
              const isHovered = activeHub === hub.id;
              const status = state.districts[hub.id];
-             const isDimmed = activeHub && !isHovered;
-             const hubColor = getThemeColor(hub.color);
+             const isDimmed = activeHub ? !isHovered : !!tracedNodes && !tracedNodes.has(`district:${hub.id}`);
+             const hubColor = districtColor(hub.color);
+             const HubIcon = DISTRICT_ICONS[hub.icon] ?? Boxes;
 
              return (
                  <motion.div 
@@ -221,7 +256,7 @@ export const HubArchitectureDiagram: React.FC = () => {
                                 />
                               )}
                             </AnimatePresence>
-                            {status.isActive ? <hub.icon size={24} className="mb-0.5 relative z-10" /> : <ShieldAlert size={24} className="relative z-10" />}
+                            {status.isActive ? <HubIcon size={24} className="mb-0.5 relative z-10" /> : <ShieldAlert size={24} className="relative z-10" />}
                             <span className="text-[7px] font-bold tracking-[0.2em] opacity-80 uppercase relative z-10">{hub.id}</span>
                         </motion.div>
                     </Tooltip>
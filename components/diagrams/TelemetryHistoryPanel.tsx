@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { LineChart } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { TRANSIT_HUBS, TRANSIT_HUB_IDS } from '../../data/content';
+import { HistoryStore, HISTORY_WINDOWS } from '../../services/simulation/history';
+import { HistoryWindow, HubId, HubNode, TelemetryHistory, TransitHubId } from '../../types';
+import { ChartSeries, TimeSeriesChart } from './TimeSeriesChart';
+
+type ChartId = 'throughput' | 'latency' | 'health' | 'tflops' | 'vram';
+
+const DISTRICT_COLORS: Partial<Record<HubId, string>> = {
+  DEV: '#4F46E5',
+  DATA: '#2563EB',
+  AI: '#10B981',
+  OPS: '#E11D48',
+  GROWTH: '#D97706',
+  COMMERCE: '#7C3AED',
+  COLLAB: '#0D9488'
+};
+
+/** Districts added at runtime share a neutral line colour. */
+const districtColor = (id: HubId) => DISTRICT_COLORS[id] ?? '#A8A29E';
+
+const TRANSIT_COLORS: Record<TransitHubId, string> = {
+  n8n: '#FF6B6B',
+  Zapier: '#FFD93D',
+  Make: '#6BCF7F',
+  MCP: '#38BDF8',
+  Manual: '#A8A29E'
+};
+
+interface ChartDefinition {
+  readonly label: string;
+  readonly format: (value: number) => string;
+  readonly max?: number;
+  readonly area?: boolean;
+  readonly series: (history: TelemetryHistory, window: HistoryWindow, districts: readonly HubNode[]) => ChartSeries[];
+}
+
+const CHARTS: Record<ChartId, ChartDefinition> = {
+  throughput: {
+    label: 'Throughput',
+    format: v => `${v.toFixed(0)} req/s`,
+    series: (history, window) => [
+      { key: 'network', label: 'Network', color: '#F5F5F4', points: HistoryStore.series(history, window, HistoryStore.networkKey('throughput')) },
+      // Hubs that carried no traffic in the window would only draw a flat line at zero
+      ...TRANSIT_HUB_IDS.map(id => ({
+        key: id,
+        label: TRANSIT_HUBS[id].label,
+        color: TRANSIT_COLORS[id],
+        points: HistoryStore.series(history, window, HistoryStore.hubKey(id, 'throughput'))
+      })).filter(s => s.points.some(p => p.value > 0))
+    ]
+  },
+  latency: {
+    label: 'Latency',
+    format: v => `${v.toFixed(0)}ms`,
+    series: (history, window) => (['p50', 'p95', 'p99'] as const).map((p, i) => ({
+      key: p,
+      label: p,
+      color: ['#6BCF7F', '#FFD93D', '#FF6B6B'][i],
+      points: HistoryStore.series(history, window, HistoryStore.networkKey(`latency-${p}`))
+    }))
+  },
+  health: {
+    label: 'District Health',
+    format: v => `${v.toFixed(0)}%`,
+    max: 100,
+    series: (history, window, districts) => districts.map(hub => ({
+      key: hub.id,
+      label: hub.id,
+      color: districtColor(hub.id),
+      points: HistoryStore.series(history, window, HistoryStore.districtKey(hub.id, 'health'))
+    }))
+  },
+  tflops: {
+    label: 'GPU TFLOPS',
+    format: v => `${v.toFixed(0)} TF`,
+    area: true,
+    series: (history, window, districts) => districts.map(hub => ({
+      key: hub.id,
+      label: hub.id,
+      color: districtColor(hub.id),
+      points: HistoryStore.series(history, window, HistoryStore.districtKey(hub.id, 'tflops'))
+    }))
+  },
+  vram: {
+    label: 'VRAM',
+    format: v => `${v.toFixed(1)} GB`,
+    max: 80,
+    area: true,
+    series: (history, window, districts) => districts.map(hub => ({
+      key: hub.id,
+      label: hub.id,
+      color: districtColor(hub.id),
+      points: HistoryStore.series(history, window, HistoryStore.districtKey(hub.id, 'vram'))
+    }))
+  }
+};
+
+const tabClass = (isActive: boolean) =>
+  `px-3 py-1.5 rounded-lg text-[9px] font-bold uppercase tracking-widest transition-all ${
+    isActive ? 'bg-fusion-bolt text-white' : 'bg-stone-800 text-stone-400 hover:text-white'
+  }`;
+
+/**
+ * TelemetryHistoryPanel Component
+ *
+ * Recorded network, hub, district and GPU telemetry over the last minute,
+ * quarter hour or hour of simulated time.
+ */
+export const TelemetryHistoryPanel: React.FC = () => {
+  const { state } = useCity();
+  const [chart, setChart] = useState<ChartId>('throughput');
+  const [historyWindow, setHistoryWindow] = useState<HistoryWindow>('1m');
+
+  const definition = CHARTS[chart];
+  // Series never recorded, such as GPU metrics of districts without GPUs, are left out
+  const series = useMemo(
+    () => definition.series(state.history, historyWindow, state.topology).filter(s => s.points.length > 0),
+    [definition, state.history, historyWindow, state.topology]);
+
+  return (
+    <div className="p-8 bg-stone-900 border border-stone-800 rounded-[3rem] font-sans">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <span className="flex items-center gap-3 text-[10px] font-bold text-white uppercase tracking-widest">
+          <LineChart size={14} className="text-fusion-bolt" /> Telemetry History
+        </span>
+        <div className="flex gap-1.5">
+          {(Object.keys(HISTORY_WINDOWS) as HistoryWindow[]).map(w => (
+            <button key={w} onClick={() => setHistoryWindow(w)} className={tabClass(historyWindow === w)}>{w}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 mb-6">
+        {(Object.keys(CHARTS) as ChartId[]).map(id => (
+          <button key={id} onClick={() => setChart(id)} className={tabClass(chart === id)}>{CHARTS[id].label}</button>
+        ))}
+      </div>
+
+      <TimeSeriesChart
+        series={series}
+        now={state.clock.elapsed}
+        span={HISTORY_WINDOWS[historyWindow].span}
+        format={definition.format}
+        max={definition.max}
+        area={definition.area}
+        height={180}
+      />
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-4 text-[9px] font-mono text-stone-400">
+        {series.map(s => (
+          <span key={s.key} className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </span>
+        ))}
+        <span className="ml-auto text-stone-600">
+          {HISTORY_WINDOWS[historyWindow].resolution}s resolution
+        </span>
+      </div>
+    </div>
+  );
+};
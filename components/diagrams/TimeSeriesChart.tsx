@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { TimeSeriesPoint } from '../../types';
+
+/**
+ * A line drawn on a TimeSeriesChart.
+ */
+export interface ChartSeries {
+  readonly key: string;
+  readonly label: string;
+  /** Stroke colour, any CSS colour */
+  readonly color: string;
+  readonly points: readonly TimeSeriesPoint[];
+}
+
+interface TimeSeriesChartProps {
+  readonly series: readonly ChartSeries[];
+  /** Simulated second at the right edge */
+  readonly now: number;
+  /** Simulated seconds between the left and right edges */
+  readonly span: number;
+  readonly format: (value: number) => string;
+  /** Top of the value axis; defaults to the largest value plotted */
+  readonly max?: number;
+  /** Shade the area under each line */
+  readonly area?: boolean;
+  /** Height in pixels */
+  readonly height?: number;
+  /** Sparkline mode: no axis labels and no hover inspection */
+  readonly compact?: boolean;
+}
+
+const WIDTH = 1000;
+
+/** Rounds up to 1, 2 or 5 times a power of ten so axis labels stay readable. */
+const niceCeil = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return ([1, 2, 5, 10].find(m => m * magnitude >= value) ?? 10) * magnitude;
+};
+
+const formatAge = (seconds: number) =>
+  seconds >= 60 ? `-${Math.round(seconds / 60)}m` : `-${Math.round(seconds)}s`;
+
+/**
+ * TimeSeriesChart Component
+ *
+ * Line or area chart of simulated-time series on a shared time axis. Hovering
+ * inspects every series at the nearest recorded point.
+ */
+export const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({
+  series, now, span, format, max, area = false, height = 160, compact = false
+}) => {
+  const [hoverAt, setHoverAt] = useState<number | null>(null);
+
+  const start = now - span;
+  const top = max ?? niceCeil(Math.max(0, ...series.flatMap(s => s.points.map(p => p.value))));
+  const x = (at: number) => ((at - start) / span) * WIDTH;
+  const y = (value: number) => height - (Math.min(top, Math.max(0, value)) / top) * height;
+
+  const handleMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setHoverAt(start + ((e.clientX - rect.left) / rect.width) * span);
+  };
+
+  const nearest = (points: readonly TimeSeriesPoint[]) => hoverAt === null || points.length === 0 ? undefined
+    : points.reduce((best, p) => Math.abs(p.at - hoverAt) < Math.abs(best.at - hoverAt) ? p : best);
+  const inspected = series.map(s => ({ series: s, point: nearest(s.points) })).filter(i => i.point);
+  const inspectedAt = inspected[0]?.point?.at;
+
+  return (
+    <div className="font-mono text-[9px]">
+      <div
+        className="relative"
+        style={{ height }}
+        onMouseMove={compact ? undefined : handleMove}
+        onMouseLeave={() => setHoverAt(null)}
+      >
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full overflow-visible">
+          {!compact && [0.25, 0.5, 0.75].map(f => (
+            <line key={f} x1={0} x2={WIDTH} y1={height * f} y2={height * f} stroke="#292524" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+          ))}
+          {series.map(s => {
+            const visible = s.points.filter(p => p.at >= start);
+            if (visible.length === 0) return null;
+            const line = visible.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.at).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+            return (
+              <g key={s.key}>
+                {area && (
+                  <path
+                    d={`${line} L${x(visible[visible.length - 1].at).toFixed(1)},${height} L${x(visible[0].at).toFixed(1)},${height} Z`}
+                    fill={s.color}
+                    fillOpacity={0.12}
+                  />
+                )}
+                <path d={line} fill="none" stroke={s.color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+              </g>
+            );
+          })}
+          {inspectedAt !== undefined && (
+            <line x1={x(inspectedAt)} x2={x(inspectedAt)} y1={0} y2={height} stroke="#a8a29e" vectorEffect="non-scaling-stroke" />
+          )}
+        </svg>
+
+        {!compact && (
+          <span className="absolute top-0 left-1 text-stone-600 pointer-events-none">{format(top)}</span>
+        )}
+
+        {inspectedAt !== undefined && (
+          <div
+            className={`absolute top-2 z-10 px-3 py-2 rounded-lg bg-stone-950/95 border border-stone-800 pointer-events-none space-y-0.5 ${
+              x(inspectedAt) > WIDTH / 2 ? '-translate-x-full -ml-2' : 'ml-2'
+            }`}
+            style={{ left: `${(x(inspectedAt) / WIDTH) * 100}%` }}
+          >
+            <div className="text-stone-500">T+{inspectedAt}s</div>
+            {inspected.map(({ series: s, point }) => (
+              <div key={s.key} className="flex items-center gap-2 whitespace-nowrap">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: s.color }} />
+                <span className="text-stone-400">{s.label}</span>
+                <span className="ml-auto pl-3 text-white">{format(point!.value)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!compact && (
+        <div className="flex justify-between mt-1 text-stone-600">
+          <span>{formatAge(span)}</span>
+          <span>{formatAge(span / 2)}</span>
+          <span>now</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,28 +4,83 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Layers, Layout, Shield, Database, FileJson, CheckCircle2, RefreshCw, Cpu, Activity, Info, Sparkles } from 'lucide-react';
-import { FLOW_PACKETS } from '../../data/content';
+import { Layers, Layout, Shield, Database, FileJson, CheckCircle2, RefreshCw, Cpu, Activity, Info, Sparkles, Upload, X } from 'lucide-react';
+import { TRACE_SERVICE_MAPPINGS, TRANSIT_HUBS } from '../../data/content';
 import { Tooltip } from '../ui/Library';
+import { useCity } from '../../context/CityContext';
+import { useFlowTrace } from '../../hooks/useFlowTrace';
+import { RoutingEngine } from '../../services/simulation/routing';
+import { TraceImporter } from '../../services/otlp';
+import { FlowCatalog } from '../../services/flows';
+import { RecordedTrace } from '../../types';
+
+/** Recorded hop latencies are played back this many times slower, within the bounds below. */
+const TRACE_PLAYBACK_SLOWDOWN = 10;
+const MIN_HOP_PLAYBACK_MS = 800;
+const MAX_HOP_PLAYBACK_MS = 4000;
 
 /**
  * IntegrationLayerDiagram Component
  * 
  * Visualizes the data sync pipeline between federated systems.
- * Uses a synchronized Framer Motion cycle to illustrate multi-stage transformation logic.
+ * Uses a synchronized Framer Motion cycle to illustrate multi-stage transformation logic,
+ * or plays back imported OpenTelemetry traces hop by hop at their recorded latencies.
  */
 export const IntegrationLayerDiagram: React.FC = () => {
+  const { state, routes } = useCity();
+  // Every declared flow, idle ones included, so the cycle never runs empty
+  const flows = state.flows;
+  const traced = useFlowTrace();
   const [activePacketIndex, setActivePacketIndex] = useState(0);
   const [flowStep, setFlowStep] = useState(0); // 0: Origin, 1: Translator, 2: Destination
+  const [traces, setTraces] = useState<RecordedTrace[]>([]);
+  const [traceIndex, setTraceIndex] = useState(0);
+  const [hopIndex, setHopIndex] = useState(0);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const trace = traces[traceIndex];
+  // The flow tracer pins the cycle to the traced flow
+  const tracedIndex = useRef<number | null>(null);
+  tracedIndex.current = traced ? flows.findIndex(f => f.id === traced.flow.id) : null;
+
+  const importTraces = async (file: File) => {
+    try {
+      const imported = TraceImporter.toTraces(TraceImporter.parse(await file.text()), TRACE_SERVICE_MAPPINGS, flows, state.topology.map(h => h.id));
+      if (imported.length === 0) throw new Error('No span in the file maps to a district or transit hub.');
+      setTraces(imported);
+      setTraceIndex(0);
+      setHopIndex(0);
+      setImportError(null);
+    } catch (e) {
+      setImportError((e as Error).message);
+    }
+  };
+
+  // Trace playback: each hop stays on screen for its recorded latency, slowed down
+  useEffect(() => {
+    if (!trace) return;
+    const playback = Math.min(MAX_HOP_PLAYBACK_MS,
+      Math.max(MIN_HOP_PLAYBACK_MS, TraceImporter.hopLatency(trace, hopIndex) * TRACE_PLAYBACK_SLOWDOWN));
+    const timeout = setTimeout(() => {
+      if (hopIndex + 1 < trace.hops.length) {
+        setHopIndex(hopIndex + 1);
+      } else {
+        setHopIndex(0);
+        setTraceIndex(i => (i + 1) % traces.length);
+      }
+    }, playback);
+    return () => clearTimeout(timeout);
+  }, [trace, hopIndex, traces.length]);
 
   useEffect(() => {
+    if (trace) return;
     const stageDuration = 4000; 
     const interval = setInterval(() => {
         setFlowStep(prev => {
             if (prev >= 2) {
-                setActivePacketIndex(p => (p + 1) % FLOW_PACKETS.length);
+                setActivePacketIndex(p => tracedIndex.current ?? p + 1);
                 return 0;
             }
             return prev + 1;
@@ -33,9 +88,27 @@ export const IntegrationLayerDiagram: React.FC = () => {
     }, stageDuration); 
     
     return () => clearInterval(interval);
-  }, []);
+  }, [trace]);
+
+  useEffect(() => {
+    if (tracedIndex.current === null) return;
+    setActivePacketIndex(tracedIndex.current);
+    setFlowStep(0);
+  }, [traced?.flow.id]);
 
-  const packet = useMemo(() => FLOW_PACKETS[activePacketIndex], [activePacketIndex]);
+  // Imports can shorten the list under the running cycle
+  const packet = useMemo(() => flows[activePacketIndex % flows.length], [flows, activePacketIndex]);
+  // Station at which the traced packet would fail: source, hub or targets
+  const failedStation = useMemo(() => {
+    const failure = traced?.flow.id === packet.id ? traced.trace.failure : undefined;
+    if (!failure) return null;
+    if (failure.step.node.kind === 'transit') return 1;
+    return failure.step.node.id === packet.origin && failure.step.platform === packet.source.platform ? 0 : 2;
+  }, [traced, packet]);
+  const isTracing = !trace && traced?.flow.id === packet.id;
+  // A trace shows the simulated route of the flow it recorded, if any
+  const flowId = trace ? trace.flowId : packet.id;
+  const route = useMemo(() => routes.find(r => r.flowId === flowId), [routes, flowId]);
 
   return (
     <div className="flex flex-col items-center w-full max-w-6xl p-12 md:p-24 my-16 border border-stone-200 dark:border-stone-800 rounded-[6rem] bg-stone-50 dark:bg-stone-950/90 backdrop-blur-4xl shadow-5xl relative overflow-hidden group">
@@ -45,7 +118,7 @@ export const IntegrationLayerDiagram: React.FC = () => {
         <motion.div 
             className="h-full bg-gradient-to-r from-blue-500 via-nobel-gold to-emerald-500 shadow-[0_0_35px_rgba(197,160,89,0.8)]"
             initial={{ width: '0%' }}
-            animate={{ width: `${(flowStep + 1) * 33.3}%` }}
+            animate={{ width: trace ? `${((hopIndex + 1) / trace.hops.length) * 100}%` : `${(flowStep + 1) * 33.3}%` }}
             transition={{ duration: 1.5, ease: [0.34, 1.56, 0.64, 1] }}
         />
         <motion.div 
@@ -88,13 +161,15 @@ export const IntegrationLayerDiagram: React.FC = () => {
           </motion.div>
       </header>
 
+      {trace ? <TraceLane trace={trace} hopIndex={hopIndex} /> : (
       <div className="grid w-full grid-cols-1 gap-16 lg:grid-cols-3 relative z-10 min-h-[520px]">
         
         {/* Step 1: Origin Station */}
         <StationCard 
           isActive={flowStep === 0}
           title="Genesis"
-          tagline="Front-of-House"
+          tagline={isTracing ? `${packet.source.platform} · ${packet.origin}` : "Front-of-House"}
+          isFailed={failedStation === 0}
           tooltip="Captures initial interactions from CRM and Marketing hubs."
           icon={Layout}
           activeColor="bg-blue-600"
@@ -126,7 +201,8 @@ export const IntegrationLayerDiagram: React.FC = () => {
         <StationCard 
           isActive={flowStep === 1}
           title="Fabric"
-          tagline="Logic Orchestration"
+          tagline={isTracing ? TRANSIT_HUBS[route?.carrier ?? packet.transit.hub].label : "Logic Orchestration"}
+          isFailed={failedStation === 1}
           tooltip="Normalizes schemas and routes via n8n Metro backbone."
           icon={RefreshCw}
           activeColor="bg-nobel-gold"
@@ -160,7 +236,8 @@ export const IntegrationLayerDiagram: React.FC = () => {
         <StationCard 
           isActive={flowStep === 2}
           title="Canonical"
-          tagline="Back-of-House Sync"
+          tagline={isTracing ? packet.targets.map(t => `${t.platform} · ${t.district}`).join(' + ') : "Back-of-House Sync"}
+          isFailed={failedStation === 2}
           tooltip="Finalizes records for compliance and analytical storage."
           icon={Shield}
           activeColor="bg-emerald-600"
@@ -189,6 +266,7 @@ export const IntegrationLayerDiagram: React.FC = () => {
           </AnimatePresence>
         </StationCard>
       </div>
+      )}
 
       <footer className="mt-32 w-full max-w-5xl bg-white/60 dark:bg-stone-900/60 p-14 rounded-[4rem] border border-stone-200/50 dark:border-stone-800/50 shadow-2xl backdrop-blur-md">
         <div className="flex flex-col md:flex-row items-center justify-between gap-12 mb-10">
@@ -199,24 +277,24 @@ export const IntegrationLayerDiagram: React.FC = () => {
             </div>
             <AnimatePresence mode="wait">
               <motion.span 
-                  key={packet.id}
+                  key={trace ? trace.traceId : packet.id}
                   initial={{ opacity: 0, x: -20 }}
                   animate={{ opacity: 1, x: 0 }}
                   exit={{ opacity: 0, x: 20 }}
                   className="text-5xl font-serif font-bold text-nobel-gold italic tracking-tight leading-none"
               >
-                  {packet.label}
+                  {trace ? trace.label : packet.label}
               </motion.span>
             </AnimatePresence>
           </div>
           <div className="flex gap-8">
-            {[0, 1, 2].map(s => (
+            {(trace ? trace.hops.map((_, i) => i) : [0, 1, 2]).map(s => (
               <motion.div 
                 key={s}
                 animate={{ 
-                  scale: s === flowStep ? 2.5 : 1,
-                  backgroundColor: s === flowStep ? "#C5A059" : "rgba(168, 162, 158, 0.15)",
-                  boxShadow: s === flowStep ? "0 0 20px rgba(197,160,89,0.5)" : "none"
+                  scale: s === (trace ? hopIndex : flowStep) ? 2.5 : 1,
+                  backgroundColor: s === (trace ? hopIndex : flowStep) ? "#C5A059" : "rgba(168, 162, 158, 0.15)",
+                  boxShadow: s === (trace ? hopIndex : flowStep) ? "0 0 20px rgba(197,160,89,0.5)" : "none"
                 }}
                 className="w-5 h-5 rounded-full transition-all duration-1000"
               />
@@ -225,20 +303,100 @@ export const IntegrationLayerDiagram: React.FC = () => {
         </div>
         <AnimatePresence mode="wait">
           <motion.p 
-            key={packet.desc}
+            key={trace ? trace.traceId : packet.id}
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -10 }}
             className="text-2xl text-stone-500 text-center md:text-left leading-relaxed font-light border-l-[12px] border-nobel-gold/20 pl-14 py-4 italic"
           >
-            {packet.desc}
+            {trace
+              ? `Trace ${trace.traceId.slice(0, 8)} · ${trace.durationMs.toFixed(0)}ms over ${trace.hops.length} hops${
+                trace.flowId ? ` · recorded ${flows.find(f => f.id === trace.flowId)?.label ?? trace.flowId}` : ''}`
+              : `${FlowCatalog.describe(packet, TRANSIT_HUBS)} · ~${FlowCatalog.expectedLatency(packet)}ms expected`}
           </motion.p>
         </AnimatePresence>
+        {route && (
+          <div className="mt-8 flex flex-wrap items-center gap-4 pl-14">
+            <span className={`text-[11px] font-black uppercase tracking-[0.4em] ${route.status === 'nominal' ? 'text-emerald-500' : route.status === 'rerouted' ? 'text-nobel-gold' : 'text-red-500'}`}>
+              {route.status}
+            </span>
+            {route.legs.map(leg => (
+              <span key={leg.destination} className={`text-sm font-mono ${leg.delivered ? 'text-stone-500' : 'text-red-400 line-through'}`}>
+                {RoutingEngine.formatPath(leg)}
+              </span>
+            ))}
+            {route.reason && <span className="text-sm italic text-stone-400">— {route.reason}</span>}
+          </div>
+        )}
+        <div className="mt-8 flex flex-wrap items-center gap-4 pl-14">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importTraces(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-2 px-5 py-2.5 rounded-full border border-stone-300 dark:border-stone-700 text-[11px] font-black uppercase tracking-[0.3em] text-stone-500 hover:text-nobel-gold hover:border-nobel-gold transition-colors"
+          >
+            <Upload size={14} /> Import OTLP Trace
+          </button>
+          {trace && (
+            <button
+              onClick={() => setTraces([])}
+              className="flex items-center gap-2 px-5 py-2.5 rounded-full text-[11px] font-black uppercase tracking-[0.3em] text-stone-400 hover:text-stone-700 dark:hover:text-white transition-colors"
+            >
+              <X size={14} /> {traces.length > 1 ? `${traceIndex + 1}/${traces.length} traces` : 'Clear trace'}
+            </button>
+          )}
+          {importError && <span className="text-sm text-red-400">{importError}</span>}
+          {trace && trace.unmappedServices.length > 0 && (
+            <span className="text-sm italic text-stone-400">Unmapped: {trace.unmappedServices.join(', ')}</span>
+          )}
+        </div>
       </footer>
     </div>
   );
 };
 
+/**
+ * Hops of a recorded trace in order, the current one raised, each with the
+ * latency it spent there.
+ */
+const TraceLane: React.FC<{ trace: RecordedTrace; hopIndex: number }> = ({ trace, hopIndex }) => (
+  <div className="flex w-full flex-wrap justify-center gap-6 relative z-10 min-h-[520px] content-center">
+    {trace.hops.map((hop, i) => {
+      const isActive = i === hopIndex;
+      return (
+        <motion.div
+          key={`${trace.traceId}-${i}`}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: i <= hopIndex ? 1 : 0.4, y: isActive ? -15 : 0, scale: isActive ? 1.06 : 1 }}
+          transition={{ type: "spring", stiffness: 100, damping: 20 }}
+          className={`flex flex-col items-center gap-3 w-44 p-8 rounded-[3rem] border-2 bg-white dark:bg-stone-800/40 ${
+            hop.isError ? 'border-red-400/60' : isActive ? 'border-nobel-gold/60 shadow-4xl' : 'border-stone-200/30 dark:border-stone-700/30'
+          }`}
+        >
+          <div className={`flex items-center justify-center w-16 h-16 rounded-[1.5rem] ${isActive ? 'bg-nobel-gold text-white' : 'bg-stone-100 dark:bg-stone-700/50 text-stone-400'}`}>
+            {hop.node.kind === 'transit' ? <RefreshCw size={28} /> : <Cpu size={28} />}
+          </div>
+          <span className="font-serif font-black text-2xl text-stone-800 dark:text-stone-100">{hop.node.id}</span>
+          <span className="text-[10px] font-mono text-stone-400 text-center break-all">{hop.service}</span>
+          <span className="text-[10px] font-mono text-stone-500 text-center truncate w-full" title={hop.operation}>{hop.operation}</span>
+          <span className={`text-sm font-mono font-bold ${hop.isError ? 'text-red-400' : 'text-nobel-gold'}`}>
+            {TraceImporter.hopLatency(trace, i).toFixed(0)}ms
+          </span>
+        </motion.div>
+      );
+    })}
+  </div>
+);
+
 const StationCard: React.FC<{
   isActive: boolean;
   title: string;
@@ -248,14 +406,16 @@ const StationCard: React.FC<{
   activeColor: string;
   accentColor: string;
   iconAnimation?: any;
+  /** The traced packet would fail at this station */
+  isFailed?: boolean;
   children: React.ReactNode;
-}> = ({ isActive, title, tagline, tooltip, icon: Icon, activeColor, accentColor, iconAnimation, children }) => (
+}> = ({ isActive, title, tagline, tooltip, icon: Icon, activeColor, accentColor, iconAnimation, isFailed, children }) => (
   <Tooltip content={tooltip} position="top" className="w-full h-full">
     <motion.div 
         animate={{ 
           scale: isActive ? 1.06 : 1,
           boxShadow: isActive ? `0 60px 100px -30px ${accentColor}` : "0 10px 30px -15px rgba(0,0,0,0.1)",
-          borderColor: isActive ? accentColor : "rgba(168, 162, 158, 0.1)",
+          borderColor: isFailed ? "rgba(239, 68, 68, 0.6)" : isActive ? accentColor : "rgba(168, 162, 158, 0.1)",
           y: isActive ? -15 : 0
         }}
         transition={{ type: "spring", stiffness: 100, damping: 20 }}
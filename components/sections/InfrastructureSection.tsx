@@ -8,6 +8,7 @@ import React from 'react';
 import { Layers } from 'lucide-react';
 import { FadeIn, ParallaxSection, Container } from '../ui/Library';
 import { HubArchitectureDiagram } from '../Diagrams';
+import { ResilienceReportPanel } from '../diagrams/ResilienceReportPanel';
 import { SectionContent } from '../../types';
 
 export const InfrastructureSection: React.FC<{ content: SectionContent }> = ({ content }) => (
@@ -15,6 +16,7 @@ export const InfrastructureSection: React.FC<{ content: SectionContent }> = ({ c
     <Container className="grid lg:grid-cols-2 gap-24 items-center">
       <div className="order-2 lg:order-1">
         <FadeIn delay={0.3}><HubArchitectureDiagram /></FadeIn>
+        <FadeIn delay={0.5}><ResilienceReportPanel /></FadeIn>
       </div>
       <div className="order-1 lg:order-2">
         <FadeIn>
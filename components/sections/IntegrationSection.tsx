@@ -8,6 +8,10 @@ import React from 'react';
 import { FadeIn, ParallaxSection, Container } from '../ui/Library';
 import { IntegrationLayerDiagram } from '../Diagrams';
 import { NOCDashboard } from '../diagrams/NOCDashboard';
+import { TelemetryHistoryPanel } from '../diagrams/TelemetryHistoryPanel';
+import { FlowTracerPanel } from '../diagrams/FlowTracerPanel';
+import { ErrorBudgetPanel } from '../diagrams/ErrorBudgetPanel';
+import { IncidentTimeline } from '../diagrams/IncidentTimeline';
 import { SectionContent } from '../../types';
 
 export const IntegrationSection: React.FC<{ content: SectionContent }> = ({ content }) => {
@@ -30,6 +34,18 @@ export const IntegrationSection: React.FC<{ content: SectionContent }> = ({ cont
             <FadeIn delay={0.6} className="lg:col-span-4">
               <NOCDashboard />
             </FadeIn>
+            <FadeIn delay={0.8} className="lg:col-span-12">
+              <FlowTracerPanel />
+            </FadeIn>
+            <FadeIn delay={0.8} className="lg:col-span-12">
+              <TelemetryHistoryPanel />
+            </FadeIn>
+            <FadeIn delay={0.8} className="lg:col-span-12">
+              <ErrorBudgetPanel />
+            </FadeIn>
+            <FadeIn delay={0.8} className="lg:col-span-12">
+              <IncidentTimeline />
+            </FadeIn>
           </div>
         </Container>
       </div>
@@ -6,11 +6,24 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Terminal, ShieldAlert, RefreshCw, Power, Zap } from 'lucide-react';
+import { Terminal, ShieldAlert, RefreshCw, Power, Zap, Bug, Boxes } from 'lucide-react';
 import { FadeIn, ParallaxSection, Container, Tooltip } from '../ui/Library';
 import { useCity } from '../../context/CityContext';
-import { HUBS_DATA } from '../../data/content';
+import { DISTRICT_ICONS } from '../../data/content';
 import { GPUInferenceDiagram } from '../diagrams/GPUInferenceDiagram';
+import { PropagationEngine } from '../../services/simulation/propagation';
+import { TransitEngine } from '../../services/simulation/transit';
+import { ChaosEngine } from '../../services/simulation/chaos';
+import { ClockControls } from '../simulation/ClockControls';
+import { ScenarioPanel } from '../simulation/ScenarioPanel';
+import { TimelineScrubber } from '../simulation/TimelineScrubber';
+import { ChangeHistory } from '../simulation/ChangeHistory';
+import { TransitMixPanel } from '../simulation/TransitMixPanel';
+import { ChaosPanel } from '../simulation/ChaosPanel';
+import { MetricsSourcePanel } from '../simulation/MetricsSourcePanel';
+import { TopologyEditor } from '../simulation/TopologyEditor';
+import { TopologyImportPanel } from '../simulation/TopologyImportPanel';
+import { TopologyDiagnosticsPanel } from '../simulation/TopologyDiagnosticsPanel';
 
 /**
  * SimulationSection Component
@@ -19,7 +32,8 @@ import { GPUInferenceDiagram } from '../diagrams/GPUInferenceDiagram';
  * districts on/off to see how the n8n Metro backbone re-routes traffic.
  */
 export const SimulationSection: React.FC = () => {
-  const { state, toggleDistrict, setTransitHub, resetSimulation, toggleGPUBooost } = useCity();
+  const { state, flows, routes, toggleDistrict, resetSimulation, toggleGPUBooost } = useCity();
+  const blastRadius = PropagationEngine.blastRadius(state.districts);
 
   return (
     <ParallaxSection id="simulation" variant="dark">
@@ -39,24 +53,25 @@ export const SimulationSection: React.FC = () => {
               </p>
               
               <div className="space-y-6">
-                <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
-                  <span className="text-[10px] font-bold text-stone-500 uppercase tracking-widest block mb-4">Active Transit Hub</span>
-                  <div className="flex gap-2">
-                    {['n8n', 'Zapier', 'Manual'].map(hub => (
-                      <button
-                        key={hub}
-                        onClick={() => setTransitHub(hub as any)}
-                        className={`flex-1 py-3 rounded-xl text-[10px] font-bold uppercase transition-all ${
-                          state.transitHub === hub 
-                            ? 'bg-fusion-bolt text-white shadow-lg shadow-fusion-bolt/20' 
-                            : 'bg-stone-800 text-stone-400 hover:text-white'
-                        }`}
-                      >
-                        {hub}
-                      </button>
-                    ))}
-                  </div>
-                </div>
+                <ClockControls />
+
+                <TimelineScrubber />
+
+                <ChangeHistory />
+
+                <ScenarioPanel />
+
+                <TransitMixPanel />
+
+                <ChaosPanel />
+
+                <MetricsSourcePanel />
+
+                <TopologyEditor />
+
+                <TopologyDiagnosticsPanel />
+
+                <TopologyImportPanel />
 
                 <div className="p-6 rounded-3xl bg-emerald-950/20 border border-emerald-900/30">
                   <div className="flex justify-between items-center mb-6">
@@ -66,7 +81,7 @@ export const SimulationSection: React.FC = () => {
                     </div>
                   </div>
                   <button 
-                    onClick={toggleGPUBooost}
+                    onClick={() => toggleGPUBooost()}
                     className="w-full flex items-center justify-center gap-3 py-4 rounded-full bg-emerald-500 text-white font-bold text-xs uppercase tracking-widest hover:bg-emerald-400 transition-all shadow-lg shadow-emerald-500/20"
                   >
                     <Zap size={16} fill="white" />
@@ -75,7 +90,7 @@ export const SimulationSection: React.FC = () => {
                 </div>
 
                 <button 
-                  onClick={resetSimulation}
+                  onClick={() => resetSimulation()}
                   className="w-full flex items-center justify-center gap-3 py-4 rounded-full border border-stone-800 text-stone-400 hover:border-fusion-bolt hover:text-fusion-bolt transition-all"
                 >
                   <RefreshCw size={18} />
@@ -90,9 +105,31 @@ export const SimulationSection: React.FC = () => {
               <GPUInferenceDiagram />
             </FadeIn>
             
+            <div className={`flex items-center justify-between p-6 rounded-3xl border ${
+              blastRadius.length > 0 ? 'bg-orange-950/20 border-orange-900/40' : 'bg-stone-900 border-stone-800'
+            }`}>
+              <span className="text-[10px] font-bold text-stone-500 uppercase tracking-widest">Blast Radius</span>
+              <span className={`text-[10px] font-mono font-bold uppercase tracking-widest ${blastRadius.length > 0 ? 'text-orange-400' : 'text-emerald-500'}`}>
+                {blastRadius.length > 0 ? `${blastRadius.join(' · ')} degraded` : 'Contained'}
+              </span>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full">
-              {HUBS_DATA.map((hub, idx) => {
+              {state.topology.map((hub, idx) => {
                 const status = state.districts[hub.id];
+                const HubIcon = DISTRICT_ICONS[hub.icon] ?? Boxes;
+                const impacted = routes.filter(r => {
+                  const origin = flows.find(f => f.id === r.flowId)?.origin;
+                  return r.legs.some(l => !l.delivered && (l.destination === hub.id || origin === hub.id));
+                }).length;
+                const faults = state.faults.filter(({ fault }) => {
+                  switch (fault.kind) {
+                    case 'LATENCY': return fault.from === hub.id || fault.to === hub.id;
+                    case 'RATE_LIMIT': return false;
+                    case 'GPU_THROTTLE': return hub.id === 'AI';
+                    default: return fault.target === hub.id;
+                  }
+                });
                 return (
                   <FadeIn key={hub.id} delay={idx * 0.05}>
                     <div className={`p-8 rounded-[2.5rem] border transition-all duration-500 bg-stone-900 group ${
@@ -102,7 +139,7 @@ export const SimulationSection: React.FC = () => {
                     }`}>
                       <div className="flex justify-between items-start mb-6">
                         <div className={`p-4 rounded-2xl ${hub.color} text-white shadow-lg`}>
-                          <hub.icon size={24} />
+                          <HubIcon size={24} />
                         </div>
                         <Tooltip content={status.isActive ? "Online" : "Fault Detected"}>
                           <button 
@@ -135,8 +172,32 @@ export const SimulationSection: React.FC = () => {
                             className={`h-full ${status.load > 80 ? 'bg-red-500' : 'bg-fusion-metro'}`}
                           />
                         </div>
+                        <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest">
+                          <span className="text-stone-500">Health</span>
+                          <span className={!status.isActive ? 'text-stone-600' : status.health < 90 ? 'text-orange-400' : 'text-emerald-500'}>
+                            {status.isActive ? `${status.health.toFixed(0)}%` : 'OFFLINE'}
+                          </span>
+                        </div>
+                        <div className="h-1.5 bg-stone-800 rounded-full overflow-hidden">
+                          <motion.div 
+                            initial={{ width: 0 }}
+                            animate={{ width: `${status.isActive ? status.health : 0}%` }}
+                            className={`h-full ${status.health < 50 ? 'bg-red-500' : status.health < 90 ? 'bg-orange-400' : 'bg-emerald-500'}`}
+                          />
+                        </div>
                       </div>
 
+                      {faults.length > 0 && (
+                        <div className="mt-6 space-y-1">
+                          {faults.map(({ id, fault }) => (
+                            <div key={id} className="flex items-center gap-2 text-[10px] font-mono text-orange-400">
+                              <Bug size={12} className="shrink-0" />
+                              <span className="truncate">{ChaosEngine.describe(fault)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {!status.isActive && (
                         <motion.div 
                           initial={{ opacity: 0 }}
@@ -144,7 +205,9 @@ export const SimulationSection: React.FC = () => {
                           className="mt-6 flex items-center gap-3 text-red-500 bg-red-500/5 p-3 rounded-xl border border-red-500/20"
                         >
                           <ShieldAlert size={16} />
-                          <span className="text-[10px] font-bold uppercase tracking-widest">Failover Triggered: {state.transitHub}</span>
+                          <span className="text-[10px] font-bold uppercase tracking-widest">
+                            {impacted > 0 ? `${impacted} Flow${impacted > 1 ? 's' : ''} Disrupted` : `Isolated via ${TransitEngine.describe(state.transit.weights)}`}
+                          </span>
                         </motion.div>
                       )}
                     </div>
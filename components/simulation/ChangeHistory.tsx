@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo } from 'react';
+import { Undo2, Redo2, ListRestart } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { useUndoShortcuts } from '../../hooks/useUndoShortcuts';
+import { TimelineRecorder } from '../../services/simulation/recorder';
+import { SOURCE_STYLES } from './TimelineScrubber';
+
+/** Clock controls are not changes to the city and stay out of the change log. */
+const CLOCK_ACTIONS = new Set(['TICK', 'SET_PAUSED', 'SET_SPEED']);
+const VISIBLE_CHANGES = 10;
+
+/**
+ * ChangeHistory Component
+ *
+ * Undo/redo controls and a log of recent changes to the city, attributed to the
+ * user, the assistant or a scenario.
+ */
+export const ChangeHistory: React.FC = () => {
+  const { timeline, history, undo, redo } = useCity();
+  useUndoShortcuts();
+
+  const { events, cursor } = timeline;
+  const nextUndo = history.undoable.at(-1);
+  const nextRedo = history.redoable.at(-1);
+
+  const changes = useMemo(() =>
+    events
+      .slice(0, cursor ?? events.length)
+      .filter(e => !CLOCK_ACTIONS.has(e.action.type) || e.revises)
+      .slice(-VISIBLE_CHANGES)
+      .reverse(),
+    [events, cursor]);
+
+  const undone = useMemo(() => new Set(history.redoable.map(e => e.seq)), [history.redoable]);
+
+  return (
+    <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+          <ListRestart size={14} /> Change History
+        </span>
+        <span className="text-[9px] font-mono text-stone-600">Ctrl+Z · Ctrl+Shift+Z</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <button
+          onClick={() => undo()}
+          disabled={!nextUndo}
+          className="flex items-center justify-center gap-2 py-2.5 px-3 rounded-xl bg-stone-800 text-stone-300 hover:text-white disabled:opacity-30 text-[10px] font-bold uppercase transition-all"
+        >
+          <Undo2 size={12} className="shrink-0" />
+          <span className="truncate">{nextUndo ? TimelineRecorder.describe(nextUndo.action) : 'Undo'}</span>
+        </button>
+        <button
+          onClick={() => redo()}
+          disabled={!nextRedo}
+          className="flex items-center justify-center gap-2 py-2.5 px-3 rounded-xl bg-stone-800 text-stone-300 hover:text-white disabled:opacity-30 text-[10px] font-bold uppercase transition-all"
+        >
+          <Redo2 size={12} className="shrink-0" />
+          <span className="truncate">{nextRedo ? TimelineRecorder.describe(nextRedo.action) : 'Redo'}</span>
+        </button>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-[10px] font-mono text-stone-600">No changes yet.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {changes.map(e => (
+            <li
+              key={e.seq}
+              className={`flex items-center gap-3 px-3 py-1.5 rounded-lg text-[10px] font-mono ${
+                undone.has(e.seq) ? 'text-stone-600 line-through' : 'text-stone-400'
+              }`}
+            >
+              <span className="w-12 shrink-0">T+{e.at}s</span>
+              <span className={`px-1.5 py-0.5 rounded text-[8px] font-bold uppercase no-underline ${SOURCE_STYLES[e.source]}`}>{e.source}</span>
+              <span className="truncate">{TimelineRecorder.label(e, events)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useMemo } from 'react';
+import { Bug, Flame, X } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { TRANSIT_HUB_IDS } from '../../data/content';
+import { ChaosEngine, CHAOS_DEFAULTS } from '../../services/simulation/chaos';
+import { ChaosFault, ChaosFaultKind, HubId, HubNode, TransitHubId } from '../../types';
+
+const FAULT_KINDS: Record<ChaosFaultKind, { label: string; unit: string; min: number; max: number; step: number }> = {
+  DEGRADE: { label: 'Partial Degradation', unit: '% health', min: 0, max: 90, step: 5 },
+  LATENCY: { label: 'Connection Latency', unit: 'ms', min: 25, max: 1000, step: 25 },
+  PACKET_LOSS: { label: 'Packet Loss', unit: '% lost', min: 5, max: 100, step: 5 },
+  FLAP: { label: 'Flapping', unit: 's period', min: 2, max: 60, step: 2 },
+  RATE_LIMIT: { label: 'Hub Rate Limit', unit: 'pkt/s', min: 50, max: 1500, step: 50 },
+  GPU_THROTTLE: { label: 'GPU Throttling (AI)', unit: '% throttled', min: 10, max: 95, step: 5 }
+};
+
+/** Declared district connections as [a, b] pairs, each listed once. */
+const connectionsOf = (topology: readonly HubNode[]): [HubId, HubId][] => Array.from(new Set(
+  topology.flatMap(hub => hub.connections.map(target => [hub.id, target].sort().join('-')))
+)).map(pair => pair.split('-') as [HubId, HubId]);
+
+const selectClass = 'w-full bg-stone-950 border border-stone-800 rounded-xl px-4 py-3 text-[11px] font-bold text-stone-200 focus:outline-none';
+
+/**
+ * ChaosPanel Component
+ *
+ * Injects partial faults into the running simulation — degradation, added
+ * latency, packet loss, flapping, hub rate limits and GPU throttling — and lists
+ * the faults in effect.
+ */
+export const ChaosPanel: React.FC = () => {
+  const { state, timeline, injectFault, clearFault } = useCity();
+  const [kind, setKind] = useState<ChaosFaultKind>('DEGRADE');
+  const [district, setDistrict] = useState<HubId>('DATA');
+  const [connection, setConnection] = useState(0);
+  const [hub, setHub] = useState<TransitHubId>('n8n');
+  const [magnitude, setMagnitude] = useState(CHAOS_DEFAULTS.DEGRADE);
+  const spec = FAULT_KINDS[kind];
+  const connections = useMemo(() => connectionsOf(state.topology), [state.topology]);
+  // Selections outlive edits to the topology; fall back when their target is removed
+  const target = state.districts[district] ? district : state.topology[0].id;
+  const road = connections[connection] ?? connections[0];
+
+  const selectKind = (next: ChaosFaultKind) => {
+    setKind(next);
+    setMagnitude(CHAOS_DEFAULTS[next]);
+  };
+
+  const buildFault = (): ChaosFault => {
+    switch (kind) {
+      case 'DEGRADE': return { kind, target, health: magnitude };
+      case 'LATENCY': return { kind, from: road[0], to: road[1], latency: magnitude };
+      case 'PACKET_LOSS': return { kind, target, loss: magnitude };
+      case 'FLAP': return { kind, target, period: magnitude };
+      case 'RATE_LIMIT': return { kind, hub, rate: magnitude };
+      case 'GPU_THROTTLE': return { kind, throttle: magnitude };
+    }
+  };
+
+  return (
+    <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+          <Bug size={14} /> Chaos Injection
+        </span>
+        {state.faults.length > 0 && (
+          <span className="px-2 py-1 rounded text-[8px] font-bold uppercase bg-orange-500/10 text-orange-400">
+            {state.faults.length} active
+          </span>
+        )}
+      </div>
+
+      <fieldset disabled={timeline.cursor !== null} className="space-y-3 disabled:opacity-40">
+        <select value={kind} onChange={(e) => selectKind(e.target.value as ChaosFaultKind)} aria-label="Fault type" className={selectClass}>
+          {(Object.keys(FAULT_KINDS) as ChaosFaultKind[]).map(k => <option key={k} value={k}>{FAULT_KINDS[k].label}</option>)}
+        </select>
+
+        {(kind === 'DEGRADE' || kind === 'PACKET_LOSS' || kind === 'FLAP') && (
+          <select value={target} onChange={(e) => setDistrict(e.target.value)} aria-label="Target district" className={selectClass}>
+            {state.topology.map(h => <option key={h.id} value={h.id}>{h.id} · {h.label}</option>)}
+          </select>
+        )}
+        {kind === 'LATENCY' && (
+          <select value={connections[connection] ? connection : 0} onChange={(e) => setConnection(Number(e.target.value))} aria-label="Target connection" className={selectClass}>
+            {connections.map(([a, b], i) => <option key={`${a}-${b}`} value={i}>{a} ↔ {b}</option>)}
+          </select>
+        )}
+        {kind === 'RATE_LIMIT' && (
+          <select value={hub} onChange={(e) => setHub(e.target.value as TransitHubId)} aria-label="Target hub" className={selectClass}>
+            {TRANSIT_HUB_IDS.map(id => <option key={id} value={id}>{id}</option>)}
+          </select>
+        )}
+
+        <div>
+          <div className="flex justify-between text-[9px] font-bold text-stone-500 uppercase tracking-widest mb-1">
+            <span>Magnitude</span>
+            <span className="font-mono text-stone-300">{magnitude} {spec.unit}</span>
+          </div>
+          <input
+            type="range"
+            min={spec.min}
+            max={spec.max}
+            step={spec.step}
+            value={magnitude}
+            onChange={(e) => setMagnitude(Number(e.target.value))}
+            aria-label="Fault magnitude"
+            className="w-full accent-[#FF6B6B]"
+          />
+        </div>
+
+        <button
+          onClick={() => injectFault(buildFault())}
+          className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-orange-500/90 text-white text-[10px] font-bold uppercase tracking-widest hover:bg-orange-400 transition-all"
+        >
+          <Flame size={12} /> Inject Fault
+        </button>
+
+        {state.faults.length > 0 && (
+          <div className="pt-3 border-t border-stone-800 space-y-1.5">
+            {state.faults.map(({ id, since, fault }) => (
+              <div key={id} className="flex items-center gap-3 text-[10px] font-mono text-orange-300">
+                <span className="w-12 shrink-0 text-stone-500">T+{since}s</span>
+                <span className="flex-1 truncate">{ChaosEngine.describe(fault)}</span>
+                <button
+                  onClick={() => clearFault(id)}
+                  aria-label={`Clear ${id}`}
+                  className="p-1 rounded text-stone-500 hover:text-white transition-colors"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => state.faults.forEach(f => clearFault(f.id))}
+              className="w-full mt-2 py-2 rounded-xl bg-stone-800 text-stone-400 hover:text-white text-[10px] font-bold uppercase tracking-widest transition-all"
+            >
+              Clear All Faults
+            </button>
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Play, Pause, StepForward, Dices, Link } from 'lucide-react';
+import { Tooltip } from '../ui/Library';
+import { useCity } from '../../context/CityContext';
+import { SIMULATION_SPEEDS } from '../../services/simulation/engine';
+import { SeededRandom } from '../../services/simulation/prng';
+
+/**
+ * ClockControls Component
+ *
+ * Pause, single-step and speed controls for the simulation clock.
+ * Exposes the run's seed so it can be shared and replayed exactly.
+ */
+export const ClockControls: React.FC = () => {
+  const { state, timeline, setPaused, stepSimulation, setSimulationSpeed, reseed } = useCity();
+  const { clock } = state;
+  // The clock belongs to the present; it is read-only while viewing history
+  const isViewingHistory = timeline.cursor !== null;
+  const [seedInput, setSeedInput] = useState(String(clock.seed));
+
+  // Keep the field in sync when the seed changes elsewhere (reset, shared link)
+  useEffect(() => setSeedInput(String(clock.seed)), [clock.seed]);
+
+  const applySeed = useCallback(() => {
+    reseed(SeededRandom.toSeed(seedInput));
+  }, [seedInput, reseed]);
+
+  const copyRunLink = useCallback(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('seed', String(clock.seed));
+    navigator.clipboard?.writeText(url.toString()).catch(() => undefined);
+  }, [clock.seed]);
+
+  return (
+    <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="text-[10px] font-bold text-stone-500 uppercase tracking-widest">Simulation Clock</span>
+        <span className="text-[10px] font-mono text-fusion-metro">
+          {isViewingHistory && 'Viewing history · '}T+{clock.elapsed}s · #{clock.tick}
+        </span>
+      </div>
+
+      <fieldset disabled={isViewingHistory} className="disabled:opacity-40">
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setPaused(!clock.paused)}
+            aria-label={clock.paused ? 'Resume clock' : 'Pause clock'}
+            className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-stone-800 text-stone-300 hover:text-white text-[10px] font-bold uppercase transition-all"
+          >
+            {clock.paused ? <Play size={14} /> : <Pause size={14} />}
+            {clock.paused ? 'Resume' : 'Pause'}
+          </button>
+          <button
+            onClick={stepSimulation}
+            aria-label="Advance one tick"
+            className="flex items-center justify-center px-4 rounded-xl bg-stone-800 text-stone-300 hover:text-white transition-all"
+          >
+            <StepForward size={14} />
+          </button>
+          {SIMULATION_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              onClick={() => setSimulationSpeed(speed)}
+              className={`px-3 rounded-xl text-[10px] font-bold transition-all ${
+                clock.speed === speed ? 'bg-fusion-bolt text-white' : 'bg-stone-800 text-stone-400 hover:text-white'
+              }`}
+            >
+              {speed}x
+            </button>
+          ))}
+        </div>
+  
+        <form onSubmit={(e) => { e.preventDefault(); applySeed(); }} className="flex gap-2">
+          <input
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            aria-label="Simulation seed"
+            className="flex-1 min-w-0 bg-stone-950 border border-stone-800 rounded-xl px-4 py-2 text-[11px] font-mono text-stone-200 focus:outline-none focus:ring-2 focus:ring-fusion-bolt/30"
+          />
+          <Tooltip content="Random seed">
+            <button
+              type="button"
+              onClick={() => reseed(Math.floor(Math.random() * 0xFFFFFFFF))}
+              className="p-2.5 rounded-xl bg-stone-800 text-stone-400 hover:text-white transition-all"
+            >
+              <Dices size={14} />
+            </button>
+          </Tooltip>
+          <Tooltip content="Copy run link">
+            <button
+              type="button"
+              onClick={copyRunLink}
+              className="p-2.5 rounded-xl bg-stone-800 text-stone-400 hover:text-white transition-all"
+            >
+              <Link size={14} />
+            </button>
+          </Tooltip>
+        </form>
+      </fieldset>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Gauge, Plug, Unplug, ClipboardPaste, RotateCcw } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { usePrometheusFeed } from '../../hooks/usePrometheusFeed';
+import { PrometheusAdapter } from '../../services/prometheus';
+
+type SourceMode = 'paste' | 'endpoint';
+
+const DEFAULT_ENDPOINT = 'http://localhost:9100/metrics';
+
+const fieldClass = 'w-full bg-stone-950 border border-stone-800 rounded-xl px-4 py-3 text-[10px] font-mono text-stone-200 focus:outline-none focus:ring-2 focus:ring-fusion-bolt/30';
+
+const tabClass = (isActive: boolean) =>
+  `flex-1 py-2 rounded-lg text-[9px] font-bold uppercase tracking-widest transition-all ${
+    isActive ? 'bg-stone-700 text-white' : 'text-stone-500 hover:text-white'
+  }`;
+
+/**
+ * MetricsSourcePanel Component
+ *
+ * Drives district and hub load/health from Prometheus metrics, pasted or
+ * scraped from an endpoint, with an editable series mapping. Fields without a
+ * mapped series keep their synthetic values.
+ */
+export const MetricsSourcePanel: React.FC = () => {
+  const { state, timeline } = useCity();
+  const feed = usePrometheusFeed();
+  const [mode, setMode] = useState<SourceMode>('paste');
+  const [text, setText] = useState('');
+  const [url, setUrl] = useState(DEFAULT_ENDPOINT);
+  const [isEditingMapping, setIsEditingMapping] = useState(false);
+  const [mappingDraft, setMappingDraft] = useState('');
+  const [mappingError, setMappingError] = useState<string | null>(null);
+
+  const observed = state.observed;
+  const driven = observed ? [
+    ...Object.entries(observed.districts).map(([id, f]) => ({ id, fields: f ?? {} })),
+    ...Object.entries(observed.hubs).map(([id, f]) => ({ id, fields: f ?? {} }))
+  ] : [];
+
+  const openMappingEditor = () => {
+    setMappingDraft(JSON.stringify(feed.mappings, null, 2));
+    setMappingError(null);
+    setIsEditingMapping(true);
+  };
+
+  const applyMapping = () => {
+    try {
+      feed.setMappings(PrometheusAdapter.parseMappings(mappingDraft, state.topology.map(h => h.id)));
+      setIsEditingMapping(false);
+    } catch (e) {
+      setMappingError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+          <Gauge size={14} /> Real Metrics
+        </span>
+        <span className={`px-2 py-1 rounded text-[8px] font-bold uppercase ${observed ? 'bg-sky-500/10 text-sky-400' : 'bg-stone-800 text-stone-500'}`}>
+          {observed ? 'Prometheus' : 'Synthetic'}
+        </span>
+      </div>
+
+      <fieldset disabled={timeline.cursor !== null} className="space-y-3 disabled:opacity-40">
+        <div className="flex gap-1 p-1 rounded-xl bg-stone-950">
+          <button onClick={() => setMode('paste')} className={tabClass(mode === 'paste')}>Paste Scrape</button>
+          <button onClick={() => setMode('endpoint')} className={tabClass(mode === 'endpoint')}>HTTP Endpoint</button>
+        </div>
+
+        {mode === 'paste' ? (
+          <>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={'# TYPE up gauge\nup{district="DATA"} 1\nflashfusion_district_load_ratio{district="DATA"} 0.42'}
+              rows={5}
+              aria-label="Prometheus exposition text"
+              className={`${fieldClass} resize-y`}
+            />
+            <button
+              onClick={() => feed.ingest(text, 'pasted scrape')}
+              disabled={text.trim() === ''}
+              className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-sky-500/90 text-white text-[10px] font-bold uppercase tracking-widest hover:bg-sky-400 disabled:opacity-40 transition-all"
+            >
+              <ClipboardPaste size={12} /> Ingest Metrics
+            </button>
+          </>
+        ) : (
+          <>
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              disabled={feed.endpoint !== null}
+              aria-label="Metrics endpoint URL"
+              className={fieldClass}
+            />
+            {feed.endpoint === null ? (
+              <button
+                onClick={() => feed.connect(url.trim())}
+                disabled={url.trim() === ''}
+                className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-sky-500/90 text-white text-[10px] font-bold uppercase tracking-widest hover:bg-sky-400 disabled:opacity-40 transition-all"
+              >
+                <Plug size={12} /> Scrape Every 15s
+              </button>
+            ) : (
+              <button
+                onClick={feed.disconnect}
+                className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-stone-800 text-stone-300 text-[10px] font-bold uppercase tracking-widest hover:text-white transition-all"
+              >
+                <Unplug size={12} /> Disconnect
+              </button>
+            )}
+          </>
+        )}
+
+        {feed.status && (
+          <p className={`text-[9px] font-mono ${feed.status.error ? 'text-red-400' : 'text-stone-500'}`}>
+            {feed.status.error ?? `${feed.status.samples} series · ${feed.status.fields} fields driven`} · {feed.status.at.toLocaleTimeString()}
+          </p>
+        )}
+
+        {observed && (
+          <div className="pt-3 border-t border-stone-800 space-y-1.5">
+            {driven.map(({ id, fields }) => (
+              <div key={id} className="flex items-center gap-3 text-[10px] font-mono text-sky-300">
+                <span className="w-16 shrink-0 text-stone-400">{id}</span>
+                <span className="flex-1 truncate">
+                  {Object.entries(fields).map(([field, value]) => `${field} ${(value as number).toFixed(0)}%`).join(' · ')}
+                </span>
+              </div>
+            ))}
+            <button
+              onClick={feed.disconnect}
+              className="w-full mt-2 py-2 rounded-xl bg-stone-800 text-stone-400 hover:text-white text-[10px] font-bold uppercase tracking-widest transition-all"
+            >
+              Return to Synthetic
+            </button>
+          </div>
+        )}
+
+        {isEditingMapping ? (
+          <div className="space-y-2">
+            <textarea
+              value={mappingDraft}
+              onChange={(e) => setMappingDraft(e.target.value)}
+              rows={10}
+              aria-label="Metric mapping JSON"
+              className={`${fieldClass} resize-y`}
+            />
+            {mappingError && <p className="text-[9px] font-mono text-red-400">{mappingError}</p>}
+            <div className="flex gap-2">
+              <button onClick={applyMapping} className="flex-1 py-2 rounded-xl bg-stone-700 text-white text-[10px] font-bold uppercase tracking-widest hover:bg-stone-600 transition-all">
+                Apply
+              </button>
+              <button onClick={() => setIsEditingMapping(false)} className="flex-1 py-2 rounded-xl bg-stone-800 text-stone-400 text-[10px] font-bold uppercase tracking-widest hover:text-white transition-all">
+                Cancel
+              </button>
+              <button
+                onClick={() => { feed.resetMappings(); setIsEditingMapping(false); }}
+                aria-label="Restore default mapping"
+                className="px-3 py-2 rounded-xl bg-stone-800 text-stone-400 hover:text-white transition-all"
+              >
+                <RotateCcw size={12} />
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button onClick={openMappingEditor} className="text-[9px] font-bold text-stone-500 uppercase tracking-widest hover:text-white transition-colors">
+            Edit Mapping ({feed.mappings.length} series)
+          </button>
+        )}
+      </fieldset>
+    </div>
+  );
+};
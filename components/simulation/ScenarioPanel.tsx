@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+import { Clapperboard, Play, Square, FileJson, CheckCircle2 } from 'lucide-react';
+import { SCENARIOS } from '../../data/content';
+import { ScenarioRunner } from '../../services/simulation/scenarios';
+import { useCity } from '../../context/CityContext';
+import { useScenarioRunner } from '../../hooks/useScenarioRunner';
+import { Scenario } from '../../types';
+
+const EXAMPLE_SCENARIO = JSON.stringify({
+  name: "Custom Drill",
+  description: "Describe the incident being rehearsed.",
+  steps: [
+    { at: 30, action: "FAIL_DISTRICT", target: "DATA" },
+    { at: 45, action: "SWITCH_TRANSIT", target: "Zapier" },
+    { at: 90, action: "RESTORE_DISTRICT", target: "DATA" }
+  ]
+}, null, 2);
+
+/**
+ * ScenarioPanel Component
+ *
+ * Picker and timeline for scripted incident rehearsals. Built-in scenarios can be
+ * extended by pasting a JSON definition.
+ */
+export const ScenarioPanel: React.FC = () => {
+  const { state } = useCity();
+  const { playback, isFinished, play, stop } = useScenarioRunner();
+  const [scenarios, setScenarios] = useState<Scenario[]>(SCENARIOS);
+  const [selectedId, setSelectedId] = useState<string>(SCENARIOS[0].id);
+  const [isImporting, setIsImporting] = useState(false);
+  const [draft, setDraft] = useState(EXAMPLE_SCENARIO);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const selected = scenarios.find(s => s.id === selectedId) ?? scenarios[0];
+  const isPlayingSelected = playback?.scenario.id === selected.id;
+
+  // Scenarios scripted against districts since removed from the topology
+  const missing = useMemo(() => {
+    const ids = state.topology.map(h => h.id);
+    return new Map(scenarios.map(s => [s.id, ScenarioRunner.missingDistricts(s, ids)]));
+  }, [scenarios, state.topology]);
+  const selectedMissing = missing.get(selected.id) ?? [];
+
+  const importScenario = useCallback(() => {
+    try {
+      const scenario = ScenarioRunner.parse(draft, state.topology.map(h => h.id));
+      setScenarios(prev => [...prev.filter(s => s.id !== scenario.id), scenario]);
+      setSelectedId(scenario.id);
+      setImportError(null);
+      setIsImporting(false);
+    } catch (error) {
+      setImportError((error as Error).message);
+    }
+  }, [draft, state.topology]);
+
+  return (
+    <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+          <Clapperboard size={14} /> Incident Scenarios
+        </span>
+        <button
+          onClick={() => setIsImporting(!isImporting)}
+          aria-label="Import scenario JSON"
+          className={`p-2 rounded-lg transition-all ${isImporting ? 'bg-fusion-bolt text-white' : 'bg-stone-800 text-stone-400 hover:text-white'}`}
+        >
+          <FileJson size={14} />
+        </button>
+      </div>
+
+      {isImporting ? (
+        <div className="space-y-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={10}
+            spellCheck={false}
+            aria-label="Scenario JSON"
+            className="w-full bg-stone-950 border border-stone-800 rounded-xl p-4 text-[10px] font-mono text-stone-300 focus:outline-none focus:ring-2 focus:ring-fusion-bolt/30"
+          />
+          {importError && <p className="text-[10px] text-red-400 font-mono">{importError}</p>}
+          <button
+            onClick={importScenario}
+            className="w-full py-3 rounded-xl bg-fusion-bolt text-white text-[10px] font-bold uppercase tracking-widest"
+          >
+            Load Scenario
+          </button>
+        </div>
+      ) : (
+        <>
+          <select
+            value={selected.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+            aria-label="Scenario"
+            className="w-full mb-3 bg-stone-950 border border-stone-800 rounded-xl px-4 py-3 text-[11px] font-bold text-stone-200 focus:outline-none"
+          >
+            {scenarios.map(s => (
+              <option key={s.id} value={s.id}>{s.name}{missing.get(s.id)?.length ? ' (unavailable)' : ''}</option>
+            ))}
+          </select>
+          <p className="text-xs text-stone-500 font-light leading-relaxed mb-4">{selected.description}</p>
+          {selectedMissing.length > 0 && (
+            <p className="mb-4 text-[10px] font-mono text-orange-300">
+              Unavailable: {selectedMissing.join(', ')} {selectedMissing.length > 1 ? 'are' : 'is'} no longer in the topology.
+            </p>
+          )}
+
+          <ol className="space-y-1.5 mb-5">
+            {selected.steps.map((step, i) => {
+              const fired = isPlayingSelected && i < playback!.cursor;
+              const isStranded = (step.action === 'FAIL_DISTRICT' || step.action === 'RESTORE_DISTRICT') && selectedMissing.includes(step.target);
+              return (
+                <li key={i} className={`flex items-start gap-3 text-[10px] font-mono ${fired ? 'text-emerald-500' : isStranded ? 'text-stone-600 line-through' : 'text-stone-400'}`}>
+                  <span className="w-10 shrink-0 text-right">t={step.at}s</span>
+                  <span className="flex-1">
+                    {ScenarioRunner.describeStep(step)}
+                    {step.note && <span className="block text-stone-600 italic">{step.note}</span>}
+                  </span>
+                  {fired && <CheckCircle2 size={12} className="shrink-0" />}
+                </li>
+              );
+            })}
+          </ol>
+
+          {isPlayingSelected ? (
+            <button
+              onClick={stop}
+              className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-stone-800 text-stone-200 text-[10px] font-bold uppercase tracking-widest"
+            >
+              <Square size={12} />
+              {isFinished ? 'Completed · Dismiss' : `Stop · t=${playback!.elapsed}s / ${ScenarioRunner.duration(selected)}s`}
+            </button>
+          ) : (
+            <button
+              onClick={() => play(selected)}
+              disabled={selectedMissing.length > 0}
+              className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-fusion-bolt text-white text-[10px] font-bold uppercase tracking-widest shadow-lg shadow-fusion-bolt/20 disabled:opacity-40 disabled:shadow-none"
+            >
+              <Play size={12} /> Run Scenario
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState, useMemo, useCallback } from 'react';
+import { History, SkipBack, Play, Pause, Radio, GitBranch, Download, Upload } from 'lucide-react';
+import { Tooltip } from '../ui/Library';
+import { useCity } from '../../context/CityContext';
+import { TimelineRecorder } from '../../services/simulation/recorder';
+import { ActionSource } from '../../types';
+
+export const SOURCE_STYLES: Record<ActionSource, string> = {
+  user: 'bg-stone-700 text-stone-200',
+  ai: 'bg-emerald-500/20 text-emerald-400',
+  scenario: 'bg-fusion-metro/20 text-fusion-metro',
+  clock: 'bg-stone-800 text-stone-500',
+  telemetry: 'bg-sky-500/20 text-sky-400'
+};
+
+/**
+ * TimelineScrubber Component
+ *
+ * Time-travel controls over the event-sourced simulation log: scrub to any
+ * recorded moment, replay forward, branch from the past, and export/import
+ * recordings for post-mortem reviews.
+ */
+export const TimelineScrubber: React.FC = () => {
+  const { state, timeline, seek, setReplaying, resumeFromCursor, exportRecording, importRecording } = useCity();
+  const { events, cursor, isReplaying } = timeline;
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const position = cursor ?? events.length;
+  const isLive = cursor === null;
+
+  // Non-tick events are the interesting moments; ticks are just the passage of time
+  const milestones = useMemo(() => events.filter(e => e.action.type !== 'TICK'), [events]);
+  const current = position > 0 ? events[position - 1] : undefined;
+
+  const download = useCallback(() => {
+    const blob = new Blob([exportRecording()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `flashfusion-run-${state.clock.seed}-T${state.clock.elapsed}s.json`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  }, [exportRecording, state.clock.seed, state.clock.elapsed]);
+
+  const handleFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      importRecording(await file.text());
+      setImportError(null);
+    } catch (error) {
+      setImportError((error as Error).message);
+    }
+  }, [importRecording]);
+
+  return (
+    <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+          <History size={14} /> Event Timeline
+        </span>
+        <span className={`text-[9px] font-bold uppercase tracking-widest ${isLive ? 'text-emerald-500' : 'text-fusion-metro'}`}>
+          {isLive ? 'Live' : isReplaying ? 'Replaying' : 'Viewing History'}
+        </span>
+      </div>
+
+      <div className="relative mb-2">
+        <input
+          type="range"
+          min={0}
+          max={events.length}
+          value={position}
+          onChange={(e) => seek(Number(e.target.value))}
+          aria-label="Timeline position"
+          className="w-full accent-[#FF6B6B]"
+        />
+        <div className="relative h-2 mx-1 pointer-events-none">
+          {events.length > 0 && milestones.map(m => (
+            <span
+              key={m.seq}
+              className={`absolute top-0 w-0.5 h-2 ${m.source === 'ai' ? 'bg-emerald-400' : m.source === 'scenario' ? 'bg-fusion-metro' : 'bg-stone-400'}`}
+              style={{ left: `${((m.seq + 1) / events.length) * 100}%` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center mb-4 text-[10px] font-mono text-stone-400">
+        <span>#{position} / {events.length}</span>
+        <span className="truncate ml-4">
+          {current ? `T+${current.at}s · ${TimelineRecorder.label(current, events)}` : 'Run start'}
+        </span>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        <Tooltip content="Rewind to start">
+          <button onClick={() => seek(0)} className="p-2.5 rounded-xl bg-stone-800 text-stone-400 hover:text-white transition-all">
+            <SkipBack size={14} />
+          </button>
+        </Tooltip>
+        <button
+          onClick={() => setReplaying(!isReplaying)}
+          disabled={isLive}
+          className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl bg-stone-800 text-stone-300 hover:text-white disabled:opacity-30 text-[10px] font-bold uppercase transition-all"
+        >
+          {isReplaying ? <Pause size={12} /> : <Play size={12} />}
+          {isReplaying ? 'Pause Replay' : 'Replay'}
+        </button>
+        <Tooltip content="Continue live from here">
+          <button onClick={resumeFromCursor} disabled={isLive} className="p-2.5 rounded-xl bg-stone-800 text-stone-400 hover:text-white disabled:opacity-30 transition-all">
+            <GitBranch size={14} />
+          </button>
+        </Tooltip>
+        <Tooltip content="Return to live">
+          <button onClick={() => seek(null)} disabled={isLive} className="p-2.5 rounded-xl bg-stone-800 text-stone-400 hover:text-white disabled:opacity-30 transition-all">
+            <Radio size={14} />
+          </button>
+        </Tooltip>
+        <Tooltip content="Export recording">
+          <button onClick={download} className="p-2.5 rounded-xl bg-stone-800 text-stone-400 hover:text-white transition-all">
+            <Download size={14} />
+          </button>
+        </Tooltip>
+        <Tooltip content="Import recording">
+          <button onClick={() => fileRef.current?.click()} className="p-2.5 rounded-xl bg-stone-800 text-stone-400 hover:text-white transition-all">
+            <Upload size={14} />
+          </button>
+        </Tooltip>
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      </div>
+
+      {importError && <p className="mb-3 text-[10px] text-red-400 font-mono">{importError}</p>}
+
+      <ul className="space-y-1.5 max-h-40 overflow-y-auto scrollbar-hide">
+        {milestones.slice(-8).reverse().map(m => (
+          <li key={m.seq}>
+            <button
+              onClick={() => seek(m.seq + 1)}
+              className={`w-full flex items-center gap-3 px-3 py-1.5 rounded-lg text-left text-[10px] font-mono transition-all hover:bg-stone-800 ${
+                position === m.seq + 1 ? 'bg-stone-800 text-white' : 'text-stone-400'
+              }`}
+            >
+              <span className="w-12 shrink-0">T+{m.at}s</span>
+              <span className={`px-1.5 py-0.5 rounded text-[8px] font-bold uppercase ${SOURCE_STYLES[m.source]}`}>{m.source}</span>
+              <span className="truncate">{TimelineRecorder.label(m, events)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
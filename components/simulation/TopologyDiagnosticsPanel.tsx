@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Stethoscope, XCircle, AlertTriangle, Info, LucideIcon } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { TRANSIT_HUBS } from '../../data/content';
+import { TopologyModel } from '../../services/simulation/topology';
+import { TopologyDiagnostic } from '../../types';
+
+const SEVERITY_STYLES: Record<TopologyDiagnostic['severity'], { icon: LucideIcon; className: string }> = {
+  error: { icon: XCircle, className: 'text-red-400' },
+  warning: { icon: AlertTriangle, className: 'text-orange-300' },
+  info: { icon: Info, className: 'text-stone-500' }
+};
+
+/**
+ * Diagnostics as a compact list, one line per finding.
+ */
+export const DiagnosticList: React.FC<{ diagnostics: readonly TopologyDiagnostic[] }> = ({ diagnostics }) => (
+  <ul className="space-y-1">
+    {diagnostics.map((diagnostic, i) => {
+      const { icon: Icon, className } = SEVERITY_STYLES[diagnostic.severity];
+      return (
+        <li key={i} className={`flex items-start gap-2 text-[9px] font-mono ${className}`}>
+          <Icon size={10} className="shrink-0 mt-0.5" aria-label={diagnostic.severity} />
+          <span>{diagnostic.message}</span>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+/**
+ * TopologyDiagnosticsPanel Component
+ *
+ * Consistency report on the live topology: roads declared on one side only,
+ * districts without roads, unknown or duplicate districts, repeated
+ * sub-platforms and flows left idle by districts or platforms that are gone.
+ */
+export const TopologyDiagnosticsPanel: React.FC = () => {
+  const { state } = useCity();
+  const [showInfo, setShowInfo] = useState(false);
+  const diagnostics = useMemo(() => TopologyModel.diagnose(state.topology, state.flows, TRANSIT_HUBS), [state.topology, state.flows]);
+
+  const count = (severity: TopologyDiagnostic['severity']) => diagnostics.filter(d => d.severity === severity).length;
+  const shown = showInfo ? diagnostics : diagnostics.filter(d => d.severity !== 'info');
+
+  return (
+    <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+          <Stethoscope size={14} /> Topology Diagnostics
+        </span>
+        <span className="text-[9px] font-mono text-stone-500">
+          <span className={count('error') > 0 ? 'text-red-400' : ''}>{count('error')} errors</span>
+          {' · '}
+          <span className={count('warning') > 0 ? 'text-orange-300' : ''}>{count('warning')} warnings</span>
+          {' · '}
+          {count('info')} notes
+        </span>
+      </div>
+
+      {shown.length > 0
+        ? <DiagnosticList diagnostics={shown} />
+        : <p className="text-[9px] font-mono text-emerald-400">Topology is consistent.</p>}
+
+      {count('info') > 0 && (
+        <button
+          onClick={() => setShowInfo(!showInfo)}
+          aria-pressed={showInfo}
+          className="mt-3 text-[9px] font-bold text-stone-500 uppercase tracking-widest hover:text-white transition-colors"
+        >
+          {showInfo ? 'Hide' : 'Show'} notes
+        </button>
+      )}
+    </div>
+  );
+};
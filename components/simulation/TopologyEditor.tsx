@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Network, Plus, Trash2, X } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { DISTRICT_COLOR_CLASSES, DISTRICT_ICONS, TRANSIT_HUBS } from '../../data/content';
+import { TopologyModel, MAX_DISTRICTS } from '../../services/simulation/topology';
+import { HubId, HubNode } from '../../types';
+import { DiagnosticList } from './TopologyDiagnosticsPanel';
+
+const fieldClass = 'w-full bg-stone-950 border border-stone-800 rounded-xl px-3 py-2 text-[10px] font-mono text-stone-200 focus:outline-none focus:ring-2 focus:ring-fusion-bolt/30';
+
+const labelClass = 'block text-[9px] font-bold text-stone-500 uppercase tracking-widest mb-1';
+
+const ICON_KEYS = Object.keys(DISTRICT_ICONS);
+
+/**
+ * TopologyEditor Component
+ *
+ * Edits the city's districts on a draft: add or remove districts, relabel
+ * them, toggle the roads between them and manage their sub-platforms. Edits
+ * that would break a declared flow are listed and cannot be applied; applying
+ * records one undoable topology change.
+ */
+export const TopologyEditor: React.FC = () => {
+  const { state, timeline, setTopology } = useCity();
+  const [draft, setDraft] = useState<readonly HubNode[]>(state.topology);
+  const [selectedId, setSelectedId] = useState<HubId>(state.topology[0]?.id ?? '');
+  const [newId, setNewId] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [platformName, setPlatformName] = useState('');
+  const [platformRole, setPlatformRole] = useState('');
+
+  // Undo, replay and scenario resets replace the topology underneath the draft
+  useEffect(() => setDraft(state.topology), [state.topology]);
+
+  const selected = draft.find(h => h.id === selectedId) ?? draft[0];
+  const issues = useMemo(() => TopologyModel.validate(draft), [draft]);
+  const diagnostics = useMemo(() => TopologyModel.diagnose(draft, state.flows, TRANSIT_HUBS), [draft, state.flows]);
+  const change = TopologyModel.diff(state.topology, draft);
+  const isDirty = draft !== state.topology && change !== 'No change';
+  const idError = newId ? TopologyModel.checkId(draft, newId) : null;
+
+  const addDistrict = () => {
+    if (TopologyModel.checkId(draft, newId)) return;
+    setDraft(TopologyModel.add(draft, {
+      id: newId,
+      label: newLabel.trim() || `${newId.charAt(0)}${newId.slice(1).toLowerCase()} District`,
+      icon: ICON_KEYS[draft.length % ICON_KEYS.length],
+      color: DISTRICT_COLOR_CLASSES[draft.length % DISTRICT_COLOR_CLASSES.length],
+      desc: '',
+      connections: [],
+      subPlatforms: []
+    }));
+    setSelectedId(newId);
+    setNewId('');
+    setNewLabel('');
+  };
+
+  const updateSelected = (patch: Partial<HubNode>) => {
+    if (selected) setDraft(TopologyModel.update(draft, { ...selected, ...patch }));
+  };
+
+  const addPlatform = () => {
+    if (!selected || !platformName.trim()) return;
+    setDraft(TopologyModel.setPlatforms(draft, selected.id, [...selected.subPlatforms, { name: platformName.trim(), role: platformRole.trim() }]));
+    setPlatformName('');
+    setPlatformRole('');
+  };
+
+  const apply = () => {
+    if (issues.length === 0 && isDirty) setTopology(draft, change);
+  };
+
+  return (
+    <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+          <Network size={14} /> Topology
+        </span>
+        <span className="text-[9px] font-mono text-stone-500">{draft.length} / {MAX_DISTRICTS} districts</span>
+      </div>
+
+      <fieldset disabled={timeline.cursor !== null} className="space-y-4 disabled:opacity-40">
+        <div className="flex flex-wrap gap-1">
+          {draft.map(hub => (
+            <button
+              key={hub.id}
+              onClick={() => setSelectedId(hub.id)}
+              aria-pressed={hub.id === selected?.id}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-[9px] font-bold uppercase tracking-widest transition-all ${
+                hub.id === selected?.id ? 'bg-stone-700 text-white' : 'bg-stone-950 text-stone-500 hover:text-white'
+              }`}
+            >
+              <span className={`w-1.5 h-1.5 rounded-full ${hub.color}`} />
+              {hub.id}
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="p-4 rounded-2xl bg-stone-950/50 border border-stone-800/50 space-y-3">
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className={labelClass} htmlFor="topology-label">Label</label>
+                <input
+                  id="topology-label"
+                  value={selected.label}
+                  onChange={(e) => updateSelected({ label: e.target.value })}
+                  className={fieldClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass} htmlFor="topology-icon">Icon</label>
+                <select
+                  id="topology-icon"
+                  value={selected.icon}
+                  onChange={(e) => updateSelected({ icon: e.target.value })}
+                  className={fieldClass}
+                >
+                  {ICON_KEYS.map(key => <option key={key} value={key}>{key}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <span className={labelClass}>Colour</span>
+              <div className="flex flex-wrap gap-1.5">
+                {DISTRICT_COLOR_CLASSES.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => updateSelected({ color })}
+                    aria-label={color}
+                    aria-pressed={selected.color === color}
+                    className={`w-5 h-5 rounded-md ${color} ${selected.color === color ? 'ring-2 ring-white' : 'opacity-60 hover:opacity-100'}`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <span className={labelClass}>Roads</span>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {draft.filter(h => h.id !== selected.id).map(hub => (
+                  <label key={hub.id} className="flex items-center gap-1.5 text-[10px] font-mono text-stone-400">
+                    <input
+                      type="checkbox"
+                      checked={TopologyModel.isConnected(draft, selected.id, hub.id)}
+                      onChange={(e) => setDraft(TopologyModel.connect(draft, selected.id, hub.id, e.target.checked))}
+                    />
+                    {hub.id}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <span className={labelClass}>Sub-Platforms</span>
+              <ul className="space-y-1 mb-2">
+                {selected.subPlatforms.map(platform => (
+                  <li key={platform.name} className="flex items-center gap-2 text-[10px] font-mono text-stone-300">
+                    <span className="flex-1 truncate">{platform.name} <span className="text-stone-500">{platform.role}</span></span>
+                    <button
+                      onClick={() => setDraft(TopologyModel.setPlatforms(draft, selected.id, selected.subPlatforms.filter(p => p !== platform)))}
+                      aria-label={`Remove ${platform.name}`}
+                      className="text-stone-500 hover:text-red-400 transition-colors"
+                    >
+                      <X size={12} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex gap-2">
+                <input value={platformName} onChange={(e) => setPlatformName(e.target.value)} placeholder="Platform" aria-label="Platform name" className={fieldClass} />
+                <input value={platformRole} onChange={(e) => setPlatformRole(e.target.value)} placeholder="Role" aria-label="Platform role" className={fieldClass} />
+                <button
+                  onClick={addPlatform}
+                  disabled={!platformName.trim() || selected.subPlatforms.some(p => p.name === platformName.trim())}
+                  aria-label="Add platform"
+                  className="px-3 rounded-xl bg-stone-800 text-stone-300 hover:text-white disabled:opacity-40 transition-all"
+                >
+                  <Plus size={12} />
+                </button>
+              </div>
+            </div>
+
+            <button
+              onClick={() => setDraft(TopologyModel.remove(draft, selected.id))}
+              className="flex items-center gap-2 text-[9px] font-bold text-stone-500 uppercase tracking-widest hover:text-red-400 transition-colors"
+            >
+              <Trash2 size={12} /> Remove {selected.id}
+            </button>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            value={newId}
+            onChange={(e) => setNewId(e.target.value.toUpperCase())}
+            placeholder="ID"
+            aria-label="New district ID"
+            className={`${fieldClass} w-24 shrink-0`}
+          />
+          <input value={newLabel} onChange={(e) => setNewLabel(e.target.value)} placeholder="Label" aria-label="New district label" className={fieldClass} />
+          <button
+            onClick={addDistrict}
+            disabled={!newId || idError !== null}
+            className="flex items-center gap-1 px-3 rounded-xl bg-stone-800 text-stone-300 text-[9px] font-bold uppercase tracking-widest hover:text-white disabled:opacity-40 transition-all"
+          >
+            <Plus size={12} /> Add
+          </button>
+        </div>
+        {idError && <p className="text-[9px] font-mono text-red-400">{idError}</p>}
+
+        {issues.length > 0 && (
+          <ul className="space-y-1">
+            {issues.map((issue, i) => (
+              <li key={i} className="text-[9px] font-mono text-red-400">{issue}</li>
+            ))}
+          </ul>
+        )}
+
+        {diagnostics.length > 0 && <DiagnosticList diagnostics={diagnostics} />}
+
+        <div className="flex gap-2">
+          <button
+            onClick={apply}
+            disabled={!isDirty || issues.length > 0}
+            className="flex-1 py-2 rounded-xl bg-stone-700 text-white text-[10px] font-bold uppercase tracking-widest hover:bg-stone-600 disabled:opacity-40 transition-all"
+          >
+            Apply{isDirty ? `: ${change}` : ''}
+          </button>
+          <button
+            onClick={() => setDraft(state.topology)}
+            disabled={!isDirty}
+            className="flex-1 py-2 rounded-xl bg-stone-800 text-stone-400 text-[10px] font-bold uppercase tracking-widest hover:text-white disabled:opacity-40 transition-all"
+          >
+            Discard
+          </button>
+        </div>
+      </fieldset>
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { FileInput, Upload } from 'lucide-react';
+import { useCity } from '../../context/CityContext';
+import { TRANSIT_HUBS } from '../../data/content';
+import { FlowCatalog } from '../../services/flows';
+import { TopologyImporter, TOPOLOGY_FORMAT_LABELS } from '../../services/topologyImport';
+import { TopologyModel, GPU_DISTRICT } from '../../services/simulation/topology';
+import { DiagnosticList } from './TopologyDiagnosticsPanel';
+import { TopologyFormat, TopologyImport } from '../../types';
+
+type ImportMode = 'replace' | 'merge';
+
+const FORMATS: readonly (TopologyFormat | 'auto')[] = ['auto', 'mermaid', 'dot', 'backstage'];
+
+const PLACEHOLDER = 'flowchart LR\n  subgraph PAYMENTS [Payments]\n    api[Payments API] --> db[(Ledger)]\n  end\n  api --> DATA';
+
+const fieldClass = 'w-full bg-stone-950 border border-stone-800 rounded-xl px-4 py-3 text-[10px] font-mono text-stone-200 focus:outline-none focus:ring-2 focus:ring-fusion-bolt/30';
+
+const tabClass = (isActive: boolean) =>
+  `flex-1 py-2 rounded-lg text-[9px] font-bold uppercase tracking-widest transition-all ${
+    isActive ? 'bg-stone-700 text-white' : 'text-stone-500 hover:text-white'
+  }`;
+
+/**
+ * TopologyImportPanel Component
+ *
+ * Imports districts, roads and sub-platforms from a Mermaid flowchart, a
+ * Graphviz DOT graph or a Backstage catalog, pasted or loaded from a file,
+ * along with the flows a catalog's APIs declare. The result is previewed as a
+ * diff against the current topology, replacing it or merged into it, before
+ * being applied as one undoable change. Flows it cannot carry are listed and
+ * sit idle.
+ */
+export const TopologyImportPanel: React.FC = () => {
+  const { state, timeline, setTopology } = useCity();
+  const [format, setFormat] = useState<TopologyFormat | 'auto'>('auto');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<TopologyImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const candidate = useMemo(() => preview && (mode === 'replace'
+    ? TopologyModel.replace(state.topology, preview.topology)
+    : TopologyModel.merge(state.topology, preview.topology)), [preview, mode, state.topology]);
+  // Imported flows replace the declared ones, or join them when merging; without any the declared ones stay
+  const flows = useMemo(() => !preview || preview.flows.length === 0 ? state.flows
+    : mode === 'replace' ? preview.flows : FlowCatalog.merge(state.flows, preview.flows), [preview, mode, state.flows]);
+  const issues = useMemo(() => candidate ? TopologyModel.validate(candidate) : [], [candidate]);
+  const idle = useMemo(() => candidate
+    ? TopologyModel.diagnose(candidate, flows, TRANSIT_HUBS).filter(d => d.kind === 'idle-flow')
+    : [], [candidate, flows]);
+  const keepsGpu = mode === 'replace' && !!preview && !preview.topology.some(h => h.id === GPU_DISTRICT);
+  const topologyChange = candidate ? TopologyModel.diff(state.topology, candidate) : 'No change';
+  const flowChange = preview && preview.flows.length > 0 ? `${preview.flows.length} flow${preview.flows.length > 1 ? 's' : ''}` : null;
+  const change = [topologyChange, flowChange].filter(c => c && c !== 'No change').join(', ') || 'No change';
+
+  const read = (source: string) => {
+    try {
+      setPreview(TopologyImporter.read(source, format, state.topology));
+      setError(null);
+    } catch (e) {
+      setPreview(null);
+      setError((e as Error).message);
+    }
+  };
+
+  const loadFile = async (file: File) => {
+    const source = await file.text();
+    setText(source);
+    read(source);
+  };
+
+  const apply = () => {
+    if (!preview || !candidate || issues.length > 0) return;
+    setTopology(candidate, `Import ${TOPOLOGY_FORMAT_LABELS[preview.format]}: ${change}`, preview.flows.length > 0 ? flows : undefined);
+    setPreview(null);
+  };
+
+  const statusOf = (id: string) => {
+    const before = state.topology.find(h => h.id === id);
+    if (!before) return 'new';
+    return TopologyModel.diff([before], candidate!.filter(h => h.id === id)) === 'No change' ? 'same' : 'edited';
+  };
+  const removed = candidate ? state.topology.filter(h => !candidate.some(c => c.id === h.id)) : [];
+
+  return (
+    <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+          <FileInput size={14} /> Import Architecture
+        </span>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={timeline.cursor !== null}
+          aria-label="Load description from file"
+          className="flex items-center gap-1 text-[9px] font-bold text-stone-500 uppercase tracking-widest hover:text-white disabled:opacity-40 transition-colors"
+        >
+          <Upload size={12} /> File
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".mmd,.mermaid,.md,.dot,.gv,.yaml,.yml,.txt"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <fieldset disabled={timeline.cursor !== null} className="space-y-3 disabled:opacity-40">
+        <div className="flex gap-1 p-1 rounded-xl bg-stone-950">
+          {FORMATS.map(f => (
+            <button key={f} onClick={() => { setFormat(f); setPreview(null); }} className={tabClass(format === f)}>
+              {f === 'auto' ? 'Auto' : f === 'backstage' ? 'Backstage' : TOPOLOGY_FORMAT_LABELS[f]}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => { setText(e.target.value); setPreview(null); }}
+          placeholder={PLACEHOLDER}
+          rows={6}
+          aria-label="Architecture description"
+          className={`${fieldClass} resize-y`}
+        />
+        <button
+          onClick={() => read(text)}
+          disabled={text.trim() === ''}
+          className="w-full py-3 rounded-xl bg-stone-700 text-white text-[10px] font-bold uppercase tracking-widest hover:bg-stone-600 disabled:opacity-40 transition-all"
+        >
+          Preview
+        </button>
+        {error && <p className="text-[9px] font-mono text-red-400">{error}</p>}
+
+        {preview && candidate && (
+          <div className="pt-3 border-t border-stone-800 space-y-3">
+            <div className="flex gap-1 p-1 rounded-xl bg-stone-950">
+              <button onClick={() => setMode('merge')} className={tabClass(mode === 'merge')}>Merge</button>
+              <button onClick={() => setMode('replace')} className={tabClass(mode === 'replace')}>Replace</button>
+            </div>
+
+            <p className="text-[9px] font-mono text-stone-500">
+              {TOPOLOGY_FORMAT_LABELS[preview.format]} · {preview.topology.length} districts read · {change}
+            </p>
+
+            <ul className="space-y-1">
+              {candidate.map(hub => {
+                const status = statusOf(hub.id);
+                return (
+                  <li key={hub.id} className="flex items-center gap-3 text-[10px] font-mono">
+                    <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${hub.color}`} />
+                    <span className="w-20 shrink-0 text-stone-300">{hub.id}</span>
+                    <span className="flex-1 truncate text-stone-500">
+                      {hub.subPlatforms.map(p => p.name).join(', ') || 'no platforms'}
+                      {hub.connections.length > 0 ? ` → ${hub.connections.join(', ')}` : ''}
+                    </span>
+                    <span className={`text-[8px] font-bold uppercase ${
+                      status === 'new' ? 'text-emerald-400' : status === 'edited' ? 'text-fusion-bolt' : 'text-stone-600'
+                    }`}>
+                      {status}
+                    </span>
+                  </li>
+                );
+              })}
+              {removed.map(hub => (
+                <li key={hub.id} className="flex items-center gap-3 text-[10px] font-mono text-stone-600 line-through">
+                  <span className="w-1.5 h-1.5 rounded-full shrink-0 bg-stone-700" />
+                  <span className="w-20 shrink-0">{hub.id}</span>
+                  <span className="flex-1 truncate">{hub.label}</span>
+                  <span className="text-[8px] font-bold uppercase text-red-400 no-underline">removed</span>
+                </li>
+              ))}
+            </ul>
+
+            {keepsGpu && (
+              <p className="text-[9px] font-mono text-stone-500">
+                {GPU_DISTRICT} hosts the GPU cluster and is kept.
+              </p>
+            )}
+
+            {preview.warnings.length > 0 && (
+              <ul className="space-y-1">
+                {preview.warnings.map((warning, i) => (
+                  <li key={i} className="text-[9px] font-mono text-orange-300">{warning}</li>
+                ))}
+              </ul>
+            )}
+
+            {issues.length > 0 && (
+              <ul className="space-y-1">
+                {issues.map((issue, i) => (
+                  <li key={i} className="text-[9px] font-mono text-red-400">{issue}</li>
+                ))}
+              </ul>
+            )}
+
+            {idle.length > 0 && <DiagnosticList diagnostics={idle} />}
+
+            <div className="flex gap-2">
+              <button
+                onClick={apply}
+                disabled={issues.length > 0 || change === 'No change'}
+                className="flex-1 py-2 rounded-xl bg-fusion-bolt text-white text-[10px] font-bold uppercase tracking-widest hover:opacity-90 disabled:opacity-40 transition-all"
+              >
+                {mode === 'merge' ? 'Merge' : 'Replace'} Topology
+              </button>
+              <button
+                onClick={() => setPreview(null)}
+                className="flex-1 py-2 rounded-xl bg-stone-800 text-stone-400 text-[10px] font-bold uppercase tracking-widest hover:text-white transition-all"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { TRANSIT_HUBS } from '../../data/content';
+import { TransitHubId } from '../../types';
+
+/**
+ * TransitHubCard Component
+ *
+ * Operating profile of a transit hub: capacity, latency, cost and the flow
+ * types it accepts.
+ */
+export const TransitHubCard: React.FC<{ hub: TransitHubId }> = ({ hub }) => {
+  const profile = TRANSIT_HUBS[hub];
+  const stats = [
+    { label: 'Capacity', value: `${profile.capacity} pkt/s` },
+    { label: hub === 'Manual' ? 'Per Hop' : 'Latency', value: `${profile.latency.base}±${profile.latency.jitter}ms` },
+    { label: 'Cost', value: `$${profile.costPer1k.toFixed(2)}/1k` }
+  ];
+
+  return (
+    <div className="mt-4 pt-4 border-t border-stone-800">
+      <div className="flex justify-between items-baseline mb-3">
+        <span className="text-[11px] font-bold text-stone-200">{profile.label}</span>
+        <span className="text-[9px] font-mono text-stone-500 uppercase">{profile.role}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-stone-950/50 rounded-lg px-2 py-1.5">
+            <div className="text-[8px] font-bold text-stone-500 uppercase tracking-widest">{stat.label}</div>
+            <div className="text-[10px] font-mono text-fusion-metro">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {profile.carries.map(type => (
+          <span key={type} className="px-2 py-0.5 rounded bg-stone-800 text-[8px] font-bold uppercase text-stone-400">{type}</span>
+        ))}
+        {profile.dedicated && (
+          <span className="px-2 py-0.5 rounded bg-emerald-500/10 text-[8px] font-bold uppercase text-emerald-500">Always on</span>
+        )}
+      </div>
+    </div>
+  );
+};
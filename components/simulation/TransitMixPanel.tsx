@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Power, Split } from 'lucide-react';
+import { Tooltip } from '../ui/Library';
+import { useCity } from '../../context/CityContext';
+import { TRANSIT_HUB_IDS } from '../../data/content';
+import { TransitEngine } from '../../services/simulation/transit';
+import { TransitHubId, TransitWeights } from '../../types';
+import { TransitHubCard } from './TransitHubCard';
+
+const toPercent = (weights: TransitWeights): Record<TransitHubId, number> => {
+  const shares = TransitEngine.mix(weights);
+  return Object.fromEntries(TRANSIT_HUB_IDS.map(id => [id, Math.round((shares.find(s => s.hub === id)?.share ?? 0) * 100)])) as Record<TransitHubId, number>;
+};
+
+/**
+ * TransitMixPanel Component
+ *
+ * Weighted traffic split across transit hubs, with per-hub health, outage
+ * toggles and the health threshold at which automatic failover drains a hub.
+ */
+export const TransitMixPanel: React.FC = () => {
+  const { state, timeline, setTransitHub, setTransitWeights, toggleTransitHub, setFailoverThreshold } = useCity();
+  const { transit } = state;
+  const [focused, setFocused] = useState<TransitHubId>(TransitEngine.mix(transit.weights)[0]?.hub ?? 'n8n');
+
+  // Sliders edit a local draft; the split is only recorded once a drag ends
+  const [draft, setDraft] = useState(() => toPercent(transit.weights));
+  const [threshold, setThreshold] = useState(transit.failoverThreshold);
+  useEffect(() => setDraft(toPercent(transit.weights)), [transit.weights]);
+  useEffect(() => setThreshold(transit.failoverThreshold), [transit.failoverThreshold]);
+
+  const commitDraft = () => {
+    if (Object.values(draft).some(w => w > 0)) setTransitWeights(draft);
+    else setDraft(toPercent(transit.weights));
+  };
+
+  return (
+    <div className="p-6 rounded-3xl bg-stone-900 border border-stone-800">
+      <div className="flex justify-between items-center mb-4">
+        <span className="flex items-center gap-2 text-[10px] font-bold text-stone-500 uppercase tracking-widest">
+          <Split size={14} /> Transit Mix
+        </span>
+        <span className="text-[9px] font-mono text-fusion-metro truncate ml-4">{TransitEngine.describe(transit.weights)}</span>
+      </div>
+
+      <fieldset disabled={timeline.cursor !== null} className="space-y-3 disabled:opacity-40">
+        {TRANSIT_HUB_IDS.map(id => {
+          const hub = transit.hubs[id];
+          const inMix = (transit.weights[id] ?? 0) > 0;
+          return (
+            <div key={id} className="flex items-center gap-3">
+              <button
+                onClick={() => setFocused(id)}
+                onDoubleClick={() => setTransitHub(id)}
+                title="Double-click to route all traffic here"
+                className={`w-16 shrink-0 text-left text-[10px] font-bold uppercase transition-colors ${
+                  focused === id ? 'text-white' : inMix ? 'text-stone-300' : 'text-stone-500'
+                }`}
+              >
+                {id}
+              </button>
+              <div className="flex-1 min-w-0">
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={draft[id]}
+                  onChange={(e) => setDraft({ ...draft, [id]: Number(e.target.value) })}
+                  onPointerUp={commitDraft}
+                  onKeyUp={commitDraft}
+                  aria-label={`${id} traffic weight`}
+                  className="w-full accent-[#FF6B6B]"
+                />
+                <div className="h-1 bg-stone-800 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full transition-all duration-700 ${hub.health < transit.failoverThreshold ? 'bg-red-500' : hub.health < 90 ? 'bg-orange-400' : 'bg-emerald-500'}`}
+                    style={{ width: `${hub.health}%` }}
+                  />
+                </div>
+              </div>
+              <span className="w-16 shrink-0 text-right text-[9px] font-mono">
+                {hub.isDrained
+                  ? <span className="text-red-400 font-bold uppercase">{hub.isOnline ? 'Drained' : 'Offline'}</span>
+                  : <span className="text-stone-400">{draft[id]}%</span>}
+              </span>
+              <Tooltip content={hub.isOnline ? `Take ${id} offline` : `Restore ${id}`}>
+                <button
+                  onClick={() => toggleTransitHub(id)}
+                  disabled={id === 'Manual'}
+                  className={`p-1.5 rounded-lg transition-all disabled:invisible ${hub.isOnline ? 'bg-stone-800 text-emerald-500' : 'bg-red-500/20 text-red-400'}`}
+                >
+                  <Power size={12} />
+                </button>
+              </Tooltip>
+            </div>
+          );
+        })}
+
+        <div className="pt-3 border-t border-stone-800">
+          <div className="flex justify-between text-[9px] font-bold text-stone-500 uppercase tracking-widest mb-1">
+            <span>Failover Below Health</span>
+            <span className="font-mono text-stone-300">{threshold}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={95}
+            step={5}
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            onPointerUp={() => setFailoverThreshold(threshold)}
+            onKeyUp={() => setFailoverThreshold(threshold)}
+            aria-label="Failover health threshold"
+            className="w-full accent-[#FF6B6B]"
+          />
+        </div>
+      </fieldset>
+
+      <TransitHubCard hub={focused} />
+    </div>
+  );
+};
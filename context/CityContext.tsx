@@ -1,151 +1,248 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { createContext, useContext, useState, useCallback, useMemo, useEffect } from 'react';
-import { CityState, CityContextType, HubId, DistrictStatus } from '../types';
-
-const INITIAL_DISTRICTS: HubId[] = ['DEV', 'DATA', 'AI', 'OPS', 'GROWTH', 'COMMERCE', 'COLLAB'];
+import React, { createContext, useContext, useReducer, useState, useCallback, useMemo, useEffect } from 'react';
+import { CityContextType, DataFlowPacket, HubId, HubNode, TransitHubId, TransitWeights, ActionSource, CityAction, ChaosFault, ObservedTelemetry } from '../types';
+import { TRANSIT_HUBS } from '../data/content';
+import { FlowCatalog } from '../services/flows';
+import { RoutingEngine } from '../services/simulation/routing';
+import { SimulationEngine, TICK_SECONDS } from '../services/simulation/engine';
+import { SeededRandom } from '../services/simulation/prng';
+import { TimelineRecorder } from '../services/simulation/recorder';
+import { ContentService } from '../services/contentService';
 
 const CityContext = createContext<CityContextType | undefined>(undefined);
 
 /**
  * CityProvider
  * Manages the global architectural state and simulation overrides.
- * Includes a simulated "live feed" to demonstrate NOC dashboard capabilities.
+ * A single seeded clock drives the "live feed" behind the NOC dashboard, and every
+ * transition is appended to an event-sourced timeline that can be rewound,
+ * replayed and exported for post-mortem review.
  */
 export const CityProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [state, setState] = useState<CityState>(() => ({
-    districts: INITIAL_DISTRICTS.reduce((acc, id) => ({
-      ...acc,
-      [id]: { 
-        id, 
-        isActive: true, 
-        load: 10 + Math.random() * 15, 
-        health: 100,
-        ...(id === 'AI' ? {
-          gpuAcceleration: { isBoosted: false, tflops: 120, vramUsed: 38 }
-        } : {})
-      }
-    }), {} as Record<HubId, DistrictStatus>),
-    transitHub: 'n8n',
-    simulationActive: false
-  }));
+  const [session, dispatchTimeline] = useReducer(
+    TimelineRecorder.reduce,
+    undefined,
+    () => TimelineRecorder.start(SimulationEngine.createInitialState(SeededRandom.initialSeed(), undefined, ContentService.getAllHubs(), ContentService.getDataFlows()))
+  );
+  const [isReplaying, setIsReplaying] = useState(false);
+  // View state rather than simulation state: not recorded on the timeline
+  const [tracedFlowId, setTracedFlowId] = useState<string | null>(null);
+  const state = session.view;
+  const isLive = session.cursor === null;
+
+  const record = useCallback((action: CityAction, source: ActionSource) => {
+    dispatchTimeline({ type: 'RECORD', source, action });
+  }, []);
 
   /**
-   * Hardware Simulation Loop
-   * Updates real-time metrics (load, tflops) to create a dynamic, living UI.
+   * Simulation Clock
+   * The only timer in the simulation. Speed shortens the wall-clock interval while
+   * each tick still advances TICK_SECONDS of simulated time. Suspended while
+   * viewing the past so history is not overwritten.
    */
   useEffect(() => {
-    const interval = setInterval(() => {
-      setState(prev => {
-        const aiDist = prev.districts.AI;
-        if (!aiDist.isActive) return prev;
-
-        const isBoosted = aiDist.gpuAcceleration?.isBoosted ?? false;
-        
-        return {
-          ...prev,
-          districts: {
-            ...prev.districts,
-            AI: {
-              ...aiDist,
-              gpuAcceleration: aiDist.gpuAcceleration ? {
-                ...aiDist.gpuAcceleration,
-                tflops: isBoosted 
-                  ? 820 + Math.random() * 80 
-                  : 120 + Math.random() * 10,
-                vramUsed: isBoosted 
-                  ? 76 + Math.random() * 4 
-                  : 38 + Math.random() * 5
-              } : undefined
-            }
-          }
-        };
-      });
-    }, 2000); // Slower frequency for better performance in heavy SVG scenes
+    if (state.clock.paused || !isLive) return;
+    const interval = setInterval(() => record({ type: 'TICK' }, 'clock'), (TICK_SECONDS * 1000) / state.clock.speed);
     return () => clearInterval(interval);
-  }, []);
+  }, [state.clock.paused, state.clock.speed, isLive, record]);
 
   /**
-   * Toggles district connectivity, triggering failover logic in the transit hub.
+   * Replay: steps the cursor through recorded ticks at the current clock speed
+   * until it catches up with the present.
    */
-  const toggleDistrict = useCallback((id: HubId) => {
-    setState(prev => {
-      const current = prev.districts[id];
-      const newStatus = !current.isActive;
-      return {
-        ...prev,
-        districts: {
-          ...prev.districts,
-          [id]: { 
-            ...current, 
-            isActive: newStatus,
-            health: newStatus ? 100 : 0,
-            load: newStatus ? 15 : 0
-          }
-        },
-        simulationActive: true
-      };
-    });
-  }, []);
+  useEffect(() => {
+    if (!isReplaying) return;
+    if (isLive) {
+      setIsReplaying(false);
+      return;
+    }
+    const interval = setInterval(() => dispatchTimeline({ type: 'ADVANCE' }), (TICK_SECONDS * 1000) / state.clock.speed);
+    return () => clearInterval(interval);
+  }, [isReplaying, isLive, state.clock.speed]);
+
+  /**
+   * Toggles district connectivity. Flow routes are recomputed from the new state.
+   */
+  const toggleDistrict = useCallback((id: HubId, source: ActionSource = 'user') => {
+    record({ type: 'TOGGLE_DISTRICT', id }, source);
+  }, [record]);
 
   /**
    * Activates H100 Tensor Overclock for AI inference.
    */
-  const toggleGPUBooost = useCallback(() => {
-    setState(prev => {
-      const aiDist = prev.districts.AI;
-      if (!aiDist.gpuAcceleration) return prev;
-
-      return {
-        ...prev,
-        districts: {
-          ...prev.districts,
-          AI: {
-            ...aiDist,
-            gpuAcceleration: {
-              ...aiDist.gpuAcceleration,
-              isBoosted: !aiDist.gpuAcceleration.isBoosted
-            }
-          }
-        }
-      };
-    });
+  const toggleGPUBooost = useCallback((source: ActionSource = 'user') => {
+    record({ type: 'TOGGLE_GPU_BOOST' }, source);
+  }, [record]);
+
+  const injectFault = useCallback((fault: ChaosFault, source: ActionSource = 'user') => {
+    record({ type: 'INJECT_FAULT', fault }, source);
+  }, [record]);
+
+  const clearFault = useCallback((id: string, source: ActionSource = 'user') => {
+    record({ type: 'CLEAR_FAULT', id }, source);
+  }, [record]);
+
+  const acknowledgeIncident = useCallback((id: string, source: ActionSource = 'user') => {
+    record({ type: 'ACK_INCIDENT', id }, source);
+  }, [record]);
+
+  const ingestMetrics = useCallback((observed: ObservedTelemetry, source: ActionSource = 'telemetry') => {
+    record({ type: 'INGEST_METRICS', observed }, source);
+  }, [record]);
+
+  const clearMetrics = useCallback((source: ActionSource = 'telemetry') => {
+    record({ type: 'CLEAR_METRICS' }, source);
+  }, [record]);
+
+  const setTopology = useCallback((
+    topology: readonly HubNode[],
+    change: string,
+    flows?: readonly DataFlowPacket[],
+    source: ActionSource = 'user'
+  ) => {
+    record({ type: 'SET_TOPOLOGY', topology, change, ...(flows && { flows }) }, source);
+  }, [record]);
+
+  const setTransitHub = useCallback((hub: TransitHubId, source: ActionSource = 'user') => {
+    record({ type: 'SET_TRANSIT_HUB', hub }, source);
+  }, [record]);
+
+  /**
+   * Splits traffic across several hubs in proportion to their weights.
+   */
+  const setTransitWeights = useCallback((weights: TransitWeights, source: ActionSource = 'user') => {
+    record({ type: 'SET_TRANSIT_WEIGHTS', weights }, source);
+  }, [record]);
+
+  const toggleTransitHub = useCallback((hub: TransitHubId, source: ActionSource = 'user') => {
+    record({ type: 'TOGGLE_TRANSIT_HUB', hub }, source);
+  }, [record]);
+
+  const setFailoverThreshold = useCallback((threshold: number) => {
+    record({ type: 'SET_FAILOVER_THRESHOLD', threshold }, 'user');
+  }, [record]);
+
+  /**
+   * Restarts the current run from its seed.
+   */
+  const resetSimulation = useCallback((source: ActionSource = 'user') => {
+    record({ type: 'RESET' }, source);
+  }, [record]);
+
+  const setPaused = useCallback((paused: boolean) => {
+    record({ type: 'SET_PAUSED', paused }, 'user');
+  }, [record]);
+
+  const stepSimulation = useCallback(() => {
+    record({ type: 'TICK' }, 'user');
+  }, [record]);
+
+  const setSimulationSpeed = useCallback((speed: number) => {
+    record({ type: 'SET_SPEED', speed }, 'user');
+  }, [record]);
+
+  const reseed = useCallback((seed: number) => {
+    record({ type: 'RESEED', seed }, 'user');
+  }, [record]);
+
+  const seek = useCallback((index: number | null) => {
+    setIsReplaying(false);
+    dispatchTimeline({ type: 'SEEK', index });
+  }, []);
+
+  const setReplaying = useCallback((replaying: boolean) => {
+    setIsReplaying(replaying);
+  }, []);
+
+  const resumeFromCursor = useCallback(() => {
+    setIsReplaying(false);
+    dispatchTimeline({ type: 'BRANCH' });
+  }, []);
+
+  const exportRecording = useCallback(() => TimelineRecorder.serialize(session), [session]);
+
+  const importRecording = useCallback((json: string) => {
+    const recording = TimelineRecorder.parse(json);
+    setIsReplaying(false);
+    dispatchTimeline({ type: 'LOAD', recording });
+  }, []);
+
+  /**
+   * Undo/redo append compensating events rather than rewriting the log, so the
+   * timeline keeps an honest record of both the mistake and its correction.
+   */
+  const undo = useCallback((source: ActionSource = 'user') => {
+    setIsReplaying(false);
+    dispatchTimeline({ type: 'UNDO', source });
   }, []);
 
-  const setTransitHub = useCallback((hub: 'n8n' | 'Zapier' | 'Manual') => {
-    setState(prev => ({ ...prev, transitHub: hub, simulationActive: true }));
+  const redo = useCallback((source: ActionSource = 'user') => {
+    setIsReplaying(false);
+    dispatchTimeline({ type: 'REDO', source });
   }, []);
 
-  const resetSimulation = useCallback(() => {
-    setState({
-      districts: INITIAL_DISTRICTS.reduce((acc, id) => ({
-        ...acc,
-        [id]: { 
-          id, 
-          isActive: true, 
-          load: 20, 
-          health: 100,
-          ...(id === 'AI' ? {
-            gpuAcceleration: { isBoosted: false, tflops: 120, vramUsed: 42 }
-          } : {})
-        }
-      }), {} as Record<HubId, DistrictStatus>),
-      transitHub: 'n8n',
-      simulationActive: false
-    });
+  const history = useMemo(() => TimelineRecorder.history(session), [session.recording.events, session.cursor]);
+
+  // Flows whose districts, platforms or roads are gone sit idle until they return
+  const flows = useMemo(() => FlowCatalog.runnable(state.flows, state.topology, TRANSIT_HUBS), [state.flows, state.topology]);
+
+  /**
+   * Failover routing: every flow's path is derived from district availability
+   * and the transit mix, so consumers never re-implement the heuristics.
+   */
+  const routes = useMemo(() =>
+    RoutingEngine.computeRoutes(flows, state.topology, state.districts, state.transit, TRANSIT_HUBS),
+    [flows, state.topology, state.districts, state.transit]);
+
+  const traceFlow = useCallback((flowId: string | null) => {
+    setTracedFlowId(flowId);
   }, []);
 
+  const timeline = useMemo(() => ({
+    events: session.recording.events,
+    cursor: session.cursor,
+    isReplaying
+  }), [session.recording.events, session.cursor, isReplaying]);
+
   const value = useMemo(() => ({
     state,
+    flows,
+    routes,
     toggleDistrict,
     setTransitHub,
+    setTransitWeights,
+    toggleTransitHub,
+    setFailoverThreshold,
     resetSimulation,
-    toggleGPUBooost
-  }), [state, toggleDistrict, setTransitHub, resetSimulation, toggleGPUBooost]);
+    toggleGPUBooost,
+    injectFault,
+    clearFault,
+    acknowledgeIncident,
+    ingestMetrics,
+    clearMetrics,
+    setTopology,
+    setPaused,
+    stepSimulation,
+    setSimulationSpeed,
+    reseed,
+    timeline,
+    seek,
+    setReplaying,
+    resumeFromCursor,
+    exportRecording,
+    importRecording,
+    history,
+    undo,
+    redo,
+    tracedFlowId,
+    traceFlow
+  }), [state, flows, routes, toggleDistrict, setTransitHub, setTransitWeights, toggleTransitHub, setFailoverThreshold,
+    resetSimulation, toggleGPUBooost, injectFault, clearFault, acknowledgeIncident, ingestMetrics, clearMetrics, setTopology, setPaused, stepSimulation, setSimulationSpeed, reseed, timeline, seek,
+    setReplaying, resumeFromCursor, exportRecording, importRecording, history, undo, redo, tracedFlowId, traceFlow]);
 
   return <CityContext.Provider value={value}>{children}</CityContext.Provider>;
 };
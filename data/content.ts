@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { ElementType } from 'react';
 import { 
   Code, 
   Database, 
@@ -11,7 +12,12 @@ import {
   Settings, 
   TrendingUp, 
   ShoppingBag, 
-  MessageSquare 
+  MessageSquare,
+  Shield,
+  Globe,
+  Boxes,
+  Server,
+  Users
 } from 'lucide-react';
 import { 
   HubNode, 
@@ -19,7 +25,17 @@ import {
   CostTier, 
   AuthorProfile, 
   SectionContent,
-  RoadmapStep
+  RoadmapStep,
+  DependencyCriticality,
+  TransitHubId,
+  TransitHubProfile,
+  Scenario,
+  ServiceLevelObjective,
+  BurnRateAlert,
+  AlertRule,
+  NocConfig,
+  MetricMapping,
+  TraceServiceMapping
 } from '../types';
 
 export const APP_CONFIG = {
@@ -83,11 +99,35 @@ export const SECTIONS: Record<string, SectionContent> = {
   }
 };
 
+/**
+ * Icons a district can be drawn with, keyed by the `icon` of its HubNode.
+ */
+export const DISTRICT_ICONS: Readonly<Record<string, ElementType>> = {
+  'code': Code,
+  'database': Database,
+  'cpu': Cpu,
+  'settings': Settings,
+  'trending-up': TrendingUp,
+  'shopping-bag': ShoppingBag,
+  'message-square': MessageSquare,
+  'shield': Shield,
+  'globe': Globe,
+  'boxes': Boxes,
+  'server': Server,
+  'users': Users
+};
+
+/** Background classes offered to districts added in the topology editor. */
+export const DISTRICT_COLOR_CLASSES: readonly string[] = [
+  'bg-indigo-600', 'bg-blue-600', 'bg-emerald-600', 'bg-rose-600', 'bg-amber-600', 'bg-violet-600', 'bg-teal-600',
+  'bg-sky-600', 'bg-pink-600', 'bg-slate-600'
+];
+
 export const HUBS_DATA: HubNode[] = [
   { 
     id: 'DEV', 
     label: 'Dev District', 
-    icon: Code, 
+    icon: 'code', 
     color: 'bg-indigo-600', 
     desc: 'The building blocks. Next.js 15, TypeScript, tRPC, and Drizzle ORM.',
     connections: ['DATA', 'OPS'],
@@ -101,7 +141,7 @@ export const HUBS_DATA: HubNode[] = [
   { 
     id: 'DATA', 
     label: 'Data District', 
-    icon: Database, 
+    icon: 'database', 
     color: 'bg-blue-600', 
     desc: 'Storage & Identity. Supabase PostgreSQL, RLS, and Auth.',
     connections: ['DEV', 'AI', 'GROWTH'],
@@ -115,7 +155,7 @@ export const HUBS_DATA: HubNode[] = [
   { 
     id: 'AI', 
     label: 'AI Labs', 
-    icon: Cpu, 
+    icon: 'cpu', 
     color: 'bg-emerald-600', 
     desc: 'GPU Accelerated Intelligence. NVIDIA H100 clusters, Claude 4.5, and MCP Servers.',
     connections: ['DATA', 'DEV', 'COLLAB'],
@@ -129,7 +169,7 @@ export const HUBS_DATA: HubNode[] = [
   { 
     id: 'OPS', 
     label: 'Ops Center', 
-    icon: Settings, 
+    icon: 'settings', 
     color: 'bg-rose-600', 
     desc: 'Monitor & Secure. Sentry, PostHog, and Prometheus.',
     connections: ['DEV', 'DATA'],
@@ -143,7 +183,7 @@ export const HUBS_DATA: HubNode[] = [
   { 
     id: 'GROWTH', 
     label: 'Growth Hub', 
-    icon: TrendingUp, 
+    icon: 'trending-up', 
     color: 'bg-amber-600', 
     desc: 'Revenue & Marketing. HubSpot CRM and Cloudinary.',
     connections: ['COMMERCE', 'DATA'],
@@ -157,7 +197,7 @@ export const HUBS_DATA: HubNode[] = [
   { 
     id: 'COMMERCE', 
     label: 'Commerce Zone', 
-    icon: ShoppingBag, 
+    icon: 'shopping-bag', 
     color: 'bg-violet-600', 
     desc: 'Sales & Fulfillment. Stripe and Printify.',
     connections: ['GROWTH', 'DATA', 'OPS'],
@@ -171,7 +211,7 @@ export const HUBS_DATA: HubNode[] = [
   { 
     id: 'COLLAB', 
     label: 'Collab Square', 
-    icon: MessageSquare, 
+    icon: 'message-square', 
     color: 'bg-teal-600', 
     desc: 'Team Coordination. Slack, Notion, and Linear.',
     connections: ['DEV', 'AI', 'GROWTH'],
@@ -184,10 +224,157 @@ export const HUBS_DATA: HubNode[] = [
   }
 ];
 
+/**
+ * Criticality overrides for dependency edges declared in HUBS_DATA connections.
+ * Edges not listed here fall back to the propagation engine's default.
+ */
+export const DEPENDENCY_CRITICALITY: DependencyCriticality = {
+  DEV: { DATA: 0.8, OPS: 0.2 },
+  AI: { DATA: 0.6, DEV: 0.3, COLLAB: 0.1 },
+  OPS: { DEV: 0.3, DATA: 0.5 },
+  GROWTH: { DATA: 0.5, COMMERCE: 0.4 },
+  COMMERCE: { DATA: 0.7, GROWTH: 0.2, OPS: 0.2 },
+  COLLAB: { DEV: 0.2, AI: 0.3, GROWTH: 0.1 }
+};
+
+export const TRANSIT_HUB_IDS: readonly TransitHubId[] = ['n8n', 'Zapier', 'Make', 'MCP', 'Manual'];
+
+export const TRANSIT_HUBS: Readonly<Record<TransitHubId, TransitHubProfile>> = {
+  n8n: { id: 'n8n', label: 'n8n Metro', role: 'Primary Orchestration', capacity: 1500, queueLimit: 5000, latency: { base: 12, jitter: 6 }, costPer1k: 0.02, carries: ['event', 'webhook'] },
+  Zapier: { id: 'Zapier', label: 'Zapier Bus', role: 'SaaS Fallback', capacity: 600, queueLimit: 2000, latency: { base: 45, jitter: 25 }, costPer1k: 0.3, carries: ['event', 'webhook'] },
+  Make: { id: 'Make', label: 'Make Bus', role: 'Scenario Fallback', capacity: 800, queueLimit: 2500, latency: { base: 35, jitter: 20 }, costPer1k: 0.12, carries: ['event', 'webhook'] },
+  MCP: { id: 'MCP', label: 'MCP Rapid Transit', role: 'AI Tool Access', capacity: 500, queueLimit: 800, latency: { base: 6, jitter: 3 }, costPer1k: 0.05, carries: ['tool-call'], dedicated: true },
+  Manual: { id: 'Manual', label: 'Manual Roads', role: 'Point-to-Point', capacity: 300, queueLimit: 600, latency: { base: 8, jitter: 4 }, costPer1k: 0, carries: ['event', 'webhook', 'tool-call'] }
+};
+
+/** Derives a flow's origin and destinations from its hops. */
+const defineFlow = (flow: Omit<DataFlowPacket, 'origin' | 'destinations'>): DataFlowPacket => ({
+  ...flow,
+  origin: flow.source.district,
+  destinations: flow.targets.map(t => t.district)
+});
+
 export const FLOW_PACKETS: DataFlowPacket[] = [
-  { id: "creator-publish", label: "Creator Publish", desc: "Supabase Event → n8n Metro → Cloudinary + Printify" },
-  { id: "revenue-event", label: "Sale Occurs", desc: "Stripe Webhook → n8n → HubSpot Deal + PostHog" },
-  { id: "ai-tool-call", label: "AI Tool Call", desc: "Claude → MCP Rapid Transit → Database Context" }
+  defineFlow({
+    id: "creator-publish", label: "Creator Publish", type: 'event', arrivalRate: 450,
+    source: { district: 'DATA', platform: 'Supabase', payload: 'Event', expectedLatencyMs: 8 },
+    transit: { hub: 'n8n', expectedLatencyMs: 15 },
+    targets: [
+      { district: 'GROWTH', platform: 'Cloudinary', payload: 'Asset', expectedLatencyMs: 40 },
+      { district: 'COMMERCE', platform: 'Printify', payload: 'Product', expectedLatencyMs: 60 }
+    ]
+  }),
+  defineFlow({
+    id: "revenue-event", label: "Sale Occurs", type: 'webhook', arrivalRate: 380,
+    source: { district: 'COMMERCE', platform: 'Stripe', payload: 'Webhook', expectedLatencyMs: 10 },
+    transit: { hub: 'n8n', expectedLatencyMs: 15 },
+    targets: [
+      { district: 'GROWTH', platform: 'HubSpot', payload: 'Deal', expectedLatencyMs: 45 },
+      { district: 'OPS', platform: 'PostHog', payload: 'Event', expectedLatencyMs: 12 }
+    ]
+  }),
+  defineFlow({
+    id: "ai-tool-call", label: "AI Tool Call", type: 'tool-call', arrivalRate: 420,
+    source: { district: 'AI', platform: 'Claude 4.5', payload: 'Tool Call', expectedLatencyMs: 5 },
+    transit: { hub: 'MCP', expectedLatencyMs: 8 },
+    targets: [
+      { district: 'DATA', platform: 'Supabase', payload: 'Database Context', expectedLatencyMs: 20 }
+    ]
+  })
+];
+
+/** Simulated seconds over which SLO compliance and error budgets are measured. */
+export const SLO_COMPLIANCE_PERIOD = 3600;
+
+export const SERVICE_LEVEL_OBJECTIVES: ServiceLevelObjective[] = [
+  { id: "publish-availability", label: "Creator Publish Delivery", scope: { kind: 'flow', id: "creator-publish" }, indicator: 'availability', objective: 0.99 },
+  { id: "publish-latency", label: "Creator Publish p95 < 100ms", scope: { kind: 'flow', id: "creator-publish" }, indicator: 'latency', objective: 0.95, thresholdMs: 100 },
+  { id: "revenue-availability", label: "Sale Webhook Delivery", scope: { kind: 'flow', id: "revenue-event" }, indicator: 'availability', objective: 0.995 },
+  { id: "tool-call-latency", label: "AI Tool Call p95 < 100ms", scope: { kind: 'flow', id: "ai-tool-call" }, indicator: 'latency', objective: 0.95, thresholdMs: 100 },
+  { id: "data-availability", label: "Data District Availability", scope: { kind: 'district', id: 'DATA' }, indicator: 'availability', objective: 0.99 },
+  { id: "commerce-availability", label: "Commerce District Availability", scope: { kind: 'district', id: 'COMMERCE' }, indicator: 'availability', objective: 0.995 }
+];
+
+/**
+ * Burn-rate alert policy, scaled to the compliance period: a page when a fifth
+ * of the budget burns within two minutes, a ticket when a third burns within ten.
+ */
+export const BURN_RATE_ALERTS: BurnRateAlert[] = [
+  { id: "fast-burn", severity: 'page', longWindow: 120, shortWindow: 10, burnRate: 6 },
+  { id: "slow-burn", severity: 'ticket', longWindow: 600, shortWindow: 60, burnRate: 2 }
+];
+
+export const ALERT_RULES: AlertRule[] = [
+  { id: "flows-broken", label: "Emergency protocol: flow undeliverable", metric: 'flows-broken', comparator: 'above', threshold: 0, severity: 'critical', forSeconds: 0 },
+  { id: "district-down", label: "District offline", metric: 'district-offline', comparator: 'above', threshold: 0, severity: 'critical', forSeconds: 0 },
+  { id: "district-degraded", label: "District health degraded", metric: 'district-health', comparator: 'below', threshold: 60, severity: 'warning', forSeconds: 6 },
+  { id: "district-overload", label: "District load high", metric: 'district-load', comparator: 'above', threshold: 80, severity: 'warning', forSeconds: 10 },
+  { id: "latency-p95", label: "p95 latency above 250ms", metric: 'latency-p95', comparator: 'above', threshold: 250, severity: 'warning', forSeconds: 4 },
+  { id: "latency-p95-critical", label: "p95 latency above 1s", metric: 'latency-p95', comparator: 'above', threshold: 1000, severity: 'critical', forSeconds: 4 },
+  { id: "integrity", label: "Packet integrity below 99%", metric: 'integrity', comparator: 'below', threshold: 99, severity: 'warning', forSeconds: 4 },
+  { id: "gpu-vram", label: "GPU VRAM above 75 GB", metric: 'gpu-vram', comparator: 'above', threshold: 75, severity: 'info', forSeconds: 10, district: 'AI' }
+];
+
+/**
+ * NOC configuration before an operator customizes it: every district counts
+ * equally, and crisis means a flow with no deliverable leg.
+ */
+export const DEFAULT_NOC_CONFIG: NocConfig = {
+  version: 1,
+  districtWeights: { DEV: 1, DATA: 1, AI: 1, OPS: 1, GROWTH: 1, COMMERCE: 1, COLLAB: 1 },
+  crisisRules: [
+    { id: "broken-flows", metric: 'broken-flows', comparator: 'above', threshold: 0, enabled: true },
+    { id: "offline-districts", metric: 'offline-districts', comparator: 'above', threshold: 2, enabled: false },
+    { id: "city-health", metric: 'city-health', comparator: 'below', threshold: 60, enabled: false },
+    { id: "integrity", metric: 'integrity', comparator: 'below', threshold: 95, enabled: false },
+    { id: "latency", metric: 'latency', comparator: 'above', threshold: 1000, enabled: false },
+    { id: "critical-alerts", metric: 'critical-alerts', comparator: 'above', threshold: 0, enabled: false }
+  ],
+  formulas: { integrity: 'packet-delivery', latencyPercentile: 'p95' }
+};
+
+/**
+ * Prometheus series behind each district and transit hub, following the OPS
+ * district's exporter conventions: `up` scraped per district and hub, and a
+ * 0-1 load gauge per district.
+ */
+export const DEFAULT_METRIC_MAPPINGS: MetricMapping[] = [
+  ...HUBS_DATA.flatMap(({ id }): MetricMapping[] => [
+    { metric: 'up', matchers: { district: id }, aggregate: 'avg', scale: 100, target: { kind: 'district', id, field: 'health' } },
+    { metric: 'flashfusion_district_load_ratio', matchers: { district: id }, aggregate: 'avg', scale: 100, target: { kind: 'district', id, field: 'load' } }
+  ]),
+  ...(['n8n', 'Zapier', 'Make', 'MCP'] as const).map((id): MetricMapping =>
+    ({ metric: 'up', matchers: { job: id.toLowerCase() }, aggregate: 'avg', scale: 100, target: { kind: 'hub', id, field: 'health' } }))
+];
+
+/**
+ * Where the platforms named in FLOW_PACKETS and the district sub-platforms
+ * appear in the city, keyed by the `service.name` their spans carry.
+ */
+export const TRACE_SERVICE_MAPPINGS: TraceServiceMapping[] = [
+  { service: 'n8n', node: { kind: 'transit', id: 'n8n' } },
+  { service: 'zapier', node: { kind: 'transit', id: 'Zapier' } },
+  { service: 'make', node: { kind: 'transit', id: 'Make' } },
+  { service: 'mcp', node: { kind: 'transit', id: 'MCP' } },
+  { service: 'nextjs', node: { kind: 'district', id: 'DEV' } },
+  { service: 'trpc', node: { kind: 'district', id: 'DEV' } },
+  { service: 'vercel', node: { kind: 'district', id: 'DEV' } },
+  { service: 'supabase', node: { kind: 'district', id: 'DATA' } },
+  { service: 'postgres', node: { kind: 'district', id: 'DATA' } },
+  { service: 'claude', node: { kind: 'district', id: 'AI' } },
+  { service: 'nim', node: { kind: 'district', id: 'AI' } },
+  { service: 'sentry', node: { kind: 'district', id: 'OPS' } },
+  { service: 'posthog', node: { kind: 'district', id: 'OPS' } },
+  { service: 'grafana', node: { kind: 'district', id: 'OPS' } },
+  { service: 'hubspot', node: { kind: 'district', id: 'GROWTH' } },
+  { service: 'cloudinary', node: { kind: 'district', id: 'GROWTH' } },
+  { service: 'intercom', node: { kind: 'district', id: 'GROWTH' } },
+  { service: 'stripe', node: { kind: 'district', id: 'COMMERCE' } },
+  { service: 'printify', node: { kind: 'district', id: 'COMMERCE' } },
+  { service: 'shopify', node: { kind: 'district', id: 'COMMERCE' } },
+  { service: 'slack', node: { kind: 'district', id: 'COLLAB' } },
+  { service: 'notion', node: { kind: 'district', id: 'COLLAB' } },
+  { service: 'linear', node: { kind: 'district', id: 'COLLAB' } }
 ];
 
 export const COST_TIERS: CostTier[] = [
@@ -204,3 +391,42 @@ export const GOVERNANCE_ROLES: AuthorProfile[] = [
   { name: 'Traffic Controller', role: 'Integration/n8n Lead' },
   { name: 'Chief Auditor', role: 'Security & RLS Lead' }
 ];
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: "data-outage",
+    name: "Data District Outage",
+    description: "Supabase goes dark, traffic fails over to Zapier, then the district is restored.",
+    steps: [
+      { at: 30, action: 'FAIL_DISTRICT', target: 'DATA', note: "Supabase primary unreachable" },
+      { at: 45, action: 'SWITCH_TRANSIT', target: 'Zapier', note: "Traffic Controller fails over the Metro" },
+      { at: 90, action: 'RESTORE_DISTRICT', target: 'DATA', note: "Database restored from replica" },
+      { at: 100, action: 'SWITCH_TRANSIT', target: 'n8n', note: "Metro backbone resumes" }
+    ]
+  },
+  {
+    id: "metro-collapse",
+    name: "Metro Collapse",
+    description: "n8n and then Zapier become unavailable, forcing point-to-point manual transit.",
+    steps: [
+      { at: 10, action: 'SWITCH_TRANSIT', target: 'Zapier', note: "n8n workers crash-looping" },
+      { at: 40, action: 'SWITCH_TRANSIT', target: 'Manual', note: "Zapier task quota exhausted" },
+      { at: 50, action: 'FAIL_DISTRICT', target: 'OPS', note: "Monitoring overwhelmed by alerts" },
+      { at: 80, action: 'RESTORE_DISTRICT', target: 'OPS' },
+      { at: 90, action: 'SWITCH_TRANSIT', target: 'n8n', note: "Metro backbone redeployed" }
+    ]
+  },
+  {
+    id: "black-friday",
+    name: "Black Friday Surge",
+    description: "Inference boosted for peak demand while commerce and growth systems buckle.",
+    steps: [
+      { at: 0, action: 'SET_GPU_BOOST', enabled: true, note: "H100 overclock for recommendations" },
+      { at: 20, action: 'FAIL_DISTRICT', target: 'COMMERCE', note: "Stripe webhook backlog" },
+      { at: 35, action: 'FAIL_DISTRICT', target: 'GROWTH', note: "HubSpot API rate limited" },
+      { at: 70, action: 'RESTORE_DISTRICT', target: 'COMMERCE' },
+      { at: 80, action: 'RESTORE_DISTRICT', target: 'GROWTH' },
+      { at: 100, action: 'SET_GPU_BOOST', enabled: false }
+    ]
+  }
+];
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useMemo } from 'react';
+import { useCity } from '../context/CityContext';
+import { TRANSIT_HUBS } from '../data/content';
+import { FlowTracer } from '../services/simulation/tracer';
+import { DataFlowPacket, FlowTrace } from '../types';
+
+/**
+ * useFlowTrace Hook
+ *
+ * Trace of the flow selected in the flow tracer, re-traced as the displayed
+ * state changes; null while no flow is traced.
+ */
+export const useFlowTrace = (): { readonly flow: DataFlowPacket; readonly trace: FlowTrace } | null => {
+  const { state, flows, routes, tracedFlowId } = useCity();
+
+  return useMemo(() => {
+    const flow = flows.find(f => f.id === tracedFlowId);
+    const route = routes.find(r => r.flowId === tracedFlowId);
+    if (!flow || !route) return null;
+    return { flow, trace: FlowTracer.trace(flow, route, state, TRANSIT_HUBS) };
+  }, [tracedFlowId, flows, routes, state]);
+};
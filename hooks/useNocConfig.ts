@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_NOC_CONFIG } from '../data/content';
+import { NocConfigModel } from '../services/nocConfig';
+import { NocConfigHook } from '../types';
+
+const STORAGE_KEY = 'noc-config';
+
+/**
+ * useNocConfig Hook
+ *
+ * Operator-defined NOC configuration, persisted to local storage.
+ */
+export const useNocConfig = (): NocConfigHook => {
+  const [config, setConfig] = useState(() => {
+    if (typeof window === 'undefined') return DEFAULT_NOC_CONFIG;
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) return NocConfigModel.parse(JSON.parse(stored));
+    } catch (e) {
+      console.warn('Stored NOC configuration unreadable, using defaults:', e);
+    }
+    return DEFAULT_NOC_CONFIG;
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    } catch (e) {
+      // Silently fail if storage is restricted
+    }
+  }, [config]);
+
+  const updateConfig = useCallback((update: Parameters<NocConfigHook['updateConfig']>[0]) => {
+    setConfig(prev => update(prev));
+  }, []);
+
+  const resetConfig = useCallback(() => setConfig(DEFAULT_NOC_CONFIG), []);
+
+  return { config, updateConfig, resetConfig };
+};
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useCity } from '../context/CityContext';
+import { DEFAULT_METRIC_MAPPINGS } from '../data/content';
+import { PrometheusAdapter } from '../services/prometheus';
+import { MetricMapping } from '../types';
+
+const STORAGE_KEY = 'prometheus-mappings';
+
+/** Wall-clock milliseconds between endpoint scrapes, Prometheus' default scrape interval. */
+const SCRAPE_INTERVAL_MS = 15000;
+
+/** Milliseconds before a scrape that has not answered is abandoned. */
+const SCRAPE_TIMEOUT_MS = 5000;
+
+export interface ScrapeStatus {
+  readonly origin: string;
+  readonly at: Date;
+  readonly samples: number;
+  /** District and hub fields driven by the scrape */
+  readonly fields: number;
+  readonly error?: string;
+}
+
+/**
+ * usePrometheusFeed Hook
+ *
+ * Feeds real metrics into the simulation, from pasted exposition text or by
+ * polling an HTTP endpoint. A failed scrape returns the city to synthetic
+ * telemetry rather than leaving stale readings in place.
+ */
+export const usePrometheusFeed = () => {
+  const { state, timeline, ingestMetrics, clearMetrics } = useCity();
+  const [endpoint, setEndpoint] = useState<string | null>(null);
+  const [status, setStatus] = useState<ScrapeStatus | null>(null);
+  const [mappings, setMappings] = useState<MetricMapping[]>(() => {
+    if (typeof window === 'undefined') return DEFAULT_METRIC_MAPPINGS;
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) return PrometheusAdapter.parseMappings(stored, state.topology.map(h => h.id));
+    } catch (e) {
+      console.warn('Stored metric mappings unreadable, using defaults:', e);
+    }
+    return DEFAULT_METRIC_MAPPINGS;
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+    } catch (e) {
+      // Silently fail if storage is restricted
+    }
+  }, [mappings]);
+
+  const isLive = timeline.cursor === null;
+  const observedOrigin = state.observed?.origin ?? null;
+  // Read by in-flight scrapes, which outlive the render that started them
+  const hasObserved = useRef(false);
+  hasObserved.current = observedOrigin !== null;
+
+  /**
+   * Parses and maps one scrape. Returns false, recording why, when the text is
+   * malformed or no mapped series is present.
+   */
+  const ingest = useCallback((text: string, origin: string): boolean => {
+    try {
+      const samples = PrometheusAdapter.parse(text);
+      const observed = PrometheusAdapter.resolve(samples, mappings, origin);
+      const fields = PrometheusAdapter.coverage(observed);
+      if (fields === 0) throw new Error(`None of the ${samples.length} series match the mapping.`);
+      ingestMetrics(observed);
+      setStatus({ origin, at: new Date(), samples: samples.length, fields });
+      return true;
+    } catch (e) {
+      setStatus({ origin, at: new Date(), samples: 0, fields: 0, error: (e as Error).message });
+      return false;
+    }
+  }, [mappings, ingestMetrics]);
+
+  const disconnect = useCallback(() => {
+    setEndpoint(null);
+    if (observedOrigin !== null) clearMetrics();
+  }, [observedOrigin, clearMetrics]);
+
+  /**
+   * Endpoint polling. Suspended while viewing the past, like the clock, so
+   * scrapes are not recorded into history.
+   */
+  useEffect(() => {
+    if (!endpoint || !isLive) return;
+    let cancelled = false;
+    let controller: AbortController | null = null;
+
+    const fallBack = () => {
+      if (hasObserved.current) clearMetrics();
+    };
+
+    const scrape = async () => {
+      const request = new AbortController();
+      controller = request;
+      const timeout = setTimeout(() => request.abort(), SCRAPE_TIMEOUT_MS);
+      try {
+        const response = await fetch(endpoint, { signal: request.signal, headers: { Accept: 'text/plain' } });
+        if (!response.ok) throw new Error(`Endpoint answered ${response.status} ${response.statusText}.`);
+        const text = await response.text();
+        if (!cancelled && !ingest(text, endpoint)) fallBack();
+      } catch (e) {
+        if (cancelled) return;
+        const reason = request.signal.aborted ? `no answer within ${SCRAPE_TIMEOUT_MS / 1000}s` : (e as Error).message;
+        setStatus({ origin: endpoint, at: new Date(), samples: 0, fields: 0, error: `Scrape failed: ${reason}` });
+        fallBack();
+      } finally {
+        clearTimeout(timeout);
+      }
+    };
+
+    scrape();
+    const interval = setInterval(scrape, SCRAPE_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      controller?.abort();
+    };
+  }, [endpoint, isLive, ingest, clearMetrics]);
+
+  return {
+    mappings,
+    setMappings,
+    resetMappings: () => setMappings(DEFAULT_METRIC_MAPPINGS),
+    endpoint,
+    connect: setEndpoint,
+    disconnect,
+    ingest,
+    status,
+    observedOrigin
+  };
+};
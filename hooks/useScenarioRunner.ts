@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useCity } from '../context/CityContext';
+import { TICK_SECONDS } from '../services/simulation/engine';
+import { Scenario, ScenarioStep, CityState, HubId } from '../types';
+
+interface ScenarioPlayback {
+  readonly scenario: Scenario;
+  /** Index of the next step to fire */
+  readonly cursor: number;
+  /** Simulated seconds since playback started */
+  readonly elapsed: number;
+}
+
+/**
+ * Mutable projection of the state fields steps depend on, so several steps
+ * firing on the same tick see each other's effects before React re-renders.
+ */
+interface Projection {
+  active: Record<HubId, boolean>;
+  boosted: boolean;
+}
+
+const project = (state: CityState): Projection => ({
+  active: Object.fromEntries(Object.values(state.districts).map(d => [d.id, d.isActive])) as Record<HubId, boolean>,
+  boosted: state.districts.AI.gpuAcceleration?.isBoosted ?? false
+});
+
+/**
+ * useScenarioRunner Hook
+ *
+ * Plays a scripted scenario on top of the CityContext actions. Steps are timed
+ * against the simulation clock, so pausing or speeding up the clock pauses or
+ * speeds up the scenario, and a seeded run replays identically.
+ */
+export const useScenarioRunner = () => {
+  const { state, timeline, toggleDistrict, setTransitHub, toggleGPUBooost, resetSimulation } = useCity();
+  const [playback, setPlayback] = useState<ScenarioPlayback | null>(null);
+  const lastTick = useRef(state.clock.tick);
+
+  /**
+   * Applies a step idempotently: failing an offline district or restoring an
+   * online one is a no-op rather than a toggle.
+   */
+  const execute = useCallback((step: ScenarioStep, projection: Projection) => {
+    switch (step.action) {
+      case 'FAIL_DISTRICT':
+      case 'RESTORE_DISTRICT': {
+        const shouldBeActive = step.action === 'RESTORE_DISTRICT';
+        if (projection.active[step.target] !== shouldBeActive) {
+          toggleDistrict(step.target, 'scenario');
+          projection.active[step.target] = shouldBeActive;
+        }
+        break;
+      }
+      case 'SWITCH_TRANSIT':
+        setTransitHub(step.target, 'scenario');
+        break;
+      case 'SET_GPU_BOOST':
+        if (projection.boosted !== step.enabled) {
+          toggleGPUBooost('scenario');
+          projection.boosted = step.enabled;
+        }
+        break;
+      case 'RESET':
+        resetSimulation('scenario');
+        projection.boosted = false;
+        Object.keys(projection.active).forEach(id => { projection.active[id as HubId] = true; });
+        break;
+    }
+  }, [toggleDistrict, setTransitHub, toggleGPUBooost, resetSimulation]);
+
+  /**
+   * Fires every step due at or before `elapsed`, returning the new cursor.
+   */
+  const fireDue = useCallback((scenario: Scenario, cursor: number, elapsed: number, projection: Projection) => {
+    let next = cursor;
+    while (next < scenario.steps.length && scenario.steps[next].at <= elapsed) {
+      execute(scenario.steps[next], projection);
+      next++;
+    }
+    return next;
+  }, [execute]);
+
+  // Rewinding the timeline abandons the rehearsal: its remaining steps no longer
+  // line up with the recorded history
+  useEffect(() => {
+    if (timeline.cursor !== null) setPlayback(null);
+  }, [timeline.cursor]);
+
+  // Advance playback on every clock tick; other state changes must not re-fire steps
+  useEffect(() => {
+    const tick = state.clock.tick;
+    const delta = tick > lastTick.current ? tick - lastTick.current : 0;
+    lastTick.current = tick;
+    if (!playback || delta === 0 || timeline.cursor !== null || playback.cursor >= playback.scenario.steps.length) return;
+
+    const elapsed = playback.elapsed + delta * TICK_SECONDS;
+    const cursor = fireDue(playback.scenario, playback.cursor, elapsed, project(state));
+    setPlayback({ ...playback, cursor, elapsed });
+  }, [state.clock.tick]);
+
+  /**
+   * Resets the sandbox and starts the scenario from t=0.
+   */
+  const play = useCallback((scenario: Scenario) => {
+    resetSimulation('scenario');
+    lastTick.current = 0;
+
+    // A reset run always starts with every district online and no boost
+    const fresh = project(state);
+    Object.keys(fresh.active).forEach(id => { fresh.active[id as HubId] = true; });
+    fresh.boosted = false;
+
+    const cursor = fireDue(scenario, 0, 0, fresh);
+    setPlayback({ scenario, cursor, elapsed: 0 });
+  }, [state, resetSimulation, fireDue]);
+
+  const stop = useCallback(() => setPlayback(null), []);
+
+  const isFinished = !!playback && playback.cursor >= playback.scenario.steps.length;
+
+  return { playback, isFinished, play, stop };
+};
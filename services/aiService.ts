@@ -4,9 +4,10 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { GoogleGenAI, FunctionDeclaration, Type } from "@google/genai";
-import { HUBS_DATA } from '../data/content';
-import { InferenceMetrics } from '../types';
+import { GoogleGenAI, FunctionDeclaration, Type, Content, Part } from "@google/genai";
+import { TRANSIT_HUBS, TRANSIT_HUB_IDS } from '../data/content';
+import { Conversation, InferenceMetrics, InferenceStreamOptions, ToolCall } from '../types';
+import { ConversationMemory } from './conversation';
 
 /**
  * Platform Persona and Architectural Context.
@@ -20,14 +21,16 @@ FlashFusion optimizes by routing through transit hubs (n8n, Zapier, MCP) instead
 ARCHITECTURE CONTEXT:
 - Inference Core: GPU-Accelerated Gemini 3 Cluster (H100 Reserved).
 - Primary Hub: n8n (Metro) - Handles the majority of orchestrated data flows.
-- District Inventory: ${HUBS_DATA.map(h => `${h.id}: ${h.label} (Tools: ${h.subPlatforms.map(s => s.name).join(', ')})`).join('; ')}
+- Transit Hubs: ${Object.values(TRANSIT_HUBS).map(h => `${h.id}: ${h.label}, ${h.role} (carries ${h.carries.join('/')}, ${h.capacity} pkt/s)`).join('; ')}
+- District Inventory: editable at runtime, listed under Districts in the live context.
 
 CAPABILITIES:
 1. Reference specific district platforms (e.g., tRPC for DEV, Drizzle for persistence).
-2. Utilize 'triggerSimulationEvent' to demonstrate failures or hub switches.
+2. Utilize 'triggerSimulationEvent' to demonstrate failures, hub switches or chaos faults (degradation, latency, packet loss, flapping, rate limits, GPU throttling).
 3. Use 'navigateToSection' to visually guide the user through the dashboard.
-4. Provide deep architectural reasoning.
-5. Acknowledge GPU-acceleration only when the user requests "Boosted" or "H100" performance tiers.
+4. Use 'analyzeResilience' to find single points of failure, critical districts and the fewest roads separating two districts.
+5. Provide deep architectural reasoning.
+6. Acknowledge GPU-acceleration only when the user requests "Boosted" or "H100" performance tiers; use 'toggleGpuBoost' to switch it on or off.
 `;
 
 /**
@@ -54,31 +57,96 @@ const TOOLS: { functionDeclarations: FunctionDeclaration[] } = {
       name: 'triggerSimulationEvent',
       parameters: {
         type: Type.OBJECT,
-        description: 'Initiates a simulation event like district failure or hub failover.',
+        description: 'Initiates a simulation event like district failure, hub failover or an injected chaos fault.',
         properties: {
           eventType: {
             type: Type.STRING,
-            description: 'The type of event to trigger.',
-            enum: ['FAIL_DISTRICT', 'SWITCH_TRANSIT', 'RESET']
+            description: 'The type of event to trigger. DEGRADE_DISTRICT caps health, ADD_LATENCY slows a connection, PACKET_LOSS drops packets at a district, FLAP_DISTRICT cycles a district offline and back, RATE_LIMIT_HUB caps a hub, THROTTLE_GPU slows the AI district, CLEAR_CHAOS removes every injected fault.',
+            enum: ['FAIL_DISTRICT', 'SWITCH_TRANSIT', 'DEGRADE_DISTRICT', 'ADD_LATENCY', 'PACKET_LOSS', 'FLAP_DISTRICT', 'RATE_LIMIT_HUB', 'THROTTLE_GPU', 'CLEAR_CHAOS', 'RESET']
           },
           targetId: {
             type: Type.STRING,
-            description: 'ID of the target district or hub.',
+            description: `ID of the target district, from the live district inventory. For SWITCH_TRANSIT, a hub (${TRANSIT_HUB_IDS.join(', ')}) to route all traffic through, or a weighted split such as "n8n:80,Zapier:20". For RATE_LIMIT_HUB, the hub to limit.`,
+          },
+          peerId: {
+            type: Type.STRING,
+            description: 'For ADD_LATENCY, the district at the other end of the connection.',
+          },
+          value: {
+            type: Type.NUMBER,
+            description: 'Fault magnitude: health % for DEGRADE_DISTRICT, added ms for ADD_LATENCY, % lost for PACKET_LOSS, seconds per phase for FLAP_DISTRICT, packets per second for RATE_LIMIT_HUB, % throttled for THROTTLE_GPU.',
           }
         },
         required: ['eventType'],
       },
+    },
+    {
+      name: 'analyzeResilience',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'Analyzes the district road network: single points of failure, betweenness centrality, flows stranded by each district failing, and optionally the minimum cut between two districts.',
+        properties: {
+          from: {
+            type: Type.STRING,
+            description: 'Optional district at one end of a minimum cut, from the live district inventory.',
+          },
+          to: {
+            type: Type.STRING,
+            description: 'Optional district at the other end of the minimum cut.',
+          }
+        },
+      },
+    },
+    {
+      name: 'toggleGpuBoost',
+      parameters: {
+        type: Type.OBJECT,
+        description: 'Switches the AI district between its H100 boosted tier and standard inference.',
+        properties: {},
+      },
     }
   ]
 };
 
+/**
+ * Conversation turns as Gemini contents, ending with the new user message.
+ * Tool results go back as function responses on the user side, together with
+ * the message that follows them.
+ */
+const toContents = (conversation: Conversation, message: string): Content[] => {
+  const contents: Content[] = [];
+  const push = (role: 'user' | 'model', parts: Part[]) => {
+    const last = contents[contents.length - 1];
+    if (last?.role === role) last.parts = [...(last.parts ?? []), ...parts];
+    else if (parts.length > 0) contents.push({ role, parts });
+  };
+
+  conversation.turns.forEach(turn => {
+    switch (turn.role) {
+      case 'user':
+        push('user', [{ text: turn.text }]);
+        break;
+      case 'model':
+        push('model', [
+          ...(turn.text ? [{ text: turn.text }] : []),
+          ...turn.toolCalls.map(c => ({ functionCall: { id: c.id, name: c.name, args: { ...c.args } }, thoughtSignature: c.signature }))
+        ]);
+        break;
+      case 'tool':
+        push('user', turn.results.map(r => ({ functionResponse: { id: r.id, name: r.name, response: { ...r.response } } })));
+        break;
+    }
+  });
+  push('user', [{ text: message }]);
+  return contents;
+};
+
 /**
  * In-memory Cache Entry with TTL support to manage cost and latency.
  */
 interface CacheEntry {
   text: string;
   metrics: InferenceMetrics;
-  functionCalls?: any[];
   timestamp: number;
   costEstimate: number;
 }
@@ -107,7 +175,8 @@ const COST_COEFFICIENT = {
  */
 export const InferenceOrchestrator = {
   /**
-   * Generates a unique hash for the cache key.
+   * Generates a unique hash for the cache key. Only the model and the question
+   * are part of it: the live context changes on every tick.
    */
   privateHash(message: string, model: string): string {
     return `${model}:${message.toLowerCase().trim()}`;
@@ -117,31 +186,77 @@ export const InferenceOrchestrator = {
    * Executes a chat interaction with reasoning, tool calling, and caching.
    * @param message User's architectural query.
    * @param isBoosted If true, utilizes Gemini 3 Pro with deep reasoning and simulated H100 acceleration.
+   * @param liveContext Snapshot of the simulation (e.g. computed flow routes) appended to the system instruction.
+   * @param conversation Earlier turns, so follow-ups can refer back to them.
+   * @param stream Cancellation and incremental text callbacks; the response is streamed either way.
    */
-  async chat(message: string, isBoosted: boolean = false): Promise<{ 
+  async chat(
+    message: string,
+    isBoosted: boolean = false,
+    liveContext?: string,
+    conversation: Conversation = ConversationMemory.empty(),
+    stream: InferenceStreamOptions = {}
+  ): Promise<{ 
     text: string; 
     metrics: InferenceMetrics; 
-    functionCalls?: any[];
+    functionCalls?: ToolCall[];
     costEstimate: number;
   }> {
     const startTime = Date.now();
     const modelName = isBoosted ? 'gemini-3-pro-preview' : 'gemini-3-flash-preview';
     const cacheKey = this.privateHash(message, modelName);
+    const summary = ConversationMemory.describeSummary(conversation);
+    // Follow-ups depend on the conversation before them, so only opening questions are cached
+    const isCacheable = conversation.turns.length === 0 && conversation.summary.length === 0;
     
     // 1. Caching Layer: Rapid retrieval for redundant architectural questions
-    const cachedEntry = inferenceCache.get(cacheKey);
-    if (cachedEntry && (Date.now() - cachedEntry.timestamp < CACHE_TTL)) {
+    const cachedEntry = isCacheable ? inferenceCache.get(cacheKey) : undefined;
+    if (cachedEntry && Date.now() - cachedEntry.timestamp >= CACHE_TTL) inferenceCache.delete(cacheKey);
+    else if (cachedEntry) {
       console.debug(`[Inference Server] Cache Hit: ${cacheKey.substring(0, 30)}...`);
+      // Most recently used entries are evicted last
+      inferenceCache.delete(cacheKey);
+      inferenceCache.set(cacheKey, cachedEntry);
+      stream.onText?.(cachedEntry.text);
+      const latency = Date.now() - startTime;
       return {
         ...cachedEntry,
         metrics: {
           ...cachedEntry.metrics,
           cached: true,
-          totalLatency: Date.now() - startTime
+          ttft: latency,
+          totalLatency: latency
         }
       };
     }
 
+    // Filled in as chunks arrive, so a cancelled stream still returns what it received
+    let text = '';
+    let firstTokenAt: number | null = null;
+    let outputTokens: number | null = null;
+    const functionCalls: ToolCall[] = [];
+
+    const finish = (cancelled: boolean) => {
+      const endTime = Date.now();
+      const tokens = outputTokens ?? Math.ceil(text.length / 4);
+      const streamingSeconds = firstTokenAt === null ? 0 : (endTime - firstTokenAt) / 1000;
+      return {
+        text,
+        // A cancelled response may hold half-formed calls, so none are acted on
+        functionCalls: !cancelled && functionCalls.length > 0 ? functionCalls : undefined,
+        costEstimate: tokens * COST_COEFFICIENT[modelName as keyof typeof COST_COEFFICIENT],
+        metrics: {
+          ttft: (firstTokenAt ?? endTime) - startTime,
+          totalLatency: endTime - startTime,
+          outputTokens: tokens,
+          tokensPerSecond: streamingSeconds > 0 ? tokens / streamingSeconds : 0,
+          cached: false,
+          accelerated: isBoosted,
+          ...(cancelled ? { cancelled } : {})
+        }
+      };
+    };
+
     try {
       // 2. Inference Routing: Create fresh instance for updated context
       const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -151,13 +266,18 @@ export const InferenceOrchestrator = {
        * - gemini-3-flash-preview: Low latency, high throughput (Metro Tier).
        * - gemini-3-pro-preview: High reasoning, GPU-accelerated inference (Express Tier).
        */
-      const response = await ai.models.generateContent({
+      const chunks = await ai.models.generateContentStream({
         model: modelName,
-        contents: [{ role: 'user', parts: [{ text: message }] }],
+        contents: toContents(conversation, message),
         config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
+          systemInstruction: [
+            SYSTEM_INSTRUCTION,
+            liveContext ? `LIVE SIMULATION STATE:\n${liveContext}\n` : '',
+            summary ? `EARLIER IN THIS CONVERSATION (summarized):\n${summary}\n` : ''
+          ].filter(Boolean).join('\n'),
           tools: [TOOLS],
           temperature: isBoosted ? 0.75 : 0.45,
+          abortSignal: stream.signal,
           /**
            * Thinking Config calibration:
            * The budget allows for deep stack analysis when GPU acceleration is requested.
@@ -168,38 +288,49 @@ export const InferenceOrchestrator = {
         },
       });
 
-      const totalLatency = Date.now() - startTime;
-      const responseText = response.text || "Architectural packet timeout. Re-routing...";
-      
-      // Simulated token cost estimation
-      const costEstimate = (responseText.length / 4) * COST_COEFFICIENT[modelName as keyof typeof COST_COEFFICIENT];
+      for await (const chunk of chunks) {
+        // Calls are taken from the parts so their reasoning signatures can be sent back with the history
+        const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+        const calls = parts.filter(part => part.functionCall?.name);
+        if (firstTokenAt === null && (chunk.text || calls.length > 0)) firstTokenAt = Date.now();
 
-      const result = {
-        text: responseText,
-        functionCalls: response.functionCalls,
-        costEstimate,
-        metrics: {
-          ttft: isBoosted ? totalLatency * 0.4 : totalLatency * 0.2, // Estimated time to first token
-          totalLatency,
-          cached: false,
-          accelerated: isBoosted
+        calls.forEach(part => functionCalls.push({
+          id: part.functionCall!.id,
+          name: part.functionCall!.name!,
+          args: part.functionCall!.args ?? {},
+          signature: part.thoughtSignature
+        }));
+        if (chunk.text) {
+          text += chunk.text;
+          stream.onText?.(text);
         }
-      };
+        outputTokens = chunk.usageMetadata?.candidatesTokenCount ?? outputTokens;
+      }
+
+      if (stream.signal?.aborted) return finish(true);
+      const result = finish(false);
 
-      // 3. Cache Eviction Policy (LRU-lite)
+      // Replaying tool calls would act on a state they were not made for, so those responses are never cached
+      if (!isCacheable || result.functionCalls) return result;
+
+      // 3. Cache Eviction Policy (LRU)
       if (inferenceCache.size >= MAX_CACHE_SIZE) {
         const oldestKey = inferenceCache.keys().next().value;
         if (oldestKey) inferenceCache.delete(oldestKey);
       }
       
       inferenceCache.set(cacheKey, { 
-        ...result, 
-        timestamp: Date.now(),
-        costEstimate 
+        text: result.text,
+        metrics: result.metrics,
+        costEstimate: result.costEstimate,
+        timestamp: Date.now()
       });
       
       return result;
     } catch (error: any) {
+      // Cancelled by the user: keep the partial response, but do not cache it
+      if (stream.signal?.aborted) return finish(true);
+
       console.error("[Inference Fault] FFPI Cluster Error:", error);
       
       // Graceful failover for rate limits (simulating secondary cluster routing)
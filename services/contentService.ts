@@ -4,8 +4,16 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { SECTIONS, HUBS_DATA, FLOW_PACKETS, COST_TIERS, GOVERNANCE_ROLES } from '../data/content';
+import { SECTIONS, HUBS_DATA, FLOW_PACKETS, TRANSIT_HUBS, COST_TIERS, GOVERNANCE_ROLES } from '../data/content';
 import { SectionContent, HubNode, DataFlowPacket, CostTier, AuthorProfile } from '../types';
+import { FlowCatalog } from './flows';
+import { TopologyModel } from './simulation/topology';
+
+/** Flow definitions are checked against the topology once, when content first loads. */
+let flowsValidated = false;
+
+/** Likewise the topology itself; errors stop the app, warnings are logged. */
+let hubsValidated = false;
 
 /**
  * Service layer for application content.
@@ -19,10 +27,28 @@ export const ContentService = {
   },
 
   getAllHubs(): readonly HubNode[] {
+    if (!hubsValidated) {
+      const diagnostics = TopologyModel.diagnose(HUBS_DATA, FLOW_PACKETS, TRANSIT_HUBS);
+      const errors = diagnostics.filter(d => d.severity === 'error');
+      if (errors.length > 0) {
+        throw new Error(`Invalid topology: ${errors.map(d => d.message).join(' ')}`);
+      }
+      diagnostics
+        .filter(d => d.severity === 'warning')
+        .forEach(d => console.warn(`[Topology] ${d.message}`));
+      hubsValidated = true;
+    }
     return HUBS_DATA;
   },
 
   getDataFlows(): readonly DataFlowPacket[] {
+    if (!flowsValidated) {
+      const issues = FlowCatalog.validate(FLOW_PACKETS, HUBS_DATA, TRANSIT_HUBS);
+      if (issues.length > 0) {
+        throw new Error(`Invalid flow definitions: ${issues.map(i => `${i.flowId}: ${i.message}`).join(' ')}`);
+      }
+      flowsValidated = true;
+    }
     return FLOW_PACKETS;
   },
 
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChatTurn, Conversation } from '../types';
+
+/** Characters of verbatim turns kept, roughly 6k tokens. */
+export const MAX_CONVERSATION_CHARS = 24000;
+
+/** Characters of summary kept; the oldest lines go first. */
+const MAX_SUMMARY_CHARS = 3000;
+
+const clip = (text: string, length: number) => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+};
+
+const turnSize = (turn: ChatTurn): number => {
+  switch (turn.role) {
+    case 'user':
+      return turn.text.length;
+    case 'model':
+      return turn.text.length + JSON.stringify(turn.toolCalls.map(c => [c.name, c.args])).length;
+    case 'tool':
+      return JSON.stringify(turn.results.map(r => [r.name, r.response])).length;
+  }
+};
+
+const summarize = (turn: ChatTurn): string[] => {
+  switch (turn.role) {
+    case 'user':
+      return [`User: ${clip(turn.text, 160)}`];
+    case 'model':
+      return [
+        ...(turn.text ? [`Assistant: ${clip(turn.text, 160)}`] : []),
+        ...turn.toolCalls.map(c => `Assistant called ${c.name}(${clip(JSON.stringify(c.args), 100)})`)
+      ];
+    case 'tool':
+      return turn.results.map(r => `${r.name} returned ${clip(JSON.stringify(r.response), 120)}`);
+  }
+};
+
+/**
+ * Splits turns into exchanges, each starting at a user turn, so a tool call
+ * and its result are always kept or dropped together.
+ */
+const exchanges = (turns: readonly ChatTurn[]): ChatTurn[][] =>
+  turns.reduce<ChatTurn[][]>((groups, turn) => {
+    if (turn.role === 'user' || groups.length === 0) groups.push([turn]);
+    else groups[groups.length - 1].push(turn);
+    return groups;
+  }, []);
+
+/**
+ * Multi-turn memory for the planning assistant.
+ */
+export const ConversationMemory = {
+  empty(): Conversation {
+    return { summary: [], turns: [] };
+  },
+
+  /**
+   * Appends turns, then trims to `maxChars`: the oldest exchanges are folded
+   * into the summary until the rest fit. The latest exchange is always kept.
+   */
+  append(conversation: Conversation, turns: readonly ChatTurn[], maxChars: number = MAX_CONVERSATION_CHARS): Conversation {
+    const groups = exchanges([...conversation.turns, ...turns]);
+    let size = groups.flat().reduce((sum, turn) => sum + turnSize(turn), 0);
+    const dropped: ChatTurn[] = [];
+    while (groups.length > 1 && size > maxChars) {
+      const oldest = groups.shift()!;
+      size -= oldest.reduce((sum, turn) => sum + turnSize(turn), 0);
+      dropped.push(...oldest);
+    }
+
+    const summary = [...conversation.summary, ...dropped.flatMap(summarize)];
+    while (summary.join('\n').length > MAX_SUMMARY_CHARS) summary.shift();
+    return { summary, turns: groups.flat() };
+  },
+
+  /**
+   * Summary of the trimmed turns for the system instruction, or null when nothing was trimmed.
+   */
+  describeSummary(conversation: Conversation): string | null {
+    return conversation.summary.length > 0 ? conversation.summary.join('\n') : null;
+  }
+};
@@ -0,0 +1,326 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityState, DataFlowPacket, FlowRoute, FlowTrace, HubNode, RouteNode, RouteStatus, TransitHubId } from '../types';
+import { TransitProfiles, TransitEngine } from './simulation/transit';
+import { RoutingEngine } from './simulation/routing';
+import { FlowTracer } from './simulation/tracer';
+
+/** Side of the square the radial layout is drawn in. */
+export const DIAGRAM_SIZE = 400;
+
+/** Distance of the districts from the Metro Core. */
+const HUB_RADIUS = 145;
+
+/** Health (%) below which exports mark a district as degraded. */
+const DEGRADED_HEALTH = 50;
+
+const OFFLINE_COLOR = '#ef4444';
+const DEGRADED_COLOR = '#D97706';
+const ROUTED_COLOR = '#FFD93D';
+const ROAD_COLOR = '#d6d3d1';
+
+const ROUTE_COLORS: Record<RouteStatus, string> = {
+  nominal: '#a8a29e',
+  rerouted: ROUTED_COLOR,
+  degraded: '#fb923c',
+  broken: OFFLINE_COLOR
+};
+
+/**
+ * Position of the `index`-th of `count` districts, clockwise from the top.
+ */
+export const hubPosition = (index: number, count: number) => {
+  const angle = (index * (360 / count) - 90) * (Math.PI / 180);
+  return {
+    x: DIAGRAM_SIZE / 2 + Math.cos(angle) * HUB_RADIUS,
+    y: DIAGRAM_SIZE / 2 + Math.sin(angle) * HUB_RADIUS
+  };
+};
+
+/**
+ * Hex colour of a district's Tailwind background class.
+ */
+export const districtColor = (colorClass: string) => {
+  if (colorClass.includes('indigo')) return '#4F46E5';
+  if (colorClass.includes('blue')) return '#2563EB';
+  if (colorClass.includes('emerald')) return '#10B981';
+  if (colorClass.includes('rose')) return '#E11D48';
+  if (colorClass.includes('amber')) return '#D97706';
+  if (colorClass.includes('violet')) return '#7C3AED';
+  if (colorClass.includes('teal')) return '#0D9488';
+  if (colorClass.includes('sky')) return '#0284C7';
+  if (colorClass.includes('pink')) return '#DB2777';
+  if (colorClass.includes('slate')) return '#475569';
+  return '#C5A059';
+};
+
+type DistrictCondition = 'online' | 'degraded' | 'offline';
+
+const conditionOf = (state: CityState, hub: HubNode): DistrictCondition => {
+  const status = state.districts[hub.id];
+  if (!status?.isActive) return 'offline';
+  return status.health < DEGRADED_HEALTH ? 'degraded' : 'online';
+};
+
+const xml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const dotString = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const mermaidText = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+
+const slug = (text: string) => text.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+const platformNode = (district: string, platform: string) => `${district}__${slug(platform)}`;
+
+const hubNode = (hub: TransitHubId) => `hub_${slug(hub)}`;
+
+/**
+ * Declared flows drawn in text exports: each source platform, the hub
+ * carrying the flow now (or none on point-to-point roads), and its targets.
+ */
+const drawableFlows = (topology: readonly HubNode[], flows: readonly DataFlowPacket[], routes: readonly FlowRoute[]) =>
+  flows.flatMap(flow => {
+    const hasPlatform = (district: string, platform: string) =>
+      topology.some(h => h.id === district && h.subPlatforms.some(p => p.name === platform));
+    if (!hasPlatform(flow.source.district, flow.source.platform)) return [];
+    const route = routes.find(r => r.flowId === flow.id);
+    return [{
+      flow,
+      carrier: route?.carrier ?? flow.transit.hub,
+      status: route?.status ?? 'nominal',
+      targets: flow.targets.filter(t => hasPlatform(t.district, t.platform))
+    }];
+  });
+
+/**
+ * Exports of the city grid topology for documentation: a standalone SVG or
+ * PNG of the radial diagram with live district status, and Mermaid or DOT
+ * text of the districts, roads and flows.
+ */
+export const DiagramExporter = {
+  /**
+   * Standalone SVG of the radial topology diagram as currently displayed:
+   * district status colouring, roads carrying rerouted packets, the transit
+   * mix at the Metro Core and, when given, a traced flow's path.
+   */
+  toSvg(state: CityState, routes: readonly FlowRoute[], trace: FlowTrace | null = null): string {
+    const hubs = state.topology;
+    const width = DIAGRAM_SIZE + 160;
+    const height = DIAGRAM_SIZE + 260;
+    const offset = { x: 80, y: 120 };
+    const positions = hubs.map((_, i) => hubPosition(i, hubs.length));
+    const at = (i: number) => ({ x: positions[i].x + offset.x, y: positions[i].y + offset.y });
+    const center = { x: DIAGRAM_SIZE / 2 + offset.x, y: DIAGRAM_SIZE / 2 + offset.y };
+    const routed = RoutingEngine.activeConnections(routes);
+    const mix = TransitEngine.mix(state.transit.weights);
+    const impacted = routes.filter(r => r.status !== 'nominal').length;
+    const parts: string[] = [];
+
+    const drawn = new Set<string>();
+    hubs.forEach((hub, i) => hub.connections.forEach(targetId => {
+      const pair = [hub.id, targetId].sort().join('-');
+      const j = hubs.findIndex(h => h.id === targetId);
+      if (j < 0 || drawn.has(pair)) return;
+      drawn.add(pair);
+      const isUp = state.districts[hub.id]?.isActive && state.districts[targetId]?.isActive;
+      const isRouted = routed.has(pair);
+      const [a, b] = [at(i), at(j)];
+      parts.push(`<line x1="${a.x.toFixed(1)}" y1="${a.y.toFixed(1)}" x2="${b.x.toFixed(1)}" y2="${b.y.toFixed(1)}" stroke="${!isUp ? OFFLINE_COLOR : isRouted ? ROUTED_COLOR : ROAD_COLOR}" stroke-width="${isRouted ? 2 : 1}"${isUp ? '' : ' stroke-dasharray="5,5"'} />`);
+    }));
+
+    if (trace) {
+      const position = (node: RouteNode) => node.kind === 'transit' ? center : at(hubs.findIndex(h => h.id === node.id));
+      trace.legs.forEach(leg => leg.steps.slice(1).forEach((step, i) => {
+        const [a, b] = [position(leg.steps[i].node), position(step.node)];
+        if (!a || !b) return;
+        parts.push(`<line x1="${a.x.toFixed(1)}" y1="${a.y.toFixed(1)}" x2="${b.x.toFixed(1)}" y2="${b.y.toFixed(1)}" stroke="${step.status === 'failed' ? OFFLINE_COLOR : ROUTED_COLOR}" stroke-width="3" stroke-linecap="round"${step.status === 'failed' ? ' stroke-dasharray="4,4"' : ''} />`);
+      }));
+    }
+
+    parts.push(
+      `<circle cx="${center.x}" cy="${center.y}" r="72" fill="#ffffff" stroke="${state.simulationActive ? '#FF6B6B' : '#C5A059'}" stroke-width="2" stroke-dasharray="6,4" />`,
+      `<text x="${center.x}" y="${center.y - 18}" text-anchor="middle" font-size="8" font-weight="700" letter-spacing="2" fill="#a8a29e">METRO CORE</text>`,
+      `<text x="${center.x}" y="${center.y + 4}" text-anchor="middle" font-size="18" font-weight="700" fill="#FF6B6B">${xml((mix[0]?.hub ?? 'Manual').toUpperCase())}</text>`
+    );
+    if (mix.length > 1) {
+      parts.push(`<text x="${center.x}" y="${center.y + 20}" text-anchor="middle" font-size="8" fill="#a8a29e">${xml(mix.slice(1).map(s => `+${s.hub} ${Math.round(s.share * 100)}%`).join(' '))}</text>`);
+    }
+    if (impacted > 0) {
+      parts.push(`<text x="${center.x}" y="${center.y + 34}" text-anchor="middle" font-size="8" font-weight="700" fill="#f87171">${impacted} FLOW${impacted > 1 ? 'S' : ''} IMPACTED</text>`);
+    }
+
+    const traced = trace ? FlowTracer.nodes(trace) : null;
+    hubs.forEach((hub, i) => {
+      const { x, y } = at(i);
+      const status = state.districts[hub.id];
+      const condition = conditionOf(state, hub);
+      const fill = condition === 'offline' ? OFFLINE_COLOR : districtColor(hub.color);
+      const opacity = traced && !traced.has(`district:${hub.id}`) ? 0.25 : 1;
+      parts.push(
+        `<g opacity="${opacity}">`,
+        `<rect x="${x - 32}" y="${y - 32}" width="64" height="64" rx="22" fill="${fill}"${condition === 'degraded' ? ` stroke="${DEGRADED_COLOR}" stroke-width="3"` : ''} />`,
+        `<text x="${x}" y="${y + 4}" text-anchor="middle" font-size="11" font-weight="700" fill="#ffffff">${xml(hub.id)}</text>`,
+        `<text x="${x}" y="${y + 46}" text-anchor="middle" font-size="10" font-weight="700" fill="#1c1917">${xml(hub.label)}</text>`,
+        `<text x="${x}" y="${y + 58}" text-anchor="middle" font-size="8" fill="${condition === 'online' ? '#78716c' : condition === 'degraded' ? DEGRADED_COLOR : OFFLINE_COLOR}">${
+          condition === 'offline' ? 'OFFLINE' : `${status.health.toFixed(0)}% health · ${status.load.toFixed(0)}% load`}</text>`,
+        '</g>'
+      );
+    });
+
+    const legend: [string, string][] = [[ROAD_COLOR, 'Road'], [ROUTED_COLOR, 'Carrying rerouted packets'], [OFFLINE_COLOR, 'Offline'], [DEGRADED_COLOR, 'Degraded']];
+    legend.forEach(([color, label], i) => {
+      const x = 40 + i * 125;
+      parts.push(
+        `<rect x="${x}" y="${height - 46}" width="10" height="10" rx="3" fill="${color}" />`,
+        `<text x="${x + 16}" y="${height - 37}" font-size="9" fill="#78716c">${xml(label)}</text>`
+      );
+    });
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+      `<rect width="${width}" height="${height}" fill="#fafaf9" />`,
+      `<text x="${width / 2}" y="52" text-anchor="middle" font-size="28" font-weight="700" font-family="Georgia, serif" fill="#1c1917">City Grid Topology</text>`,
+      `<text x="${width / 2}" y="76" text-anchor="middle" font-size="9" letter-spacing="2" fill="#a8a29e">${xml(
+        `${trace ? `TRACING ${trace.flowId.toUpperCase()} · ` : ''}T+${state.clock.elapsed}S · SEED ${state.clock.seed} · ${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC`)}</text>`,
+      ...parts,
+      '</svg>'
+    ].join('\n');
+  },
+
+  /**
+   * Rasterizes an SVG produced by `toSvg` to a PNG at `scale` times its size.
+   * Browser only: draws through an image and a canvas.
+   */
+  async toPng(svg: string, scale: number = 2): Promise<Blob> {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    try {
+      const image = new Image();
+      await new Promise<void>((resolve, reject) => {
+        image.onload = () => resolve();
+        image.onerror = () => reject(new Error('The diagram could not be rendered.'));
+        image.src = url;
+      });
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width * scale;
+      canvas.height = image.height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas is not available.');
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0);
+      return await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed.')), 'image/png'));
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  },
+
+  /**
+   * Mermaid flowchart: a subgraph per district holding its sub-platforms,
+   * roads between subgraphs, and flows as dotted links through the hub
+   * carrying them. District status is applied as subgraph styles. Without
+   * flows the output reads back through the topology importer unchanged.
+   */
+  toMermaid(
+    state: CityState,
+    flows: readonly DataFlowPacket[],
+    routes: readonly FlowRoute[],
+    profiles: TransitProfiles,
+    includeFlows: boolean = true
+  ): string {
+    const lines = [`%% FlashFusion city grid, T+${state.clock.elapsed}s (seed ${state.clock.seed})`, 'flowchart LR'];
+
+    state.topology.forEach(hub => {
+      lines.push(`  subgraph ${hub.id} [${mermaidText(hub.label)}]`);
+      hub.subPlatforms.forEach(p => lines.push(`    ${platformNode(hub.id, p.name)}[${mermaidText(p.name)}]`));
+      lines.push('  end');
+    });
+    state.topology.forEach(hub => hub.connections.forEach(target => lines.push(`  ${hub.id} --> ${target}`)));
+
+    if (includeFlows) {
+      const drawable = drawableFlows(state.topology, flows, routes);
+      const carriers = Array.from(new Set(drawable.map(d => d.carrier).filter(c => c !== 'Manual')));
+      if (drawable.length > 0) lines.push('  %% Flows');
+      carriers.forEach(hub => lines.push(`  ${hubNode(hub)}{{${mermaidText(profiles[hub]?.label ?? hub)}}}`));
+      drawable.forEach(({ flow, carrier, targets }) => {
+        const source = platformNode(flow.source.district, flow.source.platform);
+        const label = `|${mermaidText(flow.label)}|`;
+        if (carrier === 'Manual') {
+          targets.forEach(t => lines.push(`  ${source} -.->${label} ${platformNode(t.district, t.platform)}`));
+        } else {
+          lines.push(`  ${source} -.->${label} ${hubNode(carrier)}`);
+          targets.forEach(t => lines.push(`  ${hubNode(carrier)} -.-> ${platformNode(t.district, t.platform)}`));
+        }
+      });
+    }
+
+    state.topology.forEach(hub => {
+      const condition = conditionOf(state, hub);
+      const style = condition === 'offline' ? `fill:#fee2e2,stroke:${OFFLINE_COLOR}`
+        : condition === 'degraded' ? `fill:#fef3c7,stroke:${DEGRADED_COLOR}`
+        : `fill:#fafaf9,stroke:${districtColor(hub.color)}`;
+      lines.push(`  style ${hub.id} ${style}`);
+    });
+    return `${lines.join('\n')}\n`;
+  },
+
+  /**
+   * Graphviz digraph: a cluster per district holding its sub-platforms, roads
+   * between clusters, and flows as dashed edges coloured by route status.
+   * Without flows the output reads back through the topology importer unchanged.
+   */
+  toDot(
+    state: CityState,
+    flows: readonly DataFlowPacket[],
+    routes: readonly FlowRoute[],
+    profiles: TransitProfiles,
+    includeFlows: boolean = true
+  ): string {
+    const lines = [
+      `// FlashFusion city grid, T+${state.clock.elapsed}s (seed ${state.clock.seed})`,
+      'digraph flashfusion {',
+      '  graph [rankdir=LR, compound=true, fontname="Helvetica"];',
+      '  node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="Helvetica", fontsize=10];'
+    ];
+    // Roads join clusters, which Graphviz draws between one node of each
+    const anchor = (hub: HubNode) => hub.subPlatforms.length > 0 ? platformNode(hub.id, hub.subPlatforms[0].name) : hub.id;
+
+    state.topology.forEach(hub => {
+      const condition = conditionOf(state, hub);
+      lines.push(`  subgraph cluster_${hub.id} {`);
+      lines.push(`    label=${dotString(hub.label)};`);
+      lines.push(`    style="rounded,filled"; color=${dotString(condition === 'offline' ? OFFLINE_COLOR : condition === 'degraded' ? DEGRADED_COLOR : districtColor(hub.color))}; fillcolor=${dotString(condition === 'offline' ? '#fee2e2' : condition === 'degraded' ? '#fef3c7' : '#fafaf9')};`);
+      if (hub.subPlatforms.length === 0) lines.push(`    ${hub.id} [shape=point, style=invis];`);
+      hub.subPlatforms.forEach(p => lines.push(`    ${platformNode(hub.id, p.name)} [label=${dotString(p.name)}, tooltip=${dotString(p.role)}];`));
+      lines.push('  }');
+    });
+
+    state.topology.forEach(hub => hub.connections.forEach(targetId => {
+      const target = state.topology.find(h => h.id === targetId);
+      if (target) lines.push(`  ${anchor(hub)} -> ${anchor(target)} [ltail=cluster_${hub.id}, lhead=cluster_${target.id}];`);
+    }));
+
+    if (includeFlows) {
+      const drawable = drawableFlows(state.topology, flows, routes);
+      const carriers = Array.from(new Set(drawable.map(d => d.carrier).filter(c => c !== 'Manual')));
+      if (drawable.length > 0) lines.push('  // Flows');
+      carriers.forEach(hub => lines.push(`  ${hubNode(hub)} [label=${dotString(profiles[hub]?.label ?? hub)}, shape=hexagon];`));
+      drawable.forEach(({ flow, carrier, status, targets }) => {
+        const source = platformNode(flow.source.district, flow.source.platform);
+        const edge = `style=dashed, color=${dotString(ROUTE_COLORS[status])}`;
+        if (carrier === 'Manual') {
+          targets.forEach(t => lines.push(`  ${source} -> ${platformNode(t.district, t.platform)} [label=${dotString(flow.label)}, ${edge}];`));
+        } else {
+          lines.push(`  ${source} -> ${hubNode(carrier)} [label=${dotString(flow.label)}, ${edge}];`);
+          targets.forEach(t => lines.push(`  ${hubNode(carrier)} -> ${platformNode(t.district, t.platform)} [${edge}];`));
+        }
+      });
+    }
+
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+  }
+};
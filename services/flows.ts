@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DataFlowPacket, FlowHop, HubId, HubNode, TransitHubId, TransitHubProfile } from '../types';
+
+/**
+ * A problem found in a flow definition.
+ */
+export interface FlowIssue {
+  readonly flowId: string;
+  readonly message: string;
+}
+
+/** Districts reachable from `from` over declared connections, either direction. */
+const reachable = (hubs: readonly HubNode[], from: HubId): Set<HubId> => {
+  const seen = new Set<HubId>([from]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    hubs.forEach(hub => {
+      const neighbour = hub.id === current ? hub.connections : hub.connections.includes(current) ? [hub.id] : [];
+      neighbour.filter(id => !seen.has(id)).forEach(id => {
+        seen.add(id);
+        queue.push(id);
+      });
+    });
+  }
+  return seen;
+};
+
+const formatHop = (hop: FlowHop) => `${hop.platform} ${hop.payload}`;
+
+/**
+ * Structured flow definitions: rendering, expected latency and validation
+ * against the district topology.
+ */
+export const FlowCatalog = {
+  /**
+   * Renders a flow as e.g. "Stripe Webhook → n8n Metro → HubSpot Deal + PostHog Event".
+   */
+  describe(flow: DataFlowPacket, profiles: Readonly<Record<TransitHubId, TransitHubProfile>>): string {
+    return `${formatHop(flow.source)} → ${profiles[flow.transit.hub]?.label ?? flow.transit.hub} → ${flow.targets.map(formatHop).join(' + ')}`;
+  },
+
+  /**
+   * Expected end-to-end latency in milliseconds: source, transit, then the
+   * slowest of the targets, which are served in parallel.
+   */
+  expectedLatency(flow: DataFlowPacket): number {
+    return flow.source.expectedLatencyMs + flow.transit.expectedLatencyMs
+      + Math.max(0, ...flow.targets.map(t => t.expectedLatencyMs));
+  },
+
+  /**
+   * Checks every flow against the districts, their platforms and connections,
+   * and the transit hubs. Returns an empty list when all flows are sound.
+   */
+  validate(
+    flows: readonly DataFlowPacket[],
+    hubs: readonly HubNode[],
+    profiles: Readonly<Record<TransitHubId, TransitHubProfile>>
+  ): FlowIssue[] {
+    const issues: FlowIssue[] = [];
+    const seen = new Set<string>();
+
+    flows.forEach(flow => {
+      const report = (message: string) => issues.push({ flowId: flow.id, message });
+      if (seen.has(flow.id)) report('Duplicate flow id.');
+      seen.add(flow.id);
+      if (!(flow.arrivalRate > 0)) report('Arrival rate must be positive.');
+
+      const checkHop = (hop: FlowHop, role: string) => {
+        const district = hubs.find(h => h.id === hop.district);
+        if (!district) return report(`${role} district ${hop.district} does not exist.`);
+        if (!district.subPlatforms.some(p => p.name === hop.platform)) {
+          report(`${hop.platform} is not a platform of ${hop.district}.`);
+        }
+        if (!(hop.expectedLatencyMs >= 0)) report(`${role} ${hop.platform} has no valid expected latency.`);
+      };
+      checkHop(flow.source, 'Source');
+      flow.targets.forEach(t => checkHop(t, 'Target'));
+
+      const hub = profiles[flow.transit.hub];
+      if (!hub) report(`Transit hub ${flow.transit.hub} does not exist.`);
+      else if (!hub.carries.includes(flow.type)) report(`${hub.label} does not carry ${flow.type} flows.`);
+      if (!(flow.transit.expectedLatencyMs >= 0)) report('Transit has no valid expected latency.');
+
+      if (flow.targets.length === 0) report('Flow has no target.');
+      const targets = flow.targets.map(t => t.district);
+      if (targets.includes(flow.source.district)) report('Flow targets its own source district.');
+      if (new Set(targets).size < targets.length) report('Flow targets a district twice.');
+      if (flow.origin !== flow.source.district || flow.destinations.join() !== targets.join()) {
+        report('Origin and destinations disagree with the hops.');
+      }
+
+      // Point-to-point roads are the last fallback, so every target must be connected to the source
+      if (!hubs.some(h => h.id === flow.source.district)) return;
+      const connected = reachable(hubs, flow.source.district);
+      targets.filter(id => hubs.some(h => h.id === id) && !connected.has(id))
+        .forEach(id => report(`${id} is not connected to ${flow.source.district}.`));
+    });
+
+    return issues;
+  },
+
+  /**
+   * Adds `incoming` to `flows`, replacing flows with the same ID.
+   */
+  merge(flows: readonly DataFlowPacket[], incoming: readonly DataFlowPacket[]): DataFlowPacket[] {
+    return [...flows.filter(f => !incoming.some(i => i.id === f.id)), ...incoming];
+  },
+
+  /**
+   * Flows without issues on the given topology. The others sit idle until
+   * their districts, platforms and roads are back.
+   */
+  runnable(
+    flows: readonly DataFlowPacket[],
+    hubs: readonly HubNode[],
+    profiles: Readonly<Record<TransitHubId, TransitHubProfile>>
+  ): DataFlowPacket[] {
+    const idle = new Set(this.validate(flows, hubs, profiles).map(issue => issue.flowId));
+    return flows.filter(flow => !idle.has(flow.id));
+  }
+};
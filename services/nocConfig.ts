@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_NOC_CONFIG } from '../data/content';
+import { CityState, CrisisRule, DistrictStatus, FlowRoute, HubId, NocConfig, NocFormulas, NocMetric } from '../types';
+
+/** Largest weight a district can carry in the city health score. */
+export const MAX_DISTRICT_WEIGHT = 3;
+
+/** Weight of a district without a configured one, such as a district added at runtime. */
+export const DEFAULT_DISTRICT_WEIGHT = 1;
+
+export const NOC_METRICS: Readonly<Record<NocMetric, { label: string; unit: string }>> = {
+  'broken-flows': { label: 'Broken flows', unit: '' },
+  'degraded-flows': { label: 'Degraded flows', unit: '' },
+  'offline-districts': { label: 'Offline districts', unit: '' },
+  'city-health': { label: 'Weighted city health', unit: '%' },
+  'integrity': { label: 'System integrity', unit: '%' },
+  'latency': { label: 'Latency', unit: 'ms' },
+  'critical-alerts': { label: 'Critical alerts firing', unit: '' }
+};
+
+const INTEGRITY_FORMULAS: readonly NocFormulas['integrity'][] = ['packet-delivery', 'weighted-health', 'lowest'];
+const PERCENTILES: readonly NocFormulas['latencyPercentile'][] = ['p50', 'p95', 'p99'];
+
+/** Reading of every NOC metric at one moment. */
+export type NocReadings = Readonly<Record<NocMetric, number>>;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** Reads a key set on the object itself, so stored keys like "toString" find nothing inherited. */
+const own = (object: unknown, key: string): any =>
+  object && typeof object === 'object' && Object.hasOwn(object, key) ? (object as Record<string, unknown>)[key] : undefined;
+
+/**
+ * Operator-configurable NOC model: turns simulation state into the readings the
+ * dashboard shows, and decides crisis mode from the configured rules.
+ */
+export const NocConfigModel = {
+  /**
+   * Weighted mean of district health, counting offline districts as 0.
+   */
+  cityHealth(config: NocConfig, districts: Readonly<Record<HubId, DistrictStatus>>): number {
+    const entries = Object.values(districts) as DistrictStatus[];
+    const weight = (id: HubId) => config.districtWeights[id] ?? DEFAULT_DISTRICT_WEIGHT;
+    const total = entries.reduce((acc, d) => acc + weight(d.id), 0);
+    if (total <= 0) return 100;
+    return entries.reduce((acc, d) => acc + weight(d.id) * (d.isActive ? d.health : 0), 0) / total;
+  },
+
+  measure(config: NocConfig, state: CityState, routes: readonly FlowRoute[]): NocReadings {
+    const cityHealth = this.cityHealth(config, state.districts);
+    const delivery = state.telemetry.integrity;
+    const integrity = config.formulas.integrity === 'packet-delivery' ? delivery
+      : config.formulas.integrity === 'weighted-health' ? cityHealth
+      : Math.min(delivery, cityHealth);
+
+    return {
+      'broken-flows': routes.filter(r => r.status === 'broken').length,
+      'degraded-flows': routes.filter(r => r.status === 'degraded').length,
+      'offline-districts': (Object.values(state.districts) as DistrictStatus[]).filter(d => !d.isActive).length,
+      'city-health': cityHealth,
+      'integrity': integrity,
+      'latency': state.telemetry.latency[config.formulas.latencyPercentile],
+      'critical-alerts': state.alerts.incidents.filter(i => i.resolvedAt === null && i.severity === 'critical').length
+    };
+  },
+
+  /**
+   * Enabled crisis rules currently matching.
+   */
+  crisis(config: NocConfig, readings: NocReadings): CrisisRule[] {
+    return config.crisisRules.filter(rule => rule.enabled && (rule.comparator === 'above'
+      ? readings[rule.metric] > rule.threshold
+      : readings[rule.metric] < rule.threshold));
+  },
+
+  /**
+   * Renders a rule as e.g. "Broken flows > 0".
+   */
+  describeRule(rule: CrisisRule): string {
+    const { label, unit } = NOC_METRICS[rule.metric];
+    return `${label} ${rule.comparator === 'above' ? '>' : '<'} ${rule.threshold}${unit}`;
+  },
+
+  /**
+   * Reads a stored configuration, falling back to the default for anything
+   * missing or invalid so a stale or hand-edited value never breaks the NOC.
+   */
+  parse(raw: unknown): NocConfig {
+    const value = (raw ?? {}) as Partial<Record<keyof NocConfig, any>>;
+    if (value.version !== DEFAULT_NOC_CONFIG.version) return DEFAULT_NOC_CONFIG;
+
+    // Weights of districts added at runtime are kept alongside the founding ones
+    const stored = value.districtWeights && typeof value.districtWeights === 'object' ? value.districtWeights : {};
+    const ids = new Set<HubId>([...Object.keys(DEFAULT_NOC_CONFIG.districtWeights), ...Object.keys(stored)]);
+    const districtWeights = Object.fromEntries(Array.from(ids).map(id => {
+      const weight = own(stored, id);
+      return [id, isNumber(weight) ? clamp(weight, 0, MAX_DISTRICT_WEIGHT) : own(DEFAULT_NOC_CONFIG.districtWeights, id) ?? DEFAULT_DISTRICT_WEIGHT];
+    })) as Record<HubId, number>;
+
+    const crisisRules = Array.isArray(value.crisisRules)
+      ? value.crisisRules.filter((rule: any): rule is CrisisRule =>
+        typeof rule?.id === 'string'
+        && typeof rule.metric === 'string'
+        && Object.hasOwn(NOC_METRICS, rule.metric)
+        && (rule.comparator === 'above' || rule.comparator === 'below')
+        && isNumber(rule.threshold)
+        && typeof rule.enabled === 'boolean')
+      : DEFAULT_NOC_CONFIG.crisisRules;
+
+    const formulas: NocFormulas = {
+      integrity: INTEGRITY_FORMULAS.includes(own(value.formulas, 'integrity')) ? value.formulas.integrity : DEFAULT_NOC_CONFIG.formulas.integrity,
+      latencyPercentile: PERCENTILES.includes(own(value.formulas, 'latencyPercentile')) ? value.formulas.latencyPercentile : DEFAULT_NOC_CONFIG.formulas.latencyPercentile
+    };
+
+    return { version: 1, districtWeights, crisisRules, formulas };
+  }
+};
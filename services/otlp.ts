@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TRANSIT_HUB_IDS } from '../data/content';
+import { DataFlowPacket, HubId, RecordedTrace, RouteNode, TraceHop, TraceServiceMapping, TraceSpan } from '../types';
+
+/** Span attributes that pin a span to a district or hub, overriding the service mapping. */
+const DISTRICT_ATTRIBUTE = 'flashfusion.district';
+const HUB_ATTRIBUTE = 'flashfusion.hub';
+
+/** OTLP status code of a failed span. */
+const STATUS_ERROR = 2;
+
+/**
+ * Reads an OTLP AnyValue. Arrays and maps are kept as JSON text.
+ */
+const anyValue = (value: any): string | number | boolean => {
+  if (value == null) return '';
+  if ('stringValue' in value) return String(value.stringValue);
+  if ('boolValue' in value) return Boolean(value.boolValue);
+  if ('intValue' in value) return Number(value.intValue);
+  if ('doubleValue' in value) return Number(value.doubleValue);
+  if ('arrayValue' in value) return JSON.stringify((value.arrayValue?.values ?? []).map(anyValue));
+  if ('kvlistValue' in value) return JSON.stringify(attributes(value.kvlistValue?.values));
+  return '';
+};
+
+const attributes = (list: any): Record<string, string | number | boolean> =>
+  Object.fromEntries((Array.isArray(list) ? list : [])
+    .filter(kv => typeof kv?.key === 'string')
+    .map(kv => [kv.key, anyValue(kv.value)]));
+
+/**
+ * Nanosecond timestamps exceed the integers a double holds exactly, so they are
+ * cut to microseconds as BigInt first; epoch microseconds still fit.
+ */
+const toMs = (nanos: unknown, field: string): number => {
+  try {
+    return Number(BigInt(nanos as string | number) / 1000n) / 1000;
+  } catch {
+    throw new Error(`Span has no valid ${field}.`);
+  }
+};
+
+const words = (service: string) => service.toLowerCase().split(/[-_.\s/]+/);
+
+const sameNode = (a: RouteNode, b: RouteNode) => a.kind === b.kind && a.id === b.id;
+
+/**
+ * Declared flow whose origin starts the trace and whose destinations include
+ * every other district it reaches.
+ */
+const matchFlow = (hops: readonly TraceHop[], flows: readonly DataFlowPacket[]): string | undefined => {
+  const districts = hops.flatMap(h => h.node.kind === 'district' ? [h.node.id] : []);
+  if (districts.length < 2) return undefined;
+  const [origin, ...reached] = districts;
+  return flows.find(f => f.origin === origin && reached.every(id => id === origin || f.destinations.includes(id)))?.id;
+};
+
+/**
+ * OpenTelemetry trace import. Parses OTLP/JSON exports and lays each trace out
+ * as the sequence of districts and transit hubs its spans passed through.
+ */
+export const TraceImporter = {
+  /**
+   * Flattens an OTLP/JSON export (`resourceSpans` → `scopeSpans` → `spans`) into spans.
+   * Also accepts the older `instrumentationLibrarySpans` nesting.
+   */
+  parse(json: string): TraceSpan[] {
+    let raw: any;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error('Trace file is not valid JSON.');
+    }
+    if (!Array.isArray(raw?.resourceSpans)) throw new Error('Trace file has no resourceSpans; expected an OTLP/JSON export.');
+
+    return raw.resourceSpans.flatMap((resourceSpans: any) => {
+      const resource = attributes(resourceSpans?.resource?.attributes);
+      const service = String(resource['service.name'] ?? 'unknown_service');
+      const scopes = resourceSpans?.scopeSpans ?? resourceSpans?.instrumentationLibrarySpans ?? [];
+
+      return scopes.flatMap((scope: any) => (scope?.spans ?? []).map((span: any): TraceSpan => {
+        if (!span?.traceId || !span?.spanId) throw new Error(`A span of ${service} has no traceId or spanId.`);
+        return {
+          traceId: String(span.traceId),
+          spanId: String(span.spanId),
+          ...(span.parentSpanId ? { parentSpanId: String(span.parentSpanId) } : {}),
+          name: String(span.name ?? ''),
+          service,
+          startMs: toMs(span.startTimeUnixNano, 'startTimeUnixNano'),
+          endMs: toMs(span.endTimeUnixNano, 'endTimeUnixNano'),
+          attributes: attributes(span.attributes),
+          isError: span.status?.code === STATUS_ERROR || span.status?.code === 'STATUS_CODE_ERROR'
+        };
+      }));
+    });
+  },
+
+  /**
+   * District or hub a span ran in: its pinning attribute if set, else the
+   * first mapping matching a word of its service name.
+   */
+  locate(span: TraceSpan, mappings: readonly TraceServiceMapping[], districts: readonly HubId[]): RouteNode | null {
+    const district = districts.find(id => id === span.attributes[DISTRICT_ATTRIBUTE]);
+    if (district) return { kind: 'district', id: district };
+    const hub = TRANSIT_HUB_IDS.find(id => id === span.attributes[HUB_ATTRIBUTE]);
+    if (hub) return { kind: 'transit', id: hub };
+
+    const serviceWords = words(span.service);
+    return mappings.find(m => serviceWords.includes(m.service.toLowerCase()))?.node ?? null;
+  },
+
+  /**
+   * Groups spans into traces, longest first. Spans are taken in start order
+   * and consecutive spans on the same district or hub form one hop.
+   */
+  toTraces(
+    spans: readonly TraceSpan[],
+    mappings: readonly TraceServiceMapping[],
+    flows: readonly DataFlowPacket[],
+    districts: readonly HubId[]
+  ): RecordedTrace[] {
+    const byTrace = new Map<string, TraceSpan[]>();
+    spans.forEach(span => byTrace.set(span.traceId, [...(byTrace.get(span.traceId) ?? []), span]));
+
+    return Array.from(byTrace, ([traceId, traceSpans]): RecordedTrace => {
+      const ordered = [...traceSpans].sort((a, b) => a.startMs - b.startMs);
+      const start = ordered[0].startMs;
+      const end = Math.max(...ordered.map(s => s.endMs));
+      const root = ordered.find(s => !s.parentSpanId || !traceSpans.some(p => p.spanId === s.parentSpanId)) ?? ordered[0];
+
+      const hops: TraceHop[] = [];
+      const unmapped = new Set<string>();
+      ordered.forEach(span => {
+        const node = this.locate(span, mappings, districts);
+        if (!node) {
+          unmapped.add(span.service);
+          return;
+        }
+        const last = hops[hops.length - 1];
+        if (last && sameNode(last.node, node)) {
+          hops[hops.length - 1] = {
+            ...last,
+            durationMs: Math.max(last.offsetMs + last.durationMs, span.endMs - start) - last.offsetMs,
+            isError: last.isError || span.isError
+          };
+        } else {
+          hops.push({ node, service: span.service, operation: span.name, offsetMs: span.startMs - start, durationMs: span.endMs - span.startMs, isError: span.isError });
+        }
+      });
+
+      const flowId = matchFlow(hops, flows);
+      return {
+        traceId,
+        label: root.name || root.service,
+        ...(flowId ? { flowId } : {}),
+        durationMs: end - start,
+        hops,
+        unmappedServices: Array.from(unmapped)
+      };
+    })
+      .filter(trace => trace.hops.length > 0)
+      .sort((a, b) => b.durationMs - a.durationMs);
+  },
+
+  /**
+   * Milliseconds until the next hop starts, or the hop's own duration for the last:
+   * the latency the trace spent at each stop.
+   */
+  hopLatency(trace: RecordedTrace, index: number): number {
+    const next = trace.hops[index + 1];
+    const hop = trace.hops[index];
+    return next ? next.offsetMs - hop.offsetMs : hop.durationMs;
+  }
+};
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TRANSIT_HUB_IDS } from '../data/content';
+import { HubId, MetricMapping, ObservedTelemetry, PrometheusSample, TransitHubId } from '../types';
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*/;
+
+const AGGREGATES: readonly MetricMapping['aggregate'][] = ['avg', 'sum', 'min', 'max'];
+
+const parseValue = (text: string): number => {
+  switch (text) {
+    case 'NaN': return NaN;
+    case '+Inf': return Infinity;
+    case '-Inf': return -Infinity;
+    default: {
+      const value = Number(text);
+      if (text === '' || Number.isNaN(value)) throw new Error(`"${text}" is not a number`);
+      return value;
+    }
+  }
+};
+
+/**
+ * Reads a `{name="value",...}` label set starting at `line[0] === '{'`.
+ * Returns the labels and the remainder of the line.
+ */
+const parseLabels = (line: string): [Record<string, string>, string] => {
+  const labels: Record<string, string> = {};
+  let rest = line.slice(1).trimStart();
+
+  while (!rest.startsWith('}')) {
+    const name = LABEL_NAME.exec(rest)?.[0];
+    if (!name) throw new Error('expected a label name');
+    rest = rest.slice(name.length).trimStart();
+    if (!rest.startsWith('="')) throw new Error(`expected ="…" after label ${name}`);
+
+    let value = '';
+    let i = 2;
+    for (; i < rest.length && rest[i] !== '"'; i++) {
+      if (rest[i] === '\\') {
+        const escaped = rest[++i];
+        value += escaped === 'n' ? '\n' : escaped;
+      } else {
+        value += rest[i];
+      }
+    }
+    if (i >= rest.length) throw new Error(`unterminated value of label ${name}`);
+    labels[name] = value;
+
+    rest = rest.slice(i + 1).trimStart();
+    if (rest.startsWith(',')) rest = rest.slice(1).trimStart();
+    else if (!rest.startsWith('}')) throw new Error('expected , or } in label set');
+  }
+  return [labels, rest.slice(1)];
+};
+
+const parseLine = (line: string): PrometheusSample => {
+  const name = METRIC_NAME.exec(line)?.[0];
+  if (!name) throw new Error('expected a metric name');
+
+  let rest = line.slice(name.length).trimStart();
+  let labels: Record<string, string> = {};
+  if (rest.startsWith('{')) [labels, rest] = parseLabels(rest);
+
+  const [value, timestamp, ...extra] = rest.trim().split(/\s+/);
+  if (value === undefined || value === '') throw new Error(`sample ${name} has no value`);
+  if (extra.length > 0) throw new Error(`unexpected "${extra.join(' ')}" after sample ${name}`);
+  return {
+    name,
+    labels,
+    value: parseValue(value),
+    ...(timestamp !== undefined ? { timestamp: parseValue(timestamp) } : {})
+  };
+};
+
+const aggregate = (kind: MetricMapping['aggregate'], values: readonly number[]): number => {
+  switch (kind) {
+    case 'sum': return values.reduce((acc, v) => acc + v, 0);
+    case 'min': return Math.min(...values);
+    case 'max': return Math.max(...values);
+    case 'avg': return values.reduce((acc, v) => acc + v, 0) / values.length;
+  }
+};
+
+const isTarget = (target: any, districts: readonly HubId[]): target is MetricMapping['target'] =>
+  (target?.kind === 'district' && districts.includes(target.id) && (target.field === 'load' || target.field === 'health'))
+  || (target?.kind === 'hub' && TRANSIT_HUB_IDS.includes(target.id) && target.field === 'health');
+
+/**
+ * Adapter from Prometheus text exposition to simulation readings: parses a
+ * scrape, then maps its series onto district and transit hub fields.
+ */
+export const PrometheusAdapter = {
+  /**
+   * Parses text exposition format 0.0.4. Comment, HELP and TYPE lines are
+   * skipped. Throws on the first malformed line, naming it, since a partly
+   * read scrape would silently drop series.
+   */
+  parse(text: string): PrometheusSample[] {
+    return text.split(/\r?\n/).flatMap((raw, i) => {
+      const line = raw.trim();
+      if (line === '' || line.startsWith('#')) return [];
+      try {
+        return [parseLine(line)];
+      } catch (e) {
+        throw new Error(`Line ${i + 1}: ${(e as Error).message}.`);
+      }
+    });
+  },
+
+  /**
+   * Samples a mapping selects: same metric name, every matcher label equal.
+   */
+  select(samples: readonly PrometheusSample[], mapping: MetricMapping): PrometheusSample[] {
+    return samples.filter(s => s.name === mapping.metric
+      && Object.entries(mapping.matchers).every(([label, value]) => s.labels[label] === value));
+  },
+
+  /**
+   * Applies every mapping to a scrape. Readings are clamped to 0-100; a
+   * mapping that selects no finite sample leaves its field synthetic.
+   */
+  resolve(samples: readonly PrometheusSample[], mappings: readonly MetricMapping[], origin: string): ObservedTelemetry {
+    const districts: Partial<Record<HubId, { load?: number; health?: number }>> = {};
+    const hubs: Partial<Record<TransitHubId, { health?: number }>> = {};
+
+    mappings.forEach(mapping => {
+      const values = this.select(samples, mapping).map(s => s.value).filter(Number.isFinite);
+      if (values.length === 0) return;
+      const reading = Math.min(100, Math.max(0, aggregate(mapping.aggregate, values) * mapping.scale));
+
+      const { target } = mapping;
+      if (target.kind === 'district') districts[target.id] = { ...districts[target.id], [target.field]: reading };
+      else hubs[target.id] = { ...hubs[target.id], [target.field]: reading };
+    });
+
+    return { origin, districts, hubs };
+  },
+
+  /**
+   * Number of district and hub fields a reading drives.
+   */
+  coverage(observed: ObservedTelemetry): number {
+    return [...Object.values(observed.districts), ...Object.values(observed.hubs)]
+      .reduce((acc, fields) => acc + Object.keys(fields ?? {}).length, 0);
+  },
+
+  /**
+   * Validates a mapping configuration written as JSON against the current districts.
+   */
+  parseMappings(json: string, districts: readonly HubId[]): MetricMapping[] {
+    let raw: any;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error('Mapping is not valid JSON.');
+    }
+    if (!Array.isArray(raw)) throw new Error('Mapping must be a list.');
+
+    return raw.map((m: any, i: number): MetricMapping => {
+      if (typeof m?.metric !== 'string' || !METRIC_NAME.test(m.metric)) throw new Error(`Mapping ${i} has no valid metric name.`);
+      if (!isTarget(m.target, districts)) throw new Error(`Mapping ${i} targets an unknown district, hub or field.`);
+      const matchers = m.matchers ?? {};
+      if (typeof matchers !== 'object' || Object.values(matchers).some(v => typeof v !== 'string')) {
+        throw new Error(`Mapping ${i} matchers must map label names to strings.`);
+      }
+      return {
+        metric: m.metric,
+        matchers,
+        aggregate: AGGREGATES.includes(m.aggregate) ? m.aggregate : 'avg',
+        scale: typeof m.scale === 'number' && Number.isFinite(m.scale) ? m.scale : 1,
+        target: m.target
+      };
+    });
+  }
+};
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  AlertMetric,
+  AlertRule,
+  AlertState,
+  DistrictStatus,
+  FlowRoute,
+  HubId,
+  Incident,
+  IncidentActor,
+  NetworkTelemetry
+} from '../../types';
+
+/** Seconds after resolving within which a recurring alert reopens its incident instead of opening a new one. */
+const REOPEN_WINDOW = 10;
+
+/** Incidents retained in the log; open incidents are kept regardless. */
+const MAX_INCIDENTS = 50;
+
+/** Subject of alerts on network-wide telemetry. */
+const NETWORK = 'network';
+
+/** Actions that change nothing about the city and so never resolve an incident. */
+const PASSIVE_ACTIONS: ReadonlySet<string> = new Set(['TICK', 'SET_PAUSED', 'SET_SPEED', 'ACK_INCIDENT']);
+
+const UNITS: Record<AlertMetric, string> = {
+  'district-offline': '',
+  'district-health': '%',
+  'district-load': '%',
+  'gpu-vram': ' GB',
+  'latency-p95': 'ms',
+  'integrity': '%',
+  'flows-broken': ' flows'
+};
+
+/**
+ * Telemetry the rules are evaluated against.
+ */
+export interface AlertContext {
+  readonly districts: Readonly<Record<HubId, DistrictStatus>>;
+  readonly telemetry: NetworkTelemetry;
+  readonly routes: readonly FlowRoute[];
+}
+
+interface Reading {
+  readonly subject: string;
+  readonly value: number;
+}
+
+const readings = (rule: AlertRule, { districts, telemetry, routes }: AlertContext): Reading[] => {
+  const scoped = (Object.values(districts) as DistrictStatus[]).filter(d => !rule.district || d.id === rule.district);
+  const online = scoped.filter(d => d.isActive);
+
+  switch (rule.metric) {
+    case 'district-offline': return scoped.map(d => ({ subject: d.id, value: d.isActive ? 0 : 1 }));
+    case 'district-health': return online.map(d => ({ subject: d.id, value: d.health }));
+    case 'district-load': return online.map(d => ({ subject: d.id, value: d.load }));
+    case 'gpu-vram': return online.flatMap(d => d.gpuAcceleration ? [{ subject: d.id, value: d.gpuAcceleration.vramUsed }] : []);
+    case 'latency-p95': return [{ subject: NETWORK, value: telemetry.latency.p95 }];
+    case 'integrity': return [{ subject: NETWORK, value: telemetry.integrity }];
+    case 'flows-broken': return [{ subject: NETWORK, value: routes.filter(r => r.status === 'broken').length }];
+  }
+};
+
+const breaches = (rule: AlertRule, value: number) =>
+  rule.comparator === 'above' ? value > rule.threshold : value < rule.threshold;
+
+const worst = (rule: AlertRule, a: number, b: number) =>
+  rule.comparator === 'above' ? Math.max(a, b) : Math.min(a, b);
+
+/**
+ * Drops the longest-resolved incidents until the log fits MAX_INCIDENTS.
+ */
+const retain = (incidents: readonly Incident[]): Incident[] => {
+  const excess = incidents.length - MAX_INCIDENTS;
+  if (excess <= 0) return [...incidents];
+  const dropped = new Set(incidents
+    .filter(i => i.resolvedAt !== null)
+    .sort((a, b) => a.resolvedAt! - b.resolvedAt!)
+    .slice(0, excess)
+    .map(i => i.id));
+  return incidents.filter(i => !dropped.has(i.id));
+};
+
+/**
+ * Threshold alerting over simulation telemetry. Each rule yields one alert per
+ * subject, identified by a fingerprint; an alert fires once its condition has
+ * held for the rule's `forSeconds` and resolves as soon as it clears.
+ */
+export const AlertEngine = {
+  createInitialState(): AlertState {
+    return { pending: {}, incidents: [] };
+  },
+
+  /**
+   * Evaluates every rule at simulated second `now`, opening, updating and
+   * resolving incidents. An open incident absorbs repeat breaches of its
+   * fingerprint, so each alert is reported once however long it fires.
+   */
+  evaluate(alerts: AlertState, rules: readonly AlertRule[], context: AlertContext, now: number): AlertState {
+    const breached = new Map<string, { rule: AlertRule; reading: Reading }>();
+    rules.forEach(rule => readings(rule, context).forEach(reading => {
+      if (breaches(rule, reading.value)) breached.set(`${rule.id}:${reading.subject}`, { rule, reading });
+    }));
+
+    const pending = Object.fromEntries(Array.from(breached.keys()).map(fp => [fp, alerts.pending[fp] ?? now]));
+    const incidents = alerts.incidents.map(i =>
+      i.resolvedAt === null && !breached.has(i.fingerprint) ? { ...i, resolvedAt: now } : i);
+
+    breached.forEach(({ rule, reading }, fingerprint) => {
+      const index = incidents.map(i => i.fingerprint).lastIndexOf(fingerprint);
+      const last = index >= 0 ? incidents[index] : undefined;
+
+      if (last && last.resolvedAt === null) {
+        incidents[index] = { ...last, peak: worst(rule, last.peak, reading.value) };
+      } else if (now - pending[fingerprint] < rule.forSeconds) {
+        return;
+      } else if (last && now - last.resolvedAt! <= REOPEN_WINDOW) {
+        // A reopened incident needs acknowledging again
+        incidents[index] = {
+          ...last,
+          resolvedAt: null,
+          resolvedBy: null,
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          occurrences: last.occurrences + 1,
+          peak: worst(rule, last.peak, reading.value)
+        };
+      } else {
+        incidents.push({
+          id: `${fingerprint}@${now}`,
+          fingerprint,
+          ruleId: rule.id,
+          subject: reading.subject,
+          severity: rule.severity,
+          firedAt: now,
+          value: reading.value,
+          peak: reading.value,
+          occurrences: 1,
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          resolvedAt: null,
+          resolvedBy: null
+        });
+      }
+    });
+
+    return { pending, incidents: retain(incidents) };
+  },
+
+  acknowledge(alerts: AlertState, id: string, by: IncidentActor): AlertState {
+    const incident = alerts.incidents.find(i => i.id === id);
+    if (!incident || incident.acknowledgedAt !== null) return alerts;
+    return {
+      ...alerts,
+      incidents: alerts.incidents.map(i => i.id === id ? { ...i, acknowledgedAt: by.at, acknowledgedBy: by } : i)
+    };
+  },
+
+  /**
+   * Credits a change to the city on every firing incident, so a resolved
+   * incident names the last change made before it cleared.
+   */
+  recordChange(alerts: AlertState, change: IncidentActor): AlertState {
+    if (change.source === 'clock' || PASSIVE_ACTIONS.has(change.action.type)) return alerts;
+    if (!alerts.incidents.some(i => i.resolvedAt === null)) return alerts;
+    return { ...alerts, incidents: alerts.incidents.map(i => i.resolvedAt === null ? { ...i, resolvedBy: change } : i) };
+  },
+
+  formatValue(rule: AlertRule, value: number): string {
+    if (rule.metric === 'district-offline') return value > 0 ? 'offline' : 'online';
+    return `${value.toFixed(rule.metric === 'integrity' ? 2 : 0)}${UNITS[rule.metric]}`;
+  }
+};
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ActiveFault, ChaosFault, ChaosFaultKind, DistrictStatus, HubId, RouteNode, TransitHubId } from '../../types';
+import { TransitProfiles } from './transit';
+
+/** Shortest flap half-period (seconds); anything faster would flip state within a tick. */
+const MIN_FLAP_PERIOD = 2;
+
+/** Throttle ceiling (%): a fully throttled GPU would never emit another tool call. */
+const MAX_GPU_THROTTLE = 95;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isDistrict = (node: RouteNode) => node.kind === 'district';
+
+/** Injectable fault kinds with the magnitude applied when none is given. */
+export const CHAOS_DEFAULTS: Readonly<Record<ChaosFaultKind, number>> = {
+  DEGRADE: 40,
+  LATENCY: 150,
+  PACKET_LOSS: 20,
+  FLAP: 10,
+  RATE_LIMIT: 200,
+  GPU_THROTTLE: 50
+};
+
+/**
+ * Chaos primitives layered over the simulation. Faults are plain data on the city
+ * state; each tick the engine asks this module how they bend districts, hub
+ * capacity, latency and packet delivery.
+ */
+export const ChaosEngine = {
+  /**
+   * Identifies a fault by kind and target; a connection is keyed as a sorted "A-B" pair.
+   */
+  faultId(fault: ChaosFault): string {
+    switch (fault.kind) {
+      case 'LATENCY': return `${fault.kind}:${[fault.from, fault.to].sort().join('-')}`;
+      case 'RATE_LIMIT': return `${fault.kind}:${fault.hub}`;
+      case 'GPU_THROTTLE': return `${fault.kind}:AI`;
+      default: return `${fault.kind}:${fault.target}`;
+    }
+  },
+
+  /**
+   * Clamps a fault's magnitude to its meaningful range.
+   */
+  sanitize(fault: ChaosFault): ChaosFault {
+    switch (fault.kind) {
+      case 'DEGRADE': return { ...fault, health: clamp(fault.health, 0, 100) };
+      case 'LATENCY': return { ...fault, latency: Math.max(0, fault.latency) };
+      case 'PACKET_LOSS': return { ...fault, loss: clamp(fault.loss, 0, 100) };
+      case 'FLAP': return { ...fault, period: Math.max(MIN_FLAP_PERIOD, fault.period) };
+      case 'RATE_LIMIT': return { ...fault, rate: Math.max(0, fault.rate) };
+      case 'GPU_THROTTLE': return { ...fault, throttle: clamp(fault.throttle, 0, MAX_GPU_THROTTLE) };
+    }
+  },
+
+  /**
+   * Adds a fault, replacing any active fault with the same kind and target.
+   */
+  inject(faults: readonly ActiveFault[], fault: ChaosFault, at: number): ActiveFault[] {
+    const id = this.faultId(fault);
+    return [...faults.filter(f => f.id !== id), { id, since: at, fault: this.sanitize(fault) }];
+  },
+
+  clear(faults: readonly ActiveFault[], id: string): ActiveFault[] {
+    return faults.filter(f => f.id !== id);
+  },
+
+  /**
+   * Applies flapping and partial degradation to the districts at `elapsed`
+   * seconds. A flapping district starts offline and switches every period.
+   */
+  applyToDistricts(
+    districts: Readonly<Record<HubId, DistrictStatus>>,
+    faults: readonly ActiveFault[],
+    elapsed: number
+  ): Record<HubId, DistrictStatus> {
+    const next = { ...districts };
+    faults.forEach(({ fault, since }) => {
+      if (fault.kind === 'FLAP') {
+        const current = next[fault.target];
+        const isActive = Math.floor((elapsed - since) / fault.period) % 2 === 1;
+        if (current && current.isActive !== isActive) next[fault.target] = this.setActive(current, isActive);
+      }
+    });
+    faults.forEach(({ fault }) => {
+      if (fault.kind === 'DEGRADE') {
+        const current = next[fault.target];
+        if (current?.isActive && current.health > fault.health) next[fault.target] = { ...current, health: fault.health };
+      }
+    });
+    return next;
+  },
+
+  /**
+   * A district brought online starts healthy at nominal load; one taken offline drops to zero.
+   */
+  setActive(district: DistrictStatus, isActive: boolean): DistrictStatus {
+    return { ...district, isActive, health: isActive ? 100 : 0, load: isActive ? 15 : 0 };
+  },
+
+  /**
+   * Hub profiles with rate limits applied to their service capacity.
+   */
+  profiles(profiles: TransitProfiles, faults: readonly ActiveFault[]): TransitProfiles {
+    const limited = { ...profiles };
+    faults.forEach(({ fault }) => {
+      if (fault.kind !== 'RATE_LIMIT') return;
+      const profile = limited[fault.hub];
+      // A zero service rate would divide by zero in the queueing model
+      limited[fault.hub] = { ...profile, capacity: Math.max(1, Math.min(profile.capacity, fault.rate)) };
+    });
+    return limited;
+  },
+
+  /**
+   * Fraction (0-1) of packets surviving loss at every district on the path.
+   */
+  survival(path: readonly RouteNode[], faults: readonly ActiveFault[]): number {
+    return faults.reduce((acc, { fault }) =>
+      fault.kind === 'PACKET_LOSS' && path.some(node => isDistrict(node) && node.id === fault.target)
+        ? acc * (1 - fault.loss / 100)
+        : acc, 1);
+  },
+
+  /**
+   * Milliseconds added to a path by degraded connections between consecutive
+   * districts, whether crossed by road or through a hub.
+   */
+  addedLatency(path: readonly RouteNode[], faults: readonly ActiveFault[]): number {
+    const stops = path.filter(isDistrict).map(node => node.id);
+    return faults.reduce((acc, { fault }) => {
+      if (fault.kind !== 'LATENCY') return acc;
+      const crossings = stops.slice(1).filter((id, i) =>
+        (id === fault.to && stops[i] === fault.from) || (id === fault.from && stops[i] === fault.to)).length;
+      return acc + crossings * fault.latency;
+    }, 0);
+  },
+
+  /**
+   * Remaining share (0-1) of the AI district's GPU throughput.
+   */
+  gpuFactor(faults: readonly ActiveFault[]): number {
+    const throttle = faults.find(f => f.fault.kind === 'GPU_THROTTLE')?.fault;
+    return throttle?.kind === 'GPU_THROTTLE' ? 1 - throttle.throttle / 100 : 1;
+  },
+
+  describe(fault: ChaosFault): string {
+    switch (fault.kind) {
+      case 'DEGRADE': return `${fault.target} degraded to ${fault.health}%`;
+      case 'LATENCY': return `+${fault.latency}ms ${fault.from}–${fault.to}`;
+      case 'PACKET_LOSS': return `${fault.loss}% loss at ${fault.target}`;
+      case 'FLAP': return `${fault.target} flapping every ${fault.period}s`;
+      case 'RATE_LIMIT': return `${fault.hub} limited to ${fault.rate} pkt/s`;
+      case 'GPU_THROTTLE': return `AI GPUs throttled ${fault.throttle}%`;
+    }
+  },
+
+  /**
+   * Builds a fault from an assistant tool call. `peerId` is the far end of a
+   * connection for ADD_LATENCY. Returns null for unknown events or targets.
+   */
+  fromEvent(
+    eventType: string,
+    targetId: string | undefined,
+    value: number | undefined,
+    peerId: string | undefined,
+    districts: readonly HubId[],
+    hubs: readonly TransitHubId[]
+  ): ChaosFault | null {
+    const district = districts.find(id => id === targetId?.toUpperCase());
+    const hub = hubs.find(id => id.toLowerCase() === targetId?.toLowerCase());
+    const magnitude = (kind: ChaosFaultKind) => Number.isFinite(value) ? value! : CHAOS_DEFAULTS[kind];
+
+    switch (eventType) {
+      case 'DEGRADE_DISTRICT':
+        return district ? { kind: 'DEGRADE', target: district, health: magnitude('DEGRADE') } : null;
+      case 'ADD_LATENCY': {
+        const peer = districts.find(id => id === peerId?.toUpperCase());
+        return district && peer && peer !== district
+          ? { kind: 'LATENCY', from: district, to: peer, latency: magnitude('LATENCY') }
+          : null;
+      }
+      case 'PACKET_LOSS':
+        return district ? { kind: 'PACKET_LOSS', target: district, loss: magnitude('PACKET_LOSS') } : null;
+      case 'FLAP_DISTRICT':
+        return district ? { kind: 'FLAP', target: district, period: magnitude('FLAP') } : null;
+      case 'RATE_LIMIT_HUB':
+        return hub ? { kind: 'RATE_LIMIT', hub, rate: magnitude('RATE_LIMIT') } : null;
+      case 'THROTTLE_GPU':
+        return { kind: 'GPU_THROTTLE', throttle: magnitude('GPU_THROTTLE') };
+      default:
+        return null;
+    }
+  }
+};
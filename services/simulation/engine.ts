@@ -0,0 +1,513 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ActionSource,
+  ActiveFault,
+  CityState,
+  CityAction,
+  DataFlowPacket,
+  HubId,
+  HubNode,
+  DistrictStatus,
+  FlowRoute,
+  NetworkTelemetry,
+  HubTelemetry,
+  ObservedTelemetry,
+  TransitHubId,
+  TransitHubRates,
+  TransitState
+} from '../../types';
+import {
+  HUBS_DATA,
+  FLOW_PACKETS,
+  DEPENDENCY_CRITICALITY,
+  TRANSIT_HUBS,
+  TRANSIT_HUB_IDS,
+  SERVICE_LEVEL_OBJECTIVES,
+  SLO_COMPLIANCE_PERIOD,
+  ALERT_RULES
+} from '../../data/content';
+import { FlowCatalog } from '../flows';
+import { RoutingEngine } from './routing';
+import { PropagationEngine } from './propagation';
+import { TransitEngine, TransitProfiles } from './transit';
+import { ChaosEngine } from './chaos';
+import { QueueingModel } from './queueing';
+import { SloEngine, LegOutcome } from './slo';
+import { AlertEngine } from './alerts';
+import { HistoryStore } from './history';
+import { TopologyModel, GPU_DISTRICT } from './topology';
+import { SeededRandom, RandomStream } from './prng';
+
+/** Simulated seconds advanced by each clock tick. */
+export const TICK_SECONDS = 2;
+
+/** Wall-clock speed multipliers offered by the clock controls. */
+export const SIMULATION_SPEEDS = [1, 2, 4, 8] as const;
+
+/** Maximum per-tick deviation of a flow's arrival rate from nominal, as a fraction. */
+const ARRIVAL_BURSTINESS = 0.1;
+
+const createDistricts = (rng: RandomStream, topology: readonly HubNode[]): Record<HubId, DistrictStatus> =>
+  topology.map(hub => hub.id).reduce((acc, id) => ({
+    ...acc,
+    [id]: {
+      id,
+      isActive: true,
+      load: rng.range(10, 25),
+      health: 100,
+      ...(id === GPU_DISTRICT ? {
+        gpuAcceleration: { isBoosted: false, tflops: 120, vramUsed: rng.range(38, 43) }
+      } : {})
+    }
+  }), {} as Record<HubId, DistrictStatus>);
+
+/**
+ * Routes of the declared flows the topology can carry; the others sit idle.
+ */
+const computeRoutes = (
+  flows: readonly DataFlowPacket[],
+  districts: Record<HubId, DistrictStatus>,
+  transit: TransitState,
+  topology: readonly HubNode[]
+): FlowRoute[] =>
+  RoutingEngine.computeRoutes(FlowCatalog.runnable(flows, topology, TRANSIT_HUBS), topology, districts, transit, TRANSIT_HUBS);
+
+/**
+ * Traffic offered during one tick. Each flow's arrivals vary by up to
+ * ±ARRIVAL_BURSTINESS around its nominal rate and are divided across its
+ * transit split; the share bound for undeliverable legs cannot be routed, and
+ * packets crossing a lossy district are lost. Flows leaving the AI district
+ * slow down while its GPUs are throttled.
+ */
+interface TrafficSample {
+  readonly arrivals: ReadonlyMap<string, number>;
+  readonly demand: TransitHubRates;
+  readonly offered: number;
+  readonly unroutable: number;
+}
+
+const sampleTraffic = (
+  routes: readonly FlowRoute[],
+  flows: readonly DataFlowPacket[],
+  faults: readonly ActiveFault[],
+  rng: RandomStream
+): TrafficSample => {
+  const arrivals = new Map<string, number>();
+  const demand: Partial<Record<TransitHubId, number>> = {};
+  let offered = 0;
+  let unroutable = 0;
+
+  routes.forEach(route => {
+    const flow = flows.find(f => f.id === route.flowId);
+    if (!flow) return;
+    const throttle = flow.origin === GPU_DISTRICT ? ChaosEngine.gpuFactor(faults) : 1;
+    const arrival = flow.arrivalRate * throttle * rng.range(1 - ARRIVAL_BURSTINESS, 1 + ARRIVAL_BURSTINESS);
+    const deliverable = route.legs
+      .reduce((acc, l) => acc + (l.delivered ? ChaosEngine.survival(l.path, faults) : 0), 0) / route.legs.length;
+
+    arrivals.set(flow.id, arrival);
+    offered += arrival;
+    unroutable += arrival * (1 - deliverable);
+    route.split.forEach(({ hub, share }) => {
+      demand[hub] = (demand[hub] ?? 0) + arrival * deliverable * share;
+    });
+  });
+  return { arrivals, demand, offered, unroutable };
+};
+
+/**
+ * Advances every hub queue holding or receiving traffic.
+ */
+const stepQueues = (transit: TransitState, demand: TransitHubRates, profiles: TransitProfiles): Partial<Record<TransitHubId, HubTelemetry>> => {
+  const hubs: Partial<Record<TransitHubId, HubTelemetry>> = {};
+  TRANSIT_HUB_IDS.forEach(id => {
+    const status = transit.hubs[id];
+    const arrivalRate = demand[id] ?? 0;
+    if (arrivalRate === 0 && status.queueDepth === 0) return;
+
+    const profile = profiles[id];
+    const step = QueueingModel.step(status.queueDepth, arrivalRate, profile, status.isOnline, TICK_SECONDS);
+    hubs[id] = {
+      arrivalRate,
+      throughput: step.throughput,
+      queueDepth: step.queueDepth,
+      dropRate: step.dropRate,
+      utilization: arrivalRate / profile.capacity,
+      backpressure: step.backpressure
+    };
+  });
+  return hubs;
+};
+
+/**
+ * Resolves what happened to every flow leg this tick. Each delivered leg carries
+ * one latency component per hub in its flow's split, weighted by the traffic it
+ * carries; its delivered rate discounts packets lost in transit and each hub's
+ * share of drops. Traversal time is the hub's base latency plus jitter, or one
+ * road hop per district crossed when travelling point-to-point, plus any latency
+ * injected on the connections crossed.
+ */
+const legOutcomes = (
+  routes: readonly FlowRoute[],
+  flows: readonly DataFlowPacket[],
+  arrivals: ReadonlyMap<string, number>,
+  hubs: Partial<Record<TransitHubId, HubTelemetry>>,
+  profiles: TransitProfiles,
+  faults: readonly ActiveFault[],
+  rng: RandomStream
+): LegOutcome[] => {
+  const traverse = (hub: TransitHubId) => TRANSIT_HUBS[hub].latency.base + rng.range(0, TRANSIT_HUBS[hub].latency.jitter);
+  const dropShare = (queue: HubTelemetry) => queue.arrivalRate > 0 ? Math.min(1, queue.dropRate / queue.arrivalRate) : 0;
+
+  return routes.flatMap(route => {
+    const origin = flows.find(f => f.id === route.flowId)?.origin;
+    if (!origin) return [];
+    const offered = (arrivals.get(route.flowId) ?? 0) / route.legs.length;
+
+    return route.legs.map(leg => {
+      if (!leg.delivered) return { flowId: route.flowId, origin, destination: leg.destination, offered, delivered: 0, latency: [] };
+
+      let carried = 0;
+      const latency = route.split.flatMap(({ hub, share }) => {
+        const queue = hubs[hub];
+        if (!queue) return [];
+        const hops = hub === 'Manual' && route.carrier === 'Manual' ? leg.path.length - 1 : 1;
+        let traversal = 0;
+        for (let i = 0; i < hops; i++) traversal += traverse(hub);
+        // Only the carrier's path is resolved; other hubs link origin and destination directly
+        traversal += ChaosEngine.addedLatency(hub === route.carrier ? leg.path : [leg.path[0], leg.path[leg.path.length - 1]], faults);
+
+        carried += share * (1 - dropShare(queue));
+        const admitted = queue.arrivalRate * (1 - queue.backpressure);
+        return [QueueingModel.component(offered * share, traversal, queue.queueDepth, admitted, profiles[hub].capacity)];
+      });
+
+      const delivered = offered * ChaosEngine.survival(leg.path, faults) * carried;
+      return { flowId: route.flowId, origin, destination: leg.destination, offered, delivered, latency };
+    });
+  });
+};
+
+/**
+ * Network telemetry for one tick, with the per-leg outcomes behind it.
+ */
+interface TelemetrySample {
+  readonly telemetry: NetworkTelemetry;
+  readonly outcomes: readonly LegOutcome[];
+}
+
+/**
+ * Samples network telemetry for one tick from the computed routes and the hub
+ * queues. Returns the queue telemetry so transit health can be derived from it.
+ */
+const sampleTelemetry = (
+  routes: readonly FlowRoute[],
+  flows: readonly DataFlowPacket[],
+  transit: TransitState,
+  faults: readonly ActiveFault[],
+  rng: RandomStream
+): TelemetrySample => {
+  const profiles = ChaosEngine.profiles(TRANSIT_HUBS, faults);
+  const traffic = sampleTraffic(routes, flows, faults, rng);
+  const hubs = stepQueues(transit, traffic.demand, profiles);
+
+  let throughput = 0;
+  let dropRate = traffic.unroutable;
+  let transitCost = 0;
+  (Object.keys(hubs) as TransitHubId[]).forEach(id => {
+    const hub = hubs[id]!;
+    throughput += hub.throughput;
+    dropRate += hub.dropRate;
+    transitCost += (hub.throughput * 3600 / 1000) * TRANSIT_HUBS[id].costPer1k;
+  });
+
+  const outcomes = legOutcomes(routes, flows, traffic.arrivals, hubs, profiles, faults, rng);
+  const components = outcomes.flatMap(o => o.latency);
+  return {
+    outcomes,
+    telemetry: {
+      throughput,
+      latency: components.length > 0 ? QueueingModel.percentiles(components) : { p50: 0, p95: 0, p99: 0 },
+      integrity: traffic.offered > 0 ? Math.max(0, 100 * (1 - dropRate / traffic.offered)) : 100,
+      dropRate,
+      transitCost,
+      hubs
+    }
+  };
+};
+
+/**
+ * Replaces synthetic load and health of online districts with ingested readings.
+ */
+const applyObserved = (
+  districts: Record<HubId, DistrictStatus>,
+  observed: ObservedTelemetry | null
+): Record<HubId, DistrictStatus> => {
+  if (!observed) return districts;
+  return Object.fromEntries((Object.values(districts) as DistrictStatus[]).map(d => {
+    const reading = observed.districts[d.id];
+    return [d.id, d.isActive && reading ? { ...d, load: reading.load ?? d.load, health: reading.health ?? d.health } : d];
+  })) as Record<HubId, DistrictStatus>;
+};
+
+/**
+ * Advances the simulation by one tick: propagation, chaos faults, GPU
+ * telemetry, network telemetry, SLO samples and alert rules, then transit hub
+ * health and failover, and finally the telemetry history.
+ */
+const tick = (state: CityState): CityState => {
+  const rng = SeededRandom.stream(state.clock.rngState);
+  const elapsed = state.clock.elapsed + TICK_SECONDS;
+  // Real readings replace the synthetic baseline; chaos faults still apply on top
+  let districts = ChaosEngine.applyToDistricts(
+    applyObserved(PropagationEngine.step(state.districts, state.topology, DEPENDENCY_CRITICALITY, TICK_SECONDS), state.observed),
+    state.faults,
+    elapsed
+  );
+
+  const aiDist = districts[GPU_DISTRICT];
+  if (aiDist.isActive && aiDist.gpuAcceleration) {
+    const isBoosted = aiDist.gpuAcceleration.isBoosted;
+    districts = {
+      ...districts,
+      [GPU_DISTRICT]: {
+        ...aiDist,
+        gpuAcceleration: {
+          ...aiDist.gpuAcceleration,
+          tflops: (isBoosted ? rng.range(820, 900) : rng.range(120, 130)) * ChaosEngine.gpuFactor(state.faults),
+          vramUsed: isBoosted ? rng.range(76, 80) : rng.range(38, 43)
+        }
+      }
+    };
+  }
+
+  const routes = computeRoutes(state.flows, districts, state.transit, state.topology);
+  const { telemetry, outcomes } = sampleTelemetry(routes, state.flows, state.transit, state.faults, rng);
+  const slo = SloEngine.record(state.slo, SERVICE_LEVEL_OBJECTIVES, outcomes, SLO_COMPLIANCE_PERIOD, TICK_SECONDS);
+  const alerts = AlertEngine.evaluate(state.alerts, ALERT_RULES, { districts, telemetry, routes }, elapsed);
+  const transit = TransitEngine.step(
+    state.transit,
+    telemetry.hubs,
+    ChaosEngine.profiles(TRANSIT_HUBS, state.faults),
+    TICK_SECONDS,
+    state.observed?.hubs
+  );
+  const history = HistoryStore.record(state.history, HistoryStore.sample(districts, transit, telemetry), elapsed);
+
+  return {
+    ...state,
+    districts,
+    transit,
+    telemetry,
+    slo,
+    alerts,
+    history,
+    clock: {
+      ...state.clock,
+      rngState: rng.state,
+      tick: state.clock.tick + 1,
+      elapsed
+    }
+  };
+};
+
+/**
+ * Applies one action. Its source only matters to who an incident is credited to.
+ */
+const transition = (state: CityState, action: CityAction, source: ActionSource): CityState => {
+  switch (action.type) {
+    case 'TICK':
+      return tick(state);
+
+    case 'TOGGLE_DISTRICT': {
+      const current = state.districts[action.id];
+      if (!current) return state;
+      return {
+        ...state,
+        districts: { ...state.districts, [action.id]: ChaosEngine.setActive(current, !current.isActive) },
+        simulationActive: true
+      };
+    }
+
+    case 'SET_TRANSIT_HUB':
+      if (!state.transit.hubs[action.hub]) return state;
+      return { ...state, transit: { ...state.transit, weights: { [action.hub]: 1 } }, simulationActive: true };
+
+    case 'SET_TRANSIT_WEIGHTS': {
+      const weights = Object.fromEntries(Object.entries(action.weights)
+        .filter(([hub, weight]) => state.transit.hubs[hub as TransitHubId] && weight! > 0));
+      if (Object.keys(weights).length === 0) return state;
+      return { ...state, transit: { ...state.transit, weights }, simulationActive: true };
+    }
+
+    case 'TOGGLE_TRANSIT_HUB': {
+      const current = state.transit.hubs[action.hub];
+      // Point-to-point roads cannot be taken offline
+      if (!current || action.hub === 'Manual') return state;
+      const isOnline = !current.isOnline;
+      return {
+        ...state,
+        transit: {
+          ...state.transit,
+          hubs: {
+            ...state.transit.hubs,
+            [action.hub]: { ...current, isOnline, health: isOnline ? 100 : 0, isDrained: !isOnline }
+          }
+        },
+        simulationActive: true
+      };
+    }
+
+    case 'SET_FAILOVER_THRESHOLD':
+      return { ...state, transit: { ...state.transit, failoverThreshold: Math.min(95, Math.max(0, action.threshold)) } };
+
+    case 'TOGGLE_GPU_BOOST': {
+      const aiDist = state.districts[GPU_DISTRICT];
+      if (!aiDist.gpuAcceleration) return state;
+      return {
+        ...state,
+        districts: {
+          ...state.districts,
+          [GPU_DISTRICT]: {
+            ...aiDist,
+            gpuAcceleration: {
+              ...aiDist.gpuAcceleration,
+              isBoosted: !aiDist.gpuAcceleration.isBoosted
+            }
+          }
+        }
+      };
+    }
+
+    case 'INJECT_FAULT': {
+      const faults = ChaosEngine.inject(state.faults, action.fault, state.clock.elapsed);
+      return {
+        ...state,
+        faults,
+        districts: ChaosEngine.applyToDistricts(state.districts, faults, state.clock.elapsed),
+        simulationActive: true
+      };
+    }
+
+    case 'CLEAR_FAULT': {
+      const cleared = state.faults.find(f => f.id === action.id);
+      if (!cleared) return state;
+      // A district left offline by flapping comes back with the fault
+      const { fault } = cleared;
+      const districts = fault.kind === 'FLAP' && !state.districts[fault.target].isActive
+        ? { ...state.districts, [fault.target]: ChaosEngine.setActive(state.districts[fault.target], true) }
+        : state.districts;
+      return { ...state, faults: ChaosEngine.clear(state.faults, action.id), districts };
+    }
+
+    case 'ACK_INCIDENT': {
+      const alerts = AlertEngine.acknowledge(state.alerts, action.id, { source, action, at: state.clock.elapsed });
+      return alerts === state.alerts ? state : { ...state, alerts };
+    }
+
+    case 'INGEST_METRICS':
+      // District readings show at once; hub health follows on the next tick's failover pass
+      return {
+        ...state,
+        observed: action.observed,
+        districts: ChaosEngine.applyToDistricts(applyObserved(state.districts, action.observed), state.faults, state.clock.elapsed)
+      };
+
+    case 'CLEAR_METRICS':
+      return state.observed ? { ...state, observed: null } : state;
+
+    case 'SET_TOPOLOGY': {
+      const topology = TopologyModel.normalize(action.topology);
+      // The grid and the GPU cluster are built on the topology; flows it cannot carry just sit idle
+      if (TopologyModel.validate(topology).length > 0) return state;
+
+      const ids = new Set(topology.map(h => h.id));
+      const districts = Object.fromEntries(topology.map(hub => [hub.id, state.districts[hub.id]
+        ?? ChaosEngine.setActive({ id: hub.id, isActive: true, load: 0, health: 0 }, true)]));
+      const faults = state.faults.filter(({ fault }) => {
+        switch (fault.kind) {
+          case 'DEGRADE':
+          case 'PACKET_LOSS':
+          case 'FLAP': return ids.has(fault.target);
+          case 'LATENCY': return ids.has(fault.from) && ids.has(fault.to);
+          default: return true;
+        }
+      });
+      return { ...state, topology, flows: action.flows ?? state.flows, districts, faults, simulationActive: true };
+    }
+
+    case 'RESET':
+      return SimulationEngine.createInitialState(state.clock.seed, state.clock, state.topology, state.flows);
+
+    case 'SET_PAUSED':
+      return { ...state, clock: { ...state.clock, paused: action.paused } };
+
+    case 'SET_SPEED':
+      return { ...state, clock: { ...state.clock, speed: Math.max(0.25, action.speed) } };
+
+    case 'RESEED':
+      return SimulationEngine.createInitialState(SeededRandom.toSeed(action.seed), state.clock, state.topology, state.flows);
+
+    default:
+      return state;
+  }
+};
+
+/**
+ * Pure simulation engine. All state transitions go through `reduce`, and the only
+ * source of randomness is the PRNG state carried on the clock.
+ */
+export const SimulationEngine = {
+  /**
+   * Builds the starting state of a run. Equal seeds, topologies and flows produce identical runs.
+   */
+  createInitialState(
+    seed: number,
+    clock?: Pick<CityState['clock'], 'paused' | 'speed'>,
+    topology: readonly HubNode[] = HUBS_DATA,
+    flows: readonly DataFlowPacket[] = FLOW_PACKETS
+  ): CityState {
+    const rng = SeededRandom.stream(seed);
+    const districts = createDistricts(rng, topology);
+    const transit = TransitEngine.createInitialState(TRANSIT_HUB_IDS);
+    const { telemetry } = sampleTelemetry(computeRoutes(flows, districts, transit, topology), flows, transit, [], rng);
+
+    return {
+      districts,
+      transit,
+      faults: [],
+      slo: {},
+      alerts: AlertEngine.createInitialState(),
+      history: HistoryStore.record(HistoryStore.createInitialState(), HistoryStore.sample(districts, transit, telemetry), 0),
+      observed: null,
+      topology,
+      flows,
+      simulationActive: false,
+      telemetry,
+      clock: {
+        seed,
+        rngState: rng.state,
+        tick: 0,
+        elapsed: 0,
+        paused: clock?.paused ?? false,
+        speed: clock?.speed ?? 1
+      }
+    };
+  },
+
+  /**
+   * Applies an action made by `source`. Incidents firing at the time keep the
+   * latest change, so the one that preceded a resolution stays credited after
+   * the event itself has left the timeline.
+   */
+  reduce(state: CityState, action: CityAction, source: ActionSource): CityState {
+    const next = transition(state, action, source);
+    if (next === state) return state;
+    const alerts = AlertEngine.recordChange(next.alerts, { source, action, at: state.clock.elapsed });
+    return alerts === next.alerts ? next : { ...next, alerts };
+  }
+};
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DistrictStatus,
+  HistoryTier,
+  HistoryWindow,
+  HubId,
+  NetworkTelemetry,
+  RingBuffer,
+  TelemetryHistory,
+  TimeSeriesPoint,
+  TransitHubId,
+  TransitState
+} from '../../types';
+
+/** Span and resolution, in simulated seconds, of each history window. */
+export const HISTORY_WINDOWS: Readonly<Record<HistoryWindow, { readonly span: number; readonly resolution: number }>> = {
+  '1m': { span: 60, resolution: 2 },
+  '15m': { span: 900, resolution: 10 },
+  '1h': { span: 3600, resolution: 30 }
+};
+
+/** Metrics recorded for every district, hub and the network as a whole. */
+export const DISTRICT_METRICS = ['health', 'load', 'tflops', 'vram'] as const;
+export const HUB_METRICS = ['throughput', 'queue-depth', 'utilization', 'health'] as const;
+export const NETWORK_METRICS = ['throughput', 'latency-p50', 'latency-p95', 'latency-p99', 'integrity', 'drop-rate'] as const;
+
+export type DistrictMetric = typeof DISTRICT_METRICS[number];
+export type HubMetric = typeof HUB_METRICS[number];
+export type NetworkMetric = typeof NETWORK_METRICS[number];
+
+/**
+ * Immutable ring buffer operations. Writes copy the backing array, which is
+ * bounded by the capacity, so earlier states stay valid for time travel.
+ */
+export const Ring = {
+  create(capacity: number): RingBuffer {
+    return { capacity, next: 0, values: [] };
+  },
+
+  push(buffer: RingBuffer, value: number): RingBuffer {
+    const values = buffer.values.slice();
+    values[buffer.next] = value;
+    return { ...buffer, next: (buffer.next + 1) % buffer.capacity, values };
+  },
+
+  /**
+   * Buffered values, oldest first.
+   */
+  toArray(buffer: RingBuffer): number[] {
+    return buffer.values.length < buffer.capacity
+      ? buffer.values.slice()
+      : [...buffer.values.slice(buffer.next), ...buffer.values.slice(0, buffer.next)];
+  }
+};
+
+const createTier = (window: HistoryWindow): HistoryTier => {
+  const { span, resolution } = HISTORY_WINDOWS[window];
+  return { resolution, times: Ring.create(span / resolution), series: {}, bucket: { count: 0, sums: {} } };
+};
+
+/**
+ * Adds a sample to a tier's open bucket, closing it into a point at the end of
+ * each `resolution` seconds. Series first seen mid-run start with that point.
+ */
+const recordTier = (tier: HistoryTier, sample: Readonly<Record<string, number>>, at: number): HistoryTier => {
+  const sums = { ...tier.bucket.sums };
+  Object.entries(sample).forEach(([key, value]) => { sums[key] = (sums[key] ?? 0) + value; });
+  const count = tier.bucket.count + 1;
+  if (at % tier.resolution !== 0) return { ...tier, bucket: { count, sums } };
+
+  const series = { ...tier.series };
+  Object.entries(sums).forEach(([key, sum]) => {
+    series[key] = Ring.push(series[key] ?? Ring.create(tier.times.capacity), sum / count);
+  });
+  return { ...tier, times: Ring.push(tier.times, at), series, bucket: { count: 0, sums: {} } };
+};
+
+/**
+ * Multi-resolution telemetry history. Each tick's sample feeds every window;
+ * coarser windows average samples into fewer points so an hour of simulated
+ * time costs no more to keep than a minute.
+ */
+export const HistoryStore = {
+  createInitialState(): TelemetryHistory {
+    return {
+      '1m': createTier('1m'),
+      '15m': createTier('15m'),
+      '1h': createTier('1h')
+    };
+  },
+
+  districtKey: (id: HubId, metric: DistrictMetric) => `district:${id}:${metric}`,
+  hubKey: (id: TransitHubId, metric: HubMetric) => `hub:${id}:${metric}`,
+  networkKey: (metric: NetworkMetric) => `network:${metric}`,
+
+  /**
+   * Flattens one tick's telemetry into series values. GPU metrics are only
+   * recorded for GPU districts; hubs without traffic read as idle.
+   */
+  sample(
+    districts: Readonly<Record<HubId, DistrictStatus>>,
+    transit: TransitState,
+    telemetry: NetworkTelemetry
+  ): Record<string, number> {
+    const sample: Record<string, number> = {
+      [this.networkKey('throughput')]: telemetry.throughput,
+      [this.networkKey('latency-p50')]: telemetry.latency.p50,
+      [this.networkKey('latency-p95')]: telemetry.latency.p95,
+      [this.networkKey('latency-p99')]: telemetry.latency.p99,
+      [this.networkKey('integrity')]: telemetry.integrity,
+      [this.networkKey('drop-rate')]: telemetry.dropRate
+    };
+
+    (Object.values(districts) as DistrictStatus[]).forEach(d => {
+      sample[this.districtKey(d.id, 'health')] = d.isActive ? d.health : 0;
+      sample[this.districtKey(d.id, 'load')] = d.isActive ? d.load : 0;
+      if (d.gpuAcceleration) {
+        sample[this.districtKey(d.id, 'tflops')] = d.isActive ? d.gpuAcceleration.tflops : 0;
+        sample[this.districtKey(d.id, 'vram')] = d.isActive ? d.gpuAcceleration.vramUsed : 0;
+      }
+    });
+
+    (Object.keys(transit.hubs) as TransitHubId[]).forEach(id => {
+      const queue = telemetry.hubs[id];
+      sample[this.hubKey(id, 'throughput')] = queue?.throughput ?? 0;
+      sample[this.hubKey(id, 'queue-depth')] = queue?.queueDepth ?? 0;
+      sample[this.hubKey(id, 'utilization')] = queue?.utilization ?? 0;
+      sample[this.hubKey(id, 'health')] = transit.hubs[id].health;
+    });
+
+    return sample;
+  },
+
+  record(history: TelemetryHistory, sample: Readonly<Record<string, number>>, at: number): TelemetryHistory {
+    return {
+      '1m': recordTier(history['1m'], sample, at),
+      '15m': recordTier(history['15m'], sample, at),
+      '1h': recordTier(history['1h'], sample, at)
+    };
+  },
+
+  /**
+   * Points of one series in a window, oldest first; empty if never recorded.
+   */
+  series(history: TelemetryHistory, window: HistoryWindow, key: string): TimeSeriesPoint[] {
+    const tier = history[window];
+    const buffer = tier.series[key];
+    if (!buffer) return [];
+    const values = Ring.toArray(buffer);
+    // A series first recorded mid-run lines up with the most recent timestamps
+    const times = Ring.toArray(tier.times).slice(-values.length);
+    return values.map((value, i) => ({ at: times[i], value }));
+  }
+};
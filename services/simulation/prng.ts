@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Stateful view over the pure PRNG, used inside a single reducer step.
+ * Read `state` once finished drawing and store it back on the clock.
+ */
+export interface RandomStream {
+  /** Uniform float in [0, 1) */
+  next(): number;
+  /** Uniform float in [min, max) */
+  range(min: number, max: number): number;
+  readonly state: number;
+}
+
+/**
+ * Seeded pseudo-random number generator (mulberry32).
+ * Pure: the generator state is an integer that callers thread through simulation state.
+ */
+export const SeededRandom = {
+  /**
+   * Draws one value, returning it with the successor state.
+   */
+  draw(state: number): [number, number] {
+    const nextState = (state + 0x6D2B79F5) | 0;
+    let t = nextState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return [((t ^ (t >>> 14)) >>> 0) / 4294967296, nextState];
+  },
+
+  /**
+   * Opens a stream starting at `state`.
+   */
+  stream(state: number): RandomStream {
+    let current = state;
+    const next = () => {
+      const [value, nextState] = SeededRandom.draw(current);
+      current = nextState;
+      return value;
+    };
+    return {
+      next,
+      range: (min, max) => min + next() * (max - min),
+      get state() { return current; }
+    };
+  },
+
+  /**
+   * Normalizes user input (number or free text) into an unsigned 32-bit seed.
+   */
+  toSeed(input: string | number): number {
+    if (typeof input === 'number' && Number.isFinite(input)) return Math.abs(Math.floor(input)) >>> 0;
+    const text = String(input).trim();
+    if (/^\d+$/.test(text)) return Number(text) >>> 0;
+
+    // FNV-1a hash so memorable phrases ("black-friday") are valid seeds
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  },
+
+  /**
+   * Seed for a fresh run: the `?seed=` URL parameter when present, otherwise a random one.
+   */
+  initialSeed(): number {
+    if (typeof window !== 'undefined') {
+      const param = new URLSearchParams(window.location.search).get('seed');
+      if (param) return this.toSeed(param);
+    }
+    return Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+  }
+};
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HubId, HubNode, DistrictStatus, DependencyCriticality } from '../../types';
+
+/** Criticality applied to any dependency edge without an explicit override. */
+export const DEFAULT_EDGE_CRITICALITY = 0.4;
+
+/** Steady-state resource load (%) of a healthy district with healthy neighbours. */
+export const NOMINAL_LOAD = 20;
+
+/** Retry amplification applied to traffic displaced from a failing neighbour. */
+const FAILOVER_SURGE = 5;
+
+/**
+ * Fraction of a degraded (but online) upstream's impairment passed downstream.
+ * Keeps mutually dependent districts from dragging each other to zero.
+ */
+const CASCADE_ATTENUATION = 0.5;
+
+/** Time constants (seconds) for health to converge on its dependency-derived target. */
+const DEGRADE_TAU = 6;
+const RECOVER_TAU = 10;
+const LOAD_TAU = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Exponential approach of `current` towards `target` over `dt` seconds. */
+const approach = (current: number, target: number, dt: number, tau: number) =>
+  current + (target - current) * (1 - Math.exp(-dt / tau));
+
+/** Share (0–1) of a district's capability lost, as seen by its dependents. */
+const impairmentOf = (status: DistrictStatus) =>
+  status.isActive ? (1 - status.health / 100) * CASCADE_ATTENUATION : 1;
+
+/**
+ * Dependency-aware failure propagation.
+ * A district depends on every district listed in its `connections`; losing health upstream
+ * degrades it in proportion to the edge criticality, while surviving neighbours absorb the
+ * displaced load. Effects accumulate tick by tick, so cascades spread over simulated time.
+ */
+export const PropagationEngine = {
+  /**
+   * Strength (0–1) of `dependent`'s reliance on `dependency`.
+   */
+  criticality(criticality: DependencyCriticality, dependent: HubId, dependency: HubId): number {
+    return clamp(criticality[dependent]?.[dependency] ?? DEFAULT_EDGE_CRITICALITY, 0, 1);
+  },
+
+  /**
+   * Health (0–100) a district converges to given the current health of its dependencies.
+   */
+  targetHealth(
+    hub: HubNode,
+    districts: Readonly<Record<HubId, DistrictStatus>>,
+    criticality: DependencyCriticality
+  ): number {
+    return hub.connections.reduce((health, dependency) => {
+      const upstream = districts[dependency];
+      if (!upstream) return health;
+      const impairment = impairmentOf(upstream);
+      return health * (1 - this.criticality(criticality, hub.id, dependency) * impairment);
+    }, 100);
+  },
+
+  /**
+   * Extra load (%) a district absorbs from impaired neighbours.
+   * Each impaired district sheds its nominal load across its surviving neighbours,
+   * weighted by how critical the connection is.
+   */
+  absorbedLoad(
+    hub: HubNode,
+    hubs: readonly HubNode[],
+    districts: Readonly<Record<HubId, DistrictStatus>>,
+    criticality: DependencyCriticality
+  ): number {
+    const neighboursOf = (id: HubId) => hubs
+      .filter(h => h.id !== id && (h.connections.includes(id) || hubs.find(o => o.id === id)?.connections.includes(h.id)))
+      .map(h => h.id);
+
+    return neighboursOf(hub.id).reduce((extra, neighbourId) => {
+      const neighbour = districts[neighbourId];
+      if (!neighbour) return extra;
+      const impairment = impairmentOf(neighbour);
+      if (impairment <= 0) return extra;
+
+      const survivors = neighboursOf(neighbourId).filter(id => districts[id]?.isActive);
+      if (survivors.length === 0) return extra;
+
+      const weight = Math.max(
+        this.criticality(criticality, hub.id, neighbourId),
+        this.criticality(criticality, neighbourId, hub.id)
+      );
+      return extra + (NOMINAL_LOAD * impairment * FAILOVER_SURGE * weight) / survivors.length;
+    }, 0);
+  },
+
+  /**
+   * Advances propagation by `dt` seconds of simulated time.
+   * Offline districts are left untouched; online ones drift towards their dependency-derived
+   * health and neighbour-derived load.
+   */
+  step(
+    districts: Readonly<Record<HubId, DistrictStatus>>,
+    hubs: readonly HubNode[],
+    criticality: DependencyCriticality,
+    dt: number
+  ): Record<HubId, DistrictStatus> {
+    const next = { ...districts };
+
+    hubs.forEach(hub => {
+      const current = districts[hub.id];
+      if (!current || !current.isActive) return;
+
+      const healthTarget = this.targetHealth(hub, districts, criticality);
+      const loadTarget = clamp(NOMINAL_LOAD + this.absorbedLoad(hub, hubs, districts, criticality), 0, 100);
+
+      next[hub.id] = {
+        ...current,
+        health: clamp(approach(current.health, healthTarget, dt, healthTarget < current.health ? DEGRADE_TAU : RECOVER_TAU), 0, 100),
+        load: clamp(approach(current.load, loadTarget, dt, LOAD_TAU), 0, 100)
+      };
+    });
+
+    return next;
+  },
+
+  /**
+   * Online districts whose health has been pulled below the given threshold by upstream failures.
+   */
+  blastRadius(districts: Readonly<Record<HubId, DistrictStatus>>, threshold: number = 90): HubId[] {
+    return (Object.values(districts) as DistrictStatus[])
+      .filter(d => d.isActive && d.health < threshold)
+      .map(d => d.id);
+  }
+};
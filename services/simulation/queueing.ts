@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TransitHubProfile, LatencyPercentiles } from '../../types';
+
+/** Queue fill ratio at which a hub starts pushing back on its producers. */
+const BACKPRESSURE_ONSET = 0.5;
+
+/** Share of arrivals still admitted when the queue is full. */
+const BACKPRESSURE_FLOOR = 0.4;
+
+/**
+ * Floor on the M/M/1 drain rate, as a fraction of the service rate, so an
+ * overloaded hub still has a finite (if long) latency tail.
+ */
+const MIN_DRAIN_FRACTION = 0.05;
+
+/**
+ * Outcome of one tick of a hub's queue.
+ */
+export interface QueueStep {
+  readonly queueDepth: number;
+  /** Packets per second admitted after backpressure */
+  readonly admittedRate: number;
+  readonly throughput: number;
+  readonly dropRate: number;
+  /** Fraction (0-1) of arrivals held back at the source */
+  readonly backpressure: number;
+}
+
+/**
+ * One component of the end-to-end latency mixture: a fixed delay followed by
+ * an exponentially distributed queueing delay, carrying `weight` of the traffic.
+ */
+export interface LatencyComponent {
+  readonly weight: number;
+  /** Fixed milliseconds: traversal time plus time to drain the standing queue */
+  readonly delay: number;
+  /** Exponential rate (per millisecond) of the remaining sojourn time */
+  readonly rate: number;
+}
+
+const mixtureCdf = (components: readonly LatencyComponent[], total: number, t: number) =>
+  components.reduce((acc, c) => acc + (t <= c.delay ? 0 : c.weight * (1 - Math.exp(-c.rate * (t - c.delay)))), 0) / total;
+
+/**
+ * Fluid queueing model for transit hubs. Each tick a hub admits arrivals
+ * (throttled by backpressure as its queue fills), serves up to its capacity,
+ * and drops whatever overflows its queue limit.
+ */
+export const QueueingModel = {
+  /**
+   * Share of arrivals admitted at the given queue depth.
+   */
+  admission(queueDepth: number, queueLimit: number): number {
+    const fill = queueDepth / queueLimit;
+    if (fill <= BACKPRESSURE_ONSET) return 1;
+    const pressure = Math.min(1, (fill - BACKPRESSURE_ONSET) / (1 - BACKPRESSURE_ONSET));
+    return 1 - pressure * (1 - BACKPRESSURE_FLOOR);
+  },
+
+  /**
+   * Advances a hub's queue by `dt` seconds. An offline hub serves nothing and
+   * loses its backlog along with anything still sent to it.
+   */
+  step(queueDepth: number, arrivalRate: number, profile: TransitHubProfile, isOnline: boolean, dt: number): QueueStep {
+    if (!isOnline) {
+      return { queueDepth: 0, admittedRate: 0, throughput: 0, dropRate: queueDepth / dt + arrivalRate, backpressure: 0 };
+    }
+
+    const admission = this.admission(queueDepth, profile.queueLimit);
+    const admittedRate = arrivalRate * admission;
+    const available = queueDepth + admittedRate * dt;
+    const served = Math.min(available, profile.capacity * dt);
+    const backlog = available - served;
+    const dropped = Math.max(0, backlog - profile.queueLimit);
+
+    return {
+      queueDepth: backlog - dropped,
+      admittedRate,
+      throughput: served / dt,
+      dropRate: dropped / dt,
+      backpressure: arrivalRate > 0 ? 1 - admission : 0
+    };
+  },
+
+  /**
+   * Latency component for traffic through a hub: the standing queue drains at
+   * the service rate, then M/M/1 sojourn time with rate (μ - λ).
+   */
+  component(weight: number, traversal: number, queueDepth: number, admittedRate: number, capacity: number): LatencyComponent {
+    const drainRate = Math.max(capacity - admittedRate, capacity * MIN_DRAIN_FRACTION);
+    return {
+      weight,
+      delay: traversal + (queueDepth / capacity) * 1000,
+      rate: drainRate / 1000
+    };
+  },
+
+  /**
+   * Share (0-1) of the mixture's traffic delivered within `t` milliseconds.
+   */
+  cdf(components: readonly LatencyComponent[], t: number): number {
+    const total = components.reduce((acc, c) => acc + c.weight, 0);
+    return total > 0 ? mixtureCdf(components, total, t) : 0;
+  },
+
+  /**
+   * Percentile (0-1) of the latency mixture, in milliseconds, found by bisection.
+   */
+  percentile(components: readonly LatencyComponent[], p: number): number {
+    const total = components.reduce((acc, c) => acc + c.weight, 0);
+    if (total <= 0) return 0;
+
+    let low = Math.min(...components.map(c => c.delay));
+    let high = Math.max(...components.map(c => c.delay + 10 / c.rate));
+    for (let i = 0; i < 48; i++) {
+      const mid = (low + high) / 2;
+      if (mixtureCdf(components, total, mid) < p) low = mid;
+      else high = mid;
+    }
+    return high;
+  },
+
+  percentiles(components: readonly LatencyComponent[]): LatencyPercentiles {
+    return {
+      p50: this.percentile(components, 0.5),
+      p95: this.percentile(components, 0.95),
+      p99: this.percentile(components, 0.99)
+    };
+  }
+};
@@ -0,0 +1,356 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CityState, CityAction, ActionSource, SimulationEvent, SimulationRecording, UndoHistory } from '../../types';
+import { SimulationEngine } from './engine';
+import { TransitEngine } from './transit';
+import { ChaosEngine } from './chaos';
+import { HistoryStore } from './history';
+import { FLOW_PACKETS, HUBS_DATA } from '../../data/content';
+
+/** A full state snapshot is kept every N events so seeking never replays the whole log. */
+const SNAPSHOT_INTERVAL = 100;
+
+/**
+ * Events kept in a live session. Past it, the oldest snapshot interval is
+ * dropped and the recording rebased onto the next snapshot, so memory and the
+ * cost of each tick stay bounded however long the session runs.
+ */
+export const MAX_RECORDED_EVENTS = 20 * SNAPSHOT_INTERVAL;
+
+/** Mutations with an exact compensating action, and who may undo them. */
+const UNDOABLE_ACTIONS: ReadonlySet<CityAction['type']> = new Set([
+  'TOGGLE_DISTRICT', 'SET_TRANSIT_HUB', 'SET_TRANSIT_WEIGHTS', 'TOGGLE_TRANSIT_HUB', 'SET_FAILOVER_THRESHOLD', 'TOGGLE_GPU_BOOST',
+  'INJECT_FAULT', 'CLEAR_FAULT', 'SET_TOPOLOGY'
+]);
+const UNDOABLE_SOURCES: ReadonlySet<ActionSource> = new Set(['user', 'ai']);
+
+/** Actions that start a fresh run and therefore close the undo history. */
+const HISTORY_BOUNDARIES: ReadonlySet<CityAction['type']> = new Set(['RESET', 'RESEED']);
+
+/**
+ * Event-sourced session: the recording plus derived snapshots and the state on display.
+ */
+export interface TimelineSession {
+  readonly recording: SimulationRecording;
+  /** snapshots[k] is the state after k * SNAPSHOT_INTERVAL events */
+  readonly snapshots: readonly CityState[];
+  /** State after every recorded event */
+  readonly present: CityState;
+  /** Event index being viewed, or null when following the present */
+  readonly cursor: number | null;
+  /** State on display: `present`, or the state at `cursor` */
+  readonly view: CityState;
+}
+
+export type TimelineAction =
+  | { readonly type: 'RECORD'; readonly source: ActionSource; readonly action: CityAction }
+  | { readonly type: 'SEEK'; readonly index: number | null }
+  | { readonly type: 'ADVANCE' }
+  | { readonly type: 'BRANCH' }
+  | { readonly type: 'LOAD'; readonly recording: SimulationRecording }
+  | { readonly type: 'UNDO'; readonly source: ActionSource }
+  | { readonly type: 'REDO'; readonly source: ActionSource };
+
+const replay = (from: CityState, events: readonly SimulationEvent[]): CityState =>
+  events.reduce((state, event) => SimulationEngine.reduce(state, event.action, event.source), from);
+
+/**
+ * Drops the oldest snapshot interval once the log outgrows its limit: the
+ * next snapshot becomes the initial state and the remaining events are
+ * renumbered. Undo and redo of changes before the window are no longer possible.
+ */
+const retain = (
+  recording: SimulationRecording,
+  snapshots: readonly CityState[]
+): Pick<TimelineSession, 'recording' | 'snapshots'> => {
+  if (recording.events.length <= MAX_RECORDED_EVENTS) return { recording, snapshots };
+  const events = recording.events.slice(SNAPSHOT_INTERVAL).map(event => ({
+    ...event,
+    seq: event.seq - SNAPSHOT_INTERVAL,
+    ...(event.revises && { revises: { ...event.revises, seq: event.revises.seq - SNAPSHOT_INTERVAL } })
+  }));
+  return { recording: { ...recording, initial: snapshots[1], events }, snapshots: snapshots.slice(1) };
+};
+
+/**
+ * Recomputes snapshots and the present state from a recording.
+ */
+const rebuild = (recording: SimulationRecording): Pick<TimelineSession, 'snapshots' | 'present'> => {
+  const snapshots: CityState[] = [recording.initial];
+  let state = recording.initial;
+  recording.events.forEach((event, i) => {
+    state = SimulationEngine.reduce(state, event.action, event.source);
+    if ((i + 1) % SNAPSHOT_INTERVAL === 0) snapshots.push(state);
+  });
+  return { snapshots, present: state };
+};
+
+/**
+ * Event-sourced log of every CityState transition, with time travel.
+ * Because the engine is a pure reducer seeded on the clock, replaying the
+ * recorded actions onto the initial state reproduces every intermediate state.
+ */
+export const TimelineRecorder = {
+  start(initial: CityState): TimelineSession {
+    return {
+      recording: { version: 1, initial, events: [] },
+      snapshots: [initial],
+      present: initial,
+      cursor: null,
+      view: initial
+    };
+  },
+
+  /**
+   * State after the first `index` events.
+   */
+  stateAt(session: TimelineSession, index: number): CityState {
+    const { events } = session.recording;
+    const bounded = Math.max(0, Math.min(index, events.length));
+    if (bounded === events.length) return session.present;
+
+    const k = Math.min(Math.floor(bounded / SNAPSHOT_INTERVAL), session.snapshots.length - 1);
+    return replay(session.snapshots[k], events.slice(k * SNAPSHOT_INTERVAL, bounded));
+  },
+
+  /**
+   * Applies and logs an action. Recording while viewing the past branches the
+   * timeline: events after the cursor are discarded first. Undo/redo events are
+   * always logged, even when a later change already reverted their effect, so
+   * the undo stacks stay aligned with what the user did.
+   */
+  record(
+    session: TimelineSession,
+    source: ActionSource,
+    action: CityAction,
+    revises?: SimulationEvent['revises']
+  ): TimelineSession {
+    const base = session.cursor === null ? session : this.branch(session);
+    const next = SimulationEngine.reduce(base.present, action, source);
+    if (next === base.present && !revises) return base;
+
+    const events = base.recording.events;
+    const event: SimulationEvent = {
+      seq: events.length,
+      source,
+      action,
+      at: base.present.clock.elapsed,
+      ...(revises && { revises })
+    };
+    const nextEvents = [...events, event];
+    const { recording, snapshots } = retain(
+      { ...base.recording, events: nextEvents },
+      nextEvents.length % SNAPSHOT_INTERVAL === 0 ? [...base.snapshots, next] : base.snapshots
+    );
+
+    return {
+      recording,
+      snapshots,
+      present: next,
+      cursor: null,
+      view: next
+    };
+  },
+
+  /**
+   * Moves the cursor; an index at or past the end returns to the present.
+   */
+  seek(session: TimelineSession, index: number | null): TimelineSession {
+    const { events } = session.recording;
+    if (index === null || index >= events.length) return { ...session, cursor: null, view: session.present };
+    const cursor = Math.max(0, Math.floor(index));
+    return { ...session, cursor, view: this.stateAt(session, cursor) };
+  },
+
+  /**
+   * Advances the cursor past the next clock tick, applying any actions before it.
+   */
+  advance(session: TimelineSession): TimelineSession {
+    if (session.cursor === null) return session;
+    const { events } = session.recording;
+    let index = session.cursor;
+    while (index < events.length && events[index].action.type !== 'TICK') index++;
+    return this.seek(session, index + 1);
+  },
+
+  /**
+   * Truncates the log at the cursor so the run continues live from there.
+   */
+  branch(session: TimelineSession): TimelineSession {
+    if (session.cursor === null) return session;
+    const cursor = session.cursor;
+    const recording = { ...session.recording, events: session.recording.events.slice(0, cursor) };
+    return {
+      recording,
+      snapshots: session.snapshots.slice(0, Math.floor(cursor / SNAPSHOT_INTERVAL) + 1),
+      present: session.view,
+      cursor: null,
+      view: session.view
+    };
+  },
+
+  /**
+   * Opens a recording for review, positioned at its first event.
+   */
+  load(recording: SimulationRecording): TimelineSession {
+    const session = { recording, ...rebuild(recording), cursor: null, view: recording.initial };
+    return this.seek(session, 0);
+  },
+
+  /**
+   * Derives the undo/redo stacks from the events up to the cursor. A new
+   * undoable mutation clears the redo stack; a reset or reseed clears both.
+   * An undo or redo whose target has been dropped from the log is skipped.
+   */
+  history(session: TimelineSession): UndoHistory {
+    const { events } = session.recording;
+    const undoable: SimulationEvent[] = [];
+    let redoable: SimulationEvent[] = [];
+
+    events.slice(0, session.cursor ?? events.length).forEach(event => {
+      if (event.revises?.kind === 'undo') {
+        if (undoable.at(-1)?.seq === event.revises.seq) redoable.push(undoable.pop()!);
+      } else if (event.revises?.kind === 'redo') {
+        if (redoable.at(-1)?.seq === event.revises.seq) undoable.push(redoable.pop()!);
+      } else if (HISTORY_BOUNDARIES.has(event.action.type)) {
+        undoable.length = 0;
+        redoable = [];
+      } else if (UNDOABLE_ACTIONS.has(event.action.type) && UNDOABLE_SOURCES.has(event.source)) {
+        undoable.push(event);
+        redoable = [];
+      }
+    });
+    return { undoable, redoable };
+  },
+
+  /**
+   * Records the compensating action of the most recent undoable event.
+   * Toggles are their own inverse; transit, threshold, fault and topology
+   * changes restore the configuration in place just before them.
+   */
+  undo(session: TimelineSession, source: ActionSource): TimelineSession {
+    const base = this.branch(session);
+    const target = this.history(base).undoable.at(-1);
+    if (!target) return session;
+
+    const before = () => this.stateAt(base, target.seq).transit;
+    let inverse: CityAction = target.action;
+    if (target.action.type === 'SET_TRANSIT_HUB' || target.action.type === 'SET_TRANSIT_WEIGHTS') {
+      inverse = { type: 'SET_TRANSIT_WEIGHTS', weights: before().weights };
+    } else if (target.action.type === 'SET_FAILOVER_THRESHOLD') {
+      inverse = { type: 'SET_FAILOVER_THRESHOLD', threshold: before().failoverThreshold };
+    } else if (target.action.type === 'INJECT_FAULT' || target.action.type === 'CLEAR_FAULT') {
+      const id = target.action.type === 'INJECT_FAULT' ? ChaosEngine.faultId(target.action.fault) : target.action.id;
+      const previous = this.stateAt(base, target.seq).faults.find(f => f.id === id);
+      inverse = previous ? { type: 'INJECT_FAULT', fault: previous.fault } : { type: 'CLEAR_FAULT', id };
+    } else if (target.action.type === 'SET_TOPOLOGY') {
+      const { topology, flows } = this.stateAt(base, target.seq);
+      inverse = {
+        type: 'SET_TOPOLOGY',
+        topology,
+        change: `Restore ${topology.length} districts`,
+        ...(target.action.flows && { flows })
+      };
+    }
+    return this.record(base, source, inverse, { kind: 'undo', seq: target.seq });
+  },
+
+  /**
+   * Re-applies the most recently undone event.
+   */
+  redo(session: TimelineSession, source: ActionSource): TimelineSession {
+    const base = this.branch(session);
+    const target = this.history(base).redoable.at(-1);
+    if (!target) return session;
+    return this.record(base, source, target.action, { kind: 'redo', seq: target.seq });
+  },
+
+  reduce(session: TimelineSession, action: TimelineAction): TimelineSession {
+    switch (action.type) {
+      case 'RECORD': return TimelineRecorder.record(session, action.source, action.action);
+      case 'SEEK': return TimelineRecorder.seek(session, action.index);
+      case 'ADVANCE': return TimelineRecorder.advance(session);
+      case 'BRANCH': return TimelineRecorder.branch(session);
+      case 'LOAD': return TimelineRecorder.load(action.recording);
+      case 'UNDO': return TimelineRecorder.undo(session, action.source);
+      case 'REDO': return TimelineRecorder.redo(session, action.source);
+      default: return session;
+    }
+  },
+
+  serialize(session: TimelineSession): string {
+    return JSON.stringify(session.recording);
+  },
+
+  /**
+   * Parses an exported recording, throwing a descriptive error when malformed.
+   */
+  parse(json: string): SimulationRecording {
+    let raw: any;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error('Recording is not valid JSON.');
+    }
+    if (!raw || raw.version !== 1) throw new Error('Unsupported recording version.');
+    if (!raw.initial?.districts || !raw.initial?.clock) throw new Error('Recording is missing its initial state.');
+    if (!Array.isArray(raw.events)) throw new Error('Recording is missing its event log.');
+
+    raw.events.forEach((event: any, i: number) => {
+      if (typeof event?.action?.type !== 'string') throw new Error(`Event ${i} has no action.`);
+    });
+    // Recordings made before chaos faults, SLOs, alerting, history and metric ingestion existed start with none of them,
+    // and those made before the topology editor or flow imports with the founding districts and flows
+    return {
+      ...raw,
+      initial: {
+        ...raw.initial,
+        faults: raw.initial.faults ?? [],
+        slo: raw.initial.slo ?? {},
+        alerts: raw.initial.alerts ?? { pending: {}, incidents: [] },
+        history: raw.initial.history ?? HistoryStore.createInitialState(),
+        observed: raw.initial.observed ?? null,
+        topology: raw.initial.topology ?? HUBS_DATA,
+        flows: raw.initial.flows ?? FLOW_PACKETS
+      }
+    } as SimulationRecording;
+  },
+
+  /**
+   * Short label for a logged action, e.g. "Toggle DATA".
+   */
+  describe(action: CityAction): string {
+    switch (action.type) {
+      case 'TICK': return 'Clock tick';
+      case 'TOGGLE_DISTRICT': return `Toggle ${action.id}`;
+      case 'SET_TRANSIT_HUB': return `Transit → ${action.hub}`;
+      case 'SET_TRANSIT_WEIGHTS': return `Transit → ${TransitEngine.describe(action.weights)}`;
+      case 'TOGGLE_TRANSIT_HUB': return `Toggle hub ${action.hub}`;
+      case 'SET_FAILOVER_THRESHOLD': return `Failover at ${action.threshold}%`;
+      case 'TOGGLE_GPU_BOOST': return 'Toggle GPU boost';
+      case 'INJECT_FAULT': return `Chaos: ${ChaosEngine.describe(action.fault)}`;
+      case 'CLEAR_FAULT': return `Clear ${action.id}`;
+      case 'ACK_INCIDENT': return `Acknowledge ${action.id}`;
+      case 'INGEST_METRICS': return `Metrics from ${action.observed.origin}`;
+      case 'CLEAR_METRICS': return 'Synthetic telemetry';
+      case 'SET_TOPOLOGY': return `Topology: ${action.change}`;
+      case 'RESET': return 'Reset simulation';
+      case 'SET_PAUSED': return action.paused ? 'Pause clock' : 'Resume clock';
+      case 'SET_SPEED': return `Speed ${action.speed}x`;
+      case 'RESEED': return `Reseed ${action.seed}`;
+    }
+  },
+
+  /**
+   * Label for a logged event, naming the undone or redone change when revising one.
+   */
+  label(event: SimulationEvent, events: readonly SimulationEvent[]): string {
+    if (!event.revises) return this.describe(event.action);
+    const target = events[event.revises.seq];
+    const verb = event.revises.kind === 'undo' ? 'Undo' : 'Redo';
+    return target ? `${verb}: ${this.describe(target.action)}` : verb;
+  }
+};
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DataFlowPacket,
+  DistrictResilience,
+  DistrictStatus,
+  HubId,
+  HubNode,
+  MinCut,
+  ResilienceReport,
+  Road,
+  TransitState
+} from '../../types';
+import { Adjacency, RoutingEngine } from './routing';
+import { TransitProfiles } from './transit';
+
+const ROADS_ONLY = { Manual: 1 };
+
+/**
+ * Orders a road's ends as the districts appear in the topology.
+ */
+const road = (order: readonly HubId[], a: HubId, b: HubId): Road =>
+  order.indexOf(a) <= order.indexOf(b) ? [a, b] : [b, a];
+
+/**
+ * Tarjan's low-link search: districts and roads whose loss disconnects the network.
+ */
+const cutVertices = (adjacency: Adjacency, order: readonly HubId[]) => {
+  const discovered = new Map<HubId, number>();
+  const low = new Map<HubId, number>();
+  const points = new Set<HubId>();
+  const bridges: Road[] = [];
+  let time = 0;
+
+  const visit = (id: HubId, parent: HubId | null) => {
+    discovered.set(id, time);
+    low.set(id, time++);
+    let children = 0;
+    (adjacency.get(id) ?? []).forEach(next => {
+      if (!discovered.has(next)) {
+        children++;
+        visit(next, id);
+        low.set(id, Math.min(low.get(id)!, low.get(next)!));
+        if (parent !== null && low.get(next)! >= discovered.get(id)!) points.add(id);
+        if (low.get(next)! > discovered.get(id)!) bridges.push(road(order, id, next));
+      } else if (next !== parent) {
+        low.set(id, Math.min(low.get(id)!, discovered.get(next)!));
+      }
+    });
+    if (parent === null && children > 1) points.add(id);
+  };
+
+  order.forEach(id => { if (!discovered.has(id)) visit(id, null); });
+  const rank = (r: Road) => order.indexOf(r[0]) * order.length + order.indexOf(r[1]);
+  return { points: order.filter(id => points.has(id)), bridges: bridges.sort((a, b) => rank(a) - rank(b)) };
+};
+
+/**
+ * Brandes' algorithm on the unweighted road network, normalized so 1 means
+ * every shortest path between two other districts passes through.
+ */
+const betweenness = (adjacency: Adjacency, order: readonly HubId[]): Map<HubId, number> => {
+  const score = new Map<HubId, number>(order.map(id => [id, 0]));
+
+  order.forEach(source => {
+    const stack: HubId[] = [];
+    const predecessors = new Map<HubId, HubId[]>(order.map(id => [id, []]));
+    const paths = new Map<HubId, number>(order.map(id => [id, 0]));
+    const distance = new Map<HubId, number>([[source, 0]]);
+    paths.set(source, 1);
+    const queue = [source];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      stack.push(id);
+      (adjacency.get(id) ?? []).forEach(next => {
+        if (!distance.has(next)) {
+          distance.set(next, distance.get(id)! + 1);
+          queue.push(next);
+        }
+        if (distance.get(next) === distance.get(id)! + 1) {
+          paths.set(next, paths.get(next)! + paths.get(id)!);
+          predecessors.get(next)!.push(id);
+        }
+      });
+    }
+
+    const dependency = new Map<HubId, number>(order.map(id => [id, 0]));
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      predecessors.get(id)!.forEach(previous => {
+        dependency.set(previous, dependency.get(previous)! + (paths.get(previous)! / paths.get(id)!) * (1 + dependency.get(id)!));
+      });
+      if (id !== source) score.set(id, score.get(id)! + dependency.get(id)!);
+    }
+  });
+
+  // Each undirected pair was counted from both ends
+  const pairs = ((order.length - 1) * (order.length - 2)) / 2;
+  return new Map(order.map(id => [id, pairs > 0 ? score.get(id)! / 2 / pairs : 0]));
+};
+
+/**
+ * Graph analytics over the district road network: single points of failure,
+ * centrality, minimum cuts and the flows each district's failure strands.
+ * Roads are undirected, as in routing.
+ */
+export const ResilienceAnalyzer = {
+  /**
+   * Fewest roads to lose before `from` and `to` are separated, by unit-capacity
+   * max-flow (Edmonds–Karp); the cut is the roads leaving the side still
+   * reachable from `from` once the flow saturates.
+   */
+  minCut(topology: readonly HubNode[], from: HubId, to: HubId): MinCut {
+    const adjacency = RoutingEngine.adjacency(topology);
+    const order = topology.map(h => h.id);
+    if (from === to || !adjacency.has(from) || !adjacency.has(to)) return { from, to, size: 0, roads: [] };
+
+    // Residual capacity per direction; each road carries one unit either way
+    const residual = new Map<string, number>();
+    adjacency.forEach((neighbours, id) => neighbours.forEach(next => residual.set(`${id}>${next}`, 1)));
+    const capacity = (a: HubId, b: HubId) => residual.get(`${a}>${b}`) ?? 0;
+
+    const search = (): Map<HubId, HubId | null> => {
+      const previous = new Map<HubId, HubId | null>([[from, null]]);
+      const queue = [from];
+      while (queue.length > 0 && !previous.has(to)) {
+        const id = queue.shift()!;
+        (adjacency.get(id) ?? []).forEach(next => {
+          if (!previous.has(next) && capacity(id, next) > 0) {
+            previous.set(next, id);
+            queue.push(next);
+          }
+        });
+      }
+      return previous;
+    };
+
+    let size = 0;
+    for (let reached = search(); reached.has(to); reached = search()) {
+      for (let id = to; reached.get(id) !== null; id = reached.get(id)!) {
+        const previous = reached.get(id)!;
+        residual.set(`${previous}>${id}`, capacity(previous, id) - 1);
+        residual.set(`${id}>${previous}`, capacity(id, previous) + 1);
+      }
+      size++;
+    }
+
+    const side = search();
+    const roads = order
+      .filter(id => side.has(id))
+      .flatMap(id => (adjacency.get(id) ?? []).filter(next => !side.has(next)).map(next => road(order, id, next)));
+    return { from, to, size, roads };
+  },
+
+  /**
+   * Failure impact of every district, one at a time, with all others online:
+   * the flows lost with it and the other flows it strands, both under the
+   * given transit state and with traffic on roads only.
+   */
+  failureImpact(
+    topology: readonly HubNode[],
+    flows: readonly DataFlowPacket[],
+    transit: TransitState,
+    profiles: TransitProfiles
+  ): Pick<DistrictResilience, 'district' | 'endpointFlows' | 'strandedFlows' | 'strandedByRoad'>[] {
+    const roadsOnly: TransitState = { ...transit, weights: ROADS_ONLY };
+
+    return topology.map(({ id: failed }) => {
+      const districts = Object.fromEntries(topology.map(({ id }): [HubId, DistrictStatus] =>
+        [id, { id, isActive: id !== failed, load: 0, health: 100 }]));
+      const endpoints = flows.filter(f => f.origin === failed || f.destinations.includes(failed)).map(f => f.id);
+      const stranded = (state: TransitState) => RoutingEngine.computeRoutes(flows, topology, districts, state, profiles)
+        .filter(r => r.legs.some(l => !l.delivered) && !endpoints.includes(r.flowId))
+        .map(r => r.flowId);
+
+      return {
+        district: failed,
+        endpointFlows: endpoints,
+        strandedFlows: stranded(transit),
+        strandedByRoad: stranded(roadsOnly)
+      };
+    });
+  },
+
+  /**
+   * Full report: districts ranked by criticality (single points of failure,
+   * then flows stranded over roads, then betweenness), bridges, and the
+   * weakest cut behind each flow.
+   */
+  report(
+    topology: readonly HubNode[],
+    flows: readonly DataFlowPacket[],
+    transit: TransitState,
+    profiles: TransitProfiles
+  ): ResilienceReport {
+    const adjacency = RoutingEngine.adjacency(topology);
+    const order = topology.map(h => h.id);
+    const { points, bridges } = cutVertices(adjacency, order);
+    const centrality = betweenness(adjacency, order);
+
+    const districts: DistrictResilience[] = this.failureImpact(topology, flows, transit, profiles)
+      .map(impact => ({
+        ...impact,
+        betweenness: centrality.get(impact.district) ?? 0,
+        isArticulationPoint: points.includes(impact.district)
+      }))
+      .sort((a, b) => Number(b.isArticulationPoint) - Number(a.isArticulationPoint)
+        || b.strandedByRoad.length - a.strandedByRoad.length
+        || b.betweenness - a.betweenness);
+
+    const flowCuts = flows
+      .filter(f => order.includes(f.origin))
+      .map(flow => {
+        const cuts = flow.destinations.filter(d => order.includes(d)).map(d => this.minCut(topology, flow.origin, d));
+        const weakest = cuts.reduce<MinCut | null>((min, cut) => !min || cut.size < min.size ? cut : min, null);
+        return weakest ? { flowId: flow.id, ...weakest } : null;
+      })
+      .filter((cut): cut is MinCut & { flowId: string } => cut !== null);
+
+    return { districts, articulationPoints: points, bridges, flowCuts };
+  },
+
+  /**
+   * Summary of a report for the assistant.
+   */
+  describe(report: ResilienceReport): string {
+    const spof = report.articulationPoints.join(', ') || 'none';
+    const bridges = report.bridges.map(([a, b]) => `${a}–${b}`).join(', ') || 'none';
+    const ranked = report.districts.slice(0, 4).map(d =>
+      `${d.district} (betweenness ${(d.betweenness * 100).toFixed(0)}%, ends ${d.endpointFlows.length} flows, strands ${d.strandedFlows.length} via hubs / ${d.strandedByRoad.length} on roads)`);
+    const fragile = report.flowCuts.filter(c => c.size <= 1).map(c => `${c.flowId} (${c.size === 0 ? 'disconnected' : `road ${c.roads.map(([a, b]) => `${a}–${b}`).join(', ')}`})`);
+    return [
+      `Single points of failure: ${spof}`,
+      `Bridges: ${bridges}`,
+      `Most critical: ${ranked.join('; ')}`,
+      `Flows one road from being cut: ${fragile.join('; ') || 'none'}`
+    ].join('\n');
+  },
+
+  /**
+   * Renders a cut, e.g. "DATA ↔ GROWTH: 2 roads (DATA–AI, OPS–GROWTH)".
+   */
+  describeCut(cut: MinCut): string {
+    if (cut.size === 0) return `${cut.from} ↔ ${cut.to}: not connected`;
+    return `${cut.from} ↔ ${cut.to}: ${cut.size} road${cut.size > 1 ? 's' : ''} (${cut.roads.map(([a, b]) => `${a}–${b}`).join(', ')})`;
+  }
+};
@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  HubId,
+  HubNode,
+  DataFlowPacket,
+  DistrictStatus,
+  TransitHubId,
+  TransitState,
+  FlowRoute,
+  RouteLeg,
+  RouteNode,
+  RouteStatus
+} from '../../types';
+import { TransitEngine, TransitProfiles, PRIMARY_TRANSIT_HUB } from './transit';
+
+export type Adjacency = ReadonlyMap<HubId, readonly HubId[]>;
+
+/**
+ * Builds an undirected adjacency list from the declared district connections.
+ * A connection listed on either side is treated as a usable road in both directions.
+ */
+const buildAdjacency = (hubs: readonly HubNode[]): Adjacency => {
+  const adjacency = new Map<HubId, HubId[]>();
+  hubs.forEach(hub => adjacency.set(hub.id, []));
+
+  const link = (a: HubId, b: HubId) => {
+    const neighbours = adjacency.get(a);
+    if (neighbours && !neighbours.includes(b)) neighbours.push(b);
+  };
+
+  hubs.forEach(hub => {
+    hub.connections.forEach(target => {
+      if (!adjacency.has(target)) return;
+      link(hub.id, target);
+      link(target, hub.id);
+    });
+  });
+  return adjacency;
+};
+
+/**
+ * Breadth-first shortest path over online districts.
+ * Returns the ordered district sequence, or null when the destination is unreachable.
+ */
+const shortestPath = (
+  adjacency: Adjacency,
+  from: HubId,
+  to: HubId,
+  isOnline: (id: HubId) => boolean
+): HubId[] | null => {
+  if (!isOnline(from) || !isOnline(to)) return null;
+  if (from === to) return [from];
+
+  const previous = new Map<HubId, HubId>();
+  const visited = new Set<HubId>([from]);
+  const queue: HubId[] = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of adjacency.get(current) ?? []) {
+      if (visited.has(next) || !isOnline(next)) continue;
+      visited.add(next);
+      previous.set(next, current);
+      if (next === to) {
+        const path: HubId[] = [to];
+        let cursor = to;
+        while (previous.has(cursor)) {
+          cursor = previous.get(cursor)!;
+          path.unshift(cursor);
+        }
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+  return null;
+};
+
+const districtNode = (id: HubId): RouteNode => ({ kind: 'district', id });
+
+/**
+ * Resolves the stops a packet takes from origin to destination.
+ * Hub-based transit is a star topology: origin → hub → destination.
+ * Manual transit falls back to point-to-point roads between online districts.
+ */
+const resolvePath = (
+  adjacency: Adjacency,
+  origin: HubId,
+  destination: HubId,
+  transitHub: TransitHubId,
+  isOnline: (id: HubId) => boolean
+): RouteNode[] | null => {
+  if (!isOnline(origin) || !isOnline(destination)) return null;
+
+  if (transitHub !== 'Manual') {
+    return [districtNode(origin), { kind: 'transit', id: transitHub }, districtNode(destination)];
+  }
+
+  const districts = shortestPath(adjacency, origin, destination, isOnline);
+  return districts ? districts.map(districtNode) : null;
+};
+
+const samePath = (a: readonly RouteNode[], b: readonly RouteNode[] | null) =>
+  !!b && a.length === b.length && a.every((node, i) => node.kind === b[i].kind && node.id === b[i].id);
+
+const deriveStatus = (legs: readonly RouteLeg[]): RouteStatus => {
+  const delivered = legs.filter(l => l.delivered).length;
+  if (delivered === 0) return 'broken';
+  if (delivered < legs.length) return 'degraded';
+  return legs.some(l => l.rerouted) ? 'rerouted' : 'nominal';
+};
+
+/**
+ * Graph-based routing engine for the city simulation.
+ * Computes, for every flow, the path taken through the active transit hub and districts.
+ */
+export const RoutingEngine = {
+  /**
+   * Computes routes for all flows under the given district statuses and transit mix.
+   * Each leg's path follows the hub carrying the largest share of the flow.
+   * Nominal paths are those taken with every district online and a fresh transit mix.
+   */
+  computeRoutes(
+    flows: readonly DataFlowPacket[],
+    hubs: readonly HubNode[],
+    districts: Readonly<Record<HubId, DistrictStatus>>,
+    transit: TransitState,
+    profiles: TransitProfiles
+  ): FlowRoute[] {
+    const adjacency = buildAdjacency(hubs);
+    const isOnline = (id: HubId) => districts[id]?.isActive ?? false;
+    const allOnline = (id: HubId) => adjacency.has(id);
+    const nominalTransit = TransitEngine.createInitialState(Object.keys(profiles) as TransitHubId[]);
+
+    return flows.map(flow => {
+      const split = TransitEngine.split(flow, transit, profiles);
+      const carrier = split[0].hub;
+      const nominalCarrier = TransitEngine.split(flow, nominalTransit, profiles)[0].hub;
+
+      const legs: RouteLeg[] = flow.destinations.map(destination => {
+        const path = resolvePath(adjacency, flow.origin, destination, carrier, isOnline);
+        if (!path) return { destination, path: [], delivered: false, rerouted: false };
+
+        const nominal = resolvePath(adjacency, flow.origin, destination, nominalCarrier, allOnline);
+        return { destination, path, delivered: true, rerouted: !samePath(path, nominal) };
+      });
+
+      const status = deriveStatus(legs);
+      return { flowId: flow.id, status, carrier, split, legs, reason: this.explain(flow, legs, isOnline, transit, carrier) };
+    });
+  },
+
+  /**
+   * Produces a short cause for a non-nominal route, or undefined when nominal.
+   */
+  explain(
+    flow: DataFlowPacket,
+    legs: readonly RouteLeg[],
+    isOnline: (id: HubId) => boolean,
+    transit: TransitState,
+    carrier: TransitHubId
+  ): string | undefined {
+    if (!isOnline(flow.origin)) return `Origin ${flow.origin} offline`;
+
+    const undelivered = legs.filter(l => !l.delivered).map(l => l.destination);
+    if (undelivered.length > 0) {
+      const offline = undelivered.filter(id => !isOnline(id));
+      return offline.length === undelivered.length
+        ? `Destination ${offline.join(', ')} offline`
+        : `No path to ${undelivered.join(', ')}`;
+    }
+
+    if (legs.some(l => l.rerouted)) {
+      const lost = TransitEngine.unavailable(transit)
+        .map(hub => hub.isOnline ? `${hub.id} drained (${hub.health.toFixed(0)}%)` : `${hub.id} offline`);
+      if (lost.length > 0) return `${lost.join(', ')} · failover via ${carrier}`;
+      if (!transit.weights[carrier]) return `${TransitEngine.describe(transit.weights)} cannot carry ${flow.type} flows`;
+      return carrier === PRIMARY_TRANSIT_HUB
+        ? 'Alternate path in use'
+        : `Failover via ${carrier}`;
+    }
+    return undefined;
+  },
+
+  /**
+   * Undirected road network of the districts: each district's neighbours.
+   */
+  adjacency(hubs: readonly HubNode[]): Adjacency {
+    return buildAdjacency(hubs);
+  },
+
+  /**
+   * Renders a route leg as an arrow-separated path, e.g. "DATA → n8n → GROWTH".
+   */
+  formatPath(leg: RouteLeg): string {
+    return leg.delivered ? leg.path.map(node => node.id).join(' → ') : `✕ ${leg.destination}`;
+  },
+
+  /**
+   * Collects the district-to-district connections carrying traffic, keyed as sorted "A-B" pairs.
+   */
+  activeConnections(routes: readonly FlowRoute[]): Set<string> {
+    const pairs = new Set<string>();
+    routes.forEach(route => route.legs.forEach(leg => {
+      for (let i = 1; i < leg.path.length; i++) {
+        const a = leg.path[i - 1];
+        const b = leg.path[i];
+        if (a.kind === 'district' && b.kind === 'district') pairs.add([a.id, b.id].sort().join('-'));
+      }
+    }));
+    return pairs;
+  },
+
+  /**
+   * Summarizes routes for inclusion in the assistant's live context.
+   */
+  describe(flows: readonly DataFlowPacket[], routes: readonly FlowRoute[]): string {
+    return routes.map(route => {
+      const flow = flows.find(f => f.id === route.flowId);
+      const paths = route.legs.map(leg => this.formatPath(leg)).join('; ');
+      return `${flow?.label ?? route.flowId} [${route.status}${route.reason ? `: ${route.reason}` : ''}] ${paths}`;
+    }).join('\n');
+  }
+};
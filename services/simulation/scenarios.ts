@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Scenario, ScenarioStep, HubId, TransitHubId } from '../../types';
+import { TRANSIT_HUB_IDS } from '../../data/content';
+
+const STEP_ACTIONS: readonly ScenarioStep['action'][] = [
+  'FAIL_DISTRICT', 'RESTORE_DISTRICT', 'SWITCH_TRANSIT', 'SET_GPU_BOOST', 'RESET'
+];
+
+const isHubId = (value: unknown, districts: readonly HubId[]): value is HubId =>
+  typeof value === 'string' && districts.includes(value);
+
+const isTransitHub = (value: unknown): value is TransitHubId =>
+  typeof value === 'string' && (TRANSIT_HUB_IDS as readonly string[]).includes(value);
+
+/**
+ * Validates a single raw step, throwing with its position on failure.
+ */
+const parseStep = (raw: any, index: number, districts: readonly HubId[]): ScenarioStep => {
+  const where = `Step ${index + 1}`;
+  if (!raw || typeof raw !== 'object') throw new Error(`${where}: expected an object.`);
+  if (typeof raw.at !== 'number' || !Number.isFinite(raw.at) || raw.at < 0) {
+    throw new Error(`${where}: "at" must be a non-negative number of seconds.`);
+  }
+  if (!STEP_ACTIONS.includes(raw.action)) {
+    throw new Error(`${where}: unknown action "${raw.action}". Expected one of ${STEP_ACTIONS.join(', ')}.`);
+  }
+  const note = typeof raw.note === 'string' ? raw.note : undefined;
+
+  switch (raw.action as ScenarioStep['action']) {
+    case 'FAIL_DISTRICT':
+    case 'RESTORE_DISTRICT':
+      if (!isHubId(raw.target, districts)) throw new Error(`${where}: "${raw.target}" is not a known district.`);
+      return { at: raw.at, action: raw.action, target: raw.target, note };
+    case 'SWITCH_TRANSIT':
+      if (!isTransitHub(raw.target)) throw new Error(`${where}: "${raw.target}" is not a known transit hub.`);
+      return { at: raw.at, action: 'SWITCH_TRANSIT', target: raw.target, note };
+    case 'SET_GPU_BOOST':
+      if (typeof raw.enabled !== 'boolean') throw new Error(`${where}: "enabled" must be true or false.`);
+      return { at: raw.at, action: 'SET_GPU_BOOST', enabled: raw.enabled, note };
+    case 'RESET':
+      return { at: raw.at, action: 'RESET', note };
+  }
+};
+
+/**
+ * Scenario scripting support: parsing, validation and timeline helpers.
+ * Playback itself is driven by the simulation clock in `useScenarioRunner`.
+ */
+export const ScenarioRunner = {
+  /**
+   * Parses and validates a JSON scenario definition against the current
+   * districts. Steps are sorted by `at`.
+   */
+  parse(json: string, districts: readonly HubId[]): Scenario {
+    let raw: any;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error('Scenario is not valid JSON.');
+    }
+    if (!raw || typeof raw !== 'object') throw new Error('Scenario must be a JSON object.');
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error('Scenario requires a "name".');
+    if (!Array.isArray(raw.steps) || raw.steps.length === 0) throw new Error('Scenario requires a non-empty "steps" array.');
+
+    const steps = raw.steps.map((step: any, i: number) => parseStep(step, i, districts)).sort((a: ScenarioStep, b: ScenarioStep) => a.at - b.at);
+    return {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : `custom-${raw.name.trim().toLowerCase().replace(/\W+/g, '-')}`,
+      name: raw.name.trim(),
+      description: typeof raw.description === 'string' ? raw.description : '',
+      steps
+    };
+  },
+
+  /**
+   * Districts the scenario targets that are not in `districts`, such as ones
+   * removed in the topology editor. A scenario with any cannot run as scripted.
+   */
+  missingDistricts(scenario: Scenario, districts: readonly HubId[]): HubId[] {
+    const targets = scenario.steps.flatMap(step =>
+      step.action === 'FAIL_DISTRICT' || step.action === 'RESTORE_DISTRICT' ? [step.target] : []);
+    return Array.from(new Set(targets)).filter(id => !districts.includes(id));
+  },
+
+  /**
+   * Simulated seconds until the final step fires.
+   */
+  duration(scenario: Scenario): number {
+    return scenario.steps.reduce((max, step) => Math.max(max, step.at), 0);
+  },
+
+  /**
+   * One-line description of a step, e.g. "DATA fails".
+   */
+  describeStep(step: ScenarioStep): string {
+    switch (step.action) {
+      case 'FAIL_DISTRICT': return `${step.target} fails`;
+      case 'RESTORE_DISTRICT': return `${step.target} restored`;
+      case 'SWITCH_TRANSIT': return `Switch transit to ${step.target}`;
+      case 'SET_GPU_BOOST': return `GPU boost ${step.enabled ? 'on' : 'off'}`;
+      case 'RESET': return 'Reset simulation';
+    }
+  }
+};
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BurnRateAlert, HubId, ServiceLevelObjective, SloLedger, SloSample, SloStatus } from '../../types';
+import { LatencyComponent, QueueingModel } from './queueing';
+
+/** Seconds of recent history behind the time-to-exhaustion projection. */
+const TREND_WINDOW = 60;
+
+/**
+ * Traffic outcome of one flow leg during a tick; the events SLOs are measured against.
+ */
+export interface LegOutcome {
+  readonly flowId: string;
+  readonly origin: HubId;
+  readonly destination: HubId;
+  /** Packets per second offered to the leg */
+  readonly offered: number;
+  /** Packets per second delivered */
+  readonly delivered: number;
+  /** Latency mixture of the delivered packets */
+  readonly latency: readonly LatencyComponent[];
+}
+
+const inScope = (slo: ServiceLevelObjective, leg: LegOutcome) =>
+  slo.scope.kind === 'flow'
+    ? leg.flowId === slo.scope.id
+    : leg.origin === slo.scope.id || leg.destination === slo.scope.id;
+
+const sum = (samples: readonly SloSample[]): SloSample =>
+  samples.reduce((acc, s) => ({ good: acc.good + s.good, total: acc.total + s.total }), { good: 0, total: 0 });
+
+/** Most recent samples covering `seconds`, at least one. */
+const recent = (samples: readonly SloSample[], seconds: number, dt: number) =>
+  samples.slice(-Math.max(1, Math.round(seconds / dt)));
+
+const badRatio = ({ good, total }: SloSample) => total > 0 ? 1 - good / total : 0;
+
+/**
+ * Error budgets measured from simulated outcomes. Every tick adds one good/total
+ * sample per objective; budgets, burn rates and projections are derived from
+ * the samples within the compliance period.
+ */
+export const SloEngine = {
+  /**
+   * Counts the good and total packets of one tick that fall under an objective.
+   * Latency objectives only count delivered packets; losses burn availability.
+   */
+  sample(slo: ServiceLevelObjective, outcomes: readonly LegOutcome[], dt: number): SloSample {
+    return outcomes.filter(leg => inScope(slo, leg)).reduce((acc, leg) => slo.indicator === 'latency'
+      ? {
+        good: acc.good + leg.delivered * QueueingModel.cdf(leg.latency, slo.thresholdMs ?? Infinity) * dt,
+        total: acc.total + leg.delivered * dt
+      }
+      : { good: acc.good + leg.delivered * dt, total: acc.total + leg.offered * dt },
+    { good: 0, total: 0 });
+  },
+
+  /**
+   * Appends a tick's samples, dropping those older than the compliance period.
+   */
+  record(
+    ledger: SloLedger,
+    slos: readonly ServiceLevelObjective[],
+    outcomes: readonly LegOutcome[],
+    period: number,
+    dt: number
+  ): SloLedger {
+    const retained = Math.ceil(period / dt);
+    return Object.fromEntries(slos.map(slo =>
+      [slo.id, [...(ledger[slo.id] ?? []), this.sample(slo, outcomes, dt)].slice(-retained)]));
+  },
+
+  /**
+   * Rate at which the error budget is consumed: 1 spends exactly the budget over the period.
+   */
+  burnRate(slo: ServiceLevelObjective, samples: readonly SloSample[]): number {
+    return badRatio(sum(samples)) / (1 - slo.objective);
+  },
+
+  /**
+   * Evaluates an objective's budget and alerts. The budget is the allowance
+   * applied to the traffic expected over the whole compliance period, projected
+   * from the rate observed so far.
+   */
+  evaluate(
+    slo: ServiceLevelObjective,
+    samples: readonly SloSample[],
+    alerts: readonly BurnRateAlert[],
+    period: number,
+    dt: number
+  ): SloStatus {
+    const observed = sum(samples);
+    const expected = samples.length > 0 ? observed.total / (samples.length * dt) * period : 0;
+    const allowed = (1 - slo.objective) * expected;
+    const spent = observed.total - observed.good;
+
+    const burnRates = alerts.map(alert => {
+      const long = this.burnRate(slo, recent(samples, alert.longWindow, dt));
+      const short = this.burnRate(slo, recent(samples, alert.shortWindow, dt));
+      return { alert, long, short, firing: long >= alert.burnRate && short >= alert.burnRate };
+    });
+
+    // Only a burn rate above 1 exhausts the budget before the period is out
+    const trend = recent(samples, TREND_WINDOW, dt);
+    const trendTotals = sum(trend);
+    const badPerSecond = (trendTotals.total - trendTotals.good) / (trend.length * dt);
+
+    return {
+      slo,
+      sli: observed.total > 0 ? observed.good / observed.total : 1,
+      budgetRemaining: allowed > 0 ? 1 - spent / allowed : 1,
+      burnRates,
+      timeToExhaustion: trend.length > 0 && this.burnRate(slo, trend) > 1
+        ? Math.max(0, (allowed - spent) / badPerSecond)
+        : null
+    };
+  },
+
+  /**
+   * Evaluates every objective against the ledger.
+   */
+  evaluateAll(
+    ledger: SloLedger,
+    slos: readonly ServiceLevelObjective[],
+    alerts: readonly BurnRateAlert[],
+    period: number,
+    dt: number
+  ): SloStatus[] {
+    return slos.map(slo => this.evaluate(slo, ledger[slo.id] ?? [], alerts, period, dt));
+  }
+};
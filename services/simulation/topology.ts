@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DataFlowPacket, HubId, HubNode, SubPlatform, TopologyDiagnostic } from '../../types';
+import { FlowCatalog } from '../flows';
+import { TransitProfiles } from './transit';
+
+/** Upper-case letters, digits and underscores, starting with a letter. */
+const DISTRICT_ID = /^[A-Z][A-Z0-9_]{1,11}$/;
+
+/** The radial layout stops being legible beyond this many districts. */
+export const MAX_DISTRICTS = 12;
+
+/** The district hosting the GPU cluster; its GPU telemetry is simulated every tick. */
+export const GPU_DISTRICT: HubId = 'AI';
+
+const sameDistrict = (a: HubNode, b: HubNode) =>
+  a.label === b.label && a.icon === b.icon && a.color === b.color && a.desc === b.desc
+  && a.connections.join() === b.connections.join()
+  && a.subPlatforms.map(p => `${p.name}:${p.role}`).join() === b.subPlatforms.map(p => `${p.name}:${p.role}`).join();
+
+/**
+ * Runtime model of the city's districts: editing operations that keep the
+ * topology well formed, validation, and diagnostics against the declared flows.
+ */
+export const TopologyModel = {
+  /**
+   * Why `id` cannot name a new district, or null when it can.
+   */
+  checkId(topology: readonly HubNode[], id: string): string | null {
+    if (!DISTRICT_ID.test(id)) return 'IDs are 2-12 upper-case letters, digits or underscores, starting with a letter.';
+    if (topology.some(h => h.id === id)) return `${id} already exists.`;
+    return null;
+  },
+
+  /**
+   * Drops duplicate districts, connections to unknown districts or to
+   * themselves, repeated connections and unnamed sub-platforms.
+   */
+  normalize(topology: readonly HubNode[]): HubNode[] {
+    const districts = topology.filter((hub, i) => topology.findIndex(h => h.id === hub.id) === i);
+    const ids = new Set(districts.map(h => h.id));
+    return districts.map(hub => ({
+      ...hub,
+      connections: hub.connections.filter((id, i) => id !== hub.id && ids.has(id) && hub.connections.indexOf(id) === i),
+      subPlatforms: hub.subPlatforms
+        .map(p => ({ name: p.name.trim(), role: p.role.trim() }))
+        .filter(p => p.name !== '')
+    }));
+  },
+
+  add(topology: readonly HubNode[], district: HubNode): HubNode[] {
+    return this.normalize([...topology, district]);
+  },
+
+  /**
+   * Removes a district along with every connection to it.
+   */
+  remove(topology: readonly HubNode[], id: HubId): HubNode[] {
+    return topology
+      .filter(h => h.id !== id)
+      .map(h => h.connections.includes(id) ? { ...h, connections: h.connections.filter(c => c !== id) } : h);
+  },
+
+  update(topology: readonly HubNode[], district: HubNode): HubNode[] {
+    return this.normalize(topology.map(h => h.id === district.id ? district : h));
+  },
+
+  /**
+   * Whether a road joins two districts, declared on either side.
+   */
+  isConnected(topology: readonly HubNode[], a: HubId, b: HubId): boolean {
+    return topology.some(h => (h.id === a && h.connections.includes(b)) || (h.id === b && h.connections.includes(a)));
+  },
+
+  /**
+   * Adds a road with `a` depending on `b`, or removes the road whichever side declared it.
+   */
+  connect(topology: readonly HubNode[], a: HubId, b: HubId, connected: boolean): HubNode[] {
+    if (connected) {
+      return this.isConnected(topology, a, b) ? [...topology] : this.normalize(
+        topology.map(h => h.id === a ? { ...h, connections: [...h.connections, b] } : h));
+    }
+    return topology.map(h =>
+      h.id === a || h.id === b ? { ...h, connections: h.connections.filter(c => c !== (h.id === a ? b : a)) } : h);
+  },
+
+  /**
+   * Folds `incoming` into `topology`: districts with a known ID take the new
+   * label and gain its roads and sub-platforms; the others are added.
+   */
+  merge(topology: readonly HubNode[], incoming: readonly HubNode[]): HubNode[] {
+    const merged = topology.map(hub => {
+      const update = incoming.find(h => h.id === hub.id);
+      if (!update) return hub;
+      return {
+        ...hub,
+        label: update.label,
+        connections: [...hub.connections, ...update.connections],
+        subPlatforms: [...hub.subPlatforms, ...update.subPlatforms.filter(p => !hub.subPlatforms.some(q => q.name === p.name))]
+      };
+    });
+    return this.normalize([...merged, ...incoming.filter(h => !topology.some(t => t.id === h.id))]);
+  },
+
+  /**
+   * `incoming` in place of `topology`. The GPU district is kept when `incoming`
+   * has none, as the simulation cannot run without it.
+   */
+  replace(topology: readonly HubNode[], incoming: readonly HubNode[]): HubNode[] {
+    const gpu = topology.find(h => h.id === GPU_DISTRICT);
+    return this.normalize(gpu && !incoming.some(h => h.id === GPU_DISTRICT) ? [...incoming, gpu] : incoming);
+  },
+
+  setPlatforms(topology: readonly HubNode[], id: HubId, subPlatforms: readonly SubPlatform[]): HubNode[] {
+    return topology.map(h => h.id === id ? { ...h, subPlatforms } : h);
+  },
+
+  /**
+   * Problems that keep a topology from being applied: too many districts or a
+   * missing GPU district. Flows it cannot carry only sit idle; see `diagnose`.
+   */
+  validate(topology: readonly HubNode[]): string[] {
+    const issues: string[] = [];
+    if (topology.length > MAX_DISTRICTS) issues.push(`At most ${MAX_DISTRICTS} districts fit the city grid.`);
+    if (!topology.some(h => h.id === GPU_DISTRICT)) issues.push(`${GPU_DISTRICT} hosts the GPU cluster and cannot be removed.`);
+    return issues;
+  },
+
+  /**
+   * Consistency report on a topology as declared, before normalization:
+   * duplicate district IDs, roads to unknown districts, roads declared on one
+   * side only, districts without roads, repeated sub-platforms, and flows
+   * left idle because their districts, platforms or roads are missing.
+   * Errors come first.
+   */
+  diagnose(topology: readonly HubNode[], flows: readonly DataFlowPacket[], profiles: TransitProfiles): TopologyDiagnostic[] {
+    const diagnostics: TopologyDiagnostic[] = [];
+    const ids = new Set(topology.map(h => h.id));
+
+    topology
+      .filter((hub, i) => topology.findIndex(h => h.id === hub.id) !== i)
+      .forEach(hub => diagnostics.push({ kind: 'duplicate-district', severity: 'error', message: `${hub.id} is declared more than once.`, districts: [hub.id] }));
+
+    topology.forEach(hub => {
+      hub.connections.filter(id => !ids.has(id)).forEach(id => diagnostics.push({
+        kind: 'unknown-district', severity: 'error', message: `${hub.id} has a road to unknown district ${id}.`, districts: [hub.id]
+      }));
+
+      hub.connections
+        .filter(id => id !== hub.id && ids.has(id) && !topology.some(h => h.id === id && h.connections.includes(hub.id)))
+        .forEach(id => diagnostics.push({
+          kind: 'asymmetric-road',
+          severity: 'warning',
+          message: `${hub.id} lists ${id}, but ${id} does not list ${hub.id}. The road carries traffic both ways; failures propagate from ${id} to ${hub.id} only.`,
+          districts: [hub.id, id]
+        }));
+
+      if (topology.length > 1 && !hub.connections.some(id => id !== hub.id && ids.has(id)) && !topology.some(h => h.id !== hub.id && h.connections.includes(hub.id))) {
+        diagnostics.push({ kind: 'orphan-district', severity: 'warning', message: `${hub.id} has no roads to any other district.`, districts: [hub.id] });
+      }
+
+      const names = hub.subPlatforms.map(p => p.name.trim().toLowerCase());
+      hub.subPlatforms
+        .filter((p, i) => names.indexOf(p.name.trim().toLowerCase()) !== i)
+        .forEach(p => diagnostics.push({
+          kind: 'duplicate-platform', severity: 'warning', message: `${hub.id} lists ${p.name.trim()} more than once.`, districts: [hub.id]
+        }));
+    });
+
+    // The same platform in several districts makes trace and metric mappings ambiguous
+    const homes = new Map<string, { name: string; districts: HubId[] }>();
+    topology.forEach(hub => hub.subPlatforms.forEach(p => {
+      const key = p.name.trim().toLowerCase();
+      const entry = homes.get(key) ?? { name: p.name.trim(), districts: [] };
+      if (!entry.districts.includes(hub.id)) entry.districts.push(hub.id);
+      homes.set(key, entry);
+    }));
+    homes.forEach(({ name, districts }) => {
+      if (districts.length > 1) {
+        diagnostics.push({ kind: 'duplicate-platform', severity: 'info', message: `${name} is listed in ${districts.join(', ')}.`, districts });
+      }
+    });
+
+    FlowCatalog.validate(flows, topology, profiles).forEach(({ flowId, message }) => {
+      const flow = flows.find(f => f.id === flowId)!;
+      diagnostics.push({
+        kind: 'idle-flow',
+        severity: 'warning',
+        message: `${flow.label} is idle: ${message}`,
+        districts: [flow.origin, ...flow.destinations].filter(id => ids.has(id)),
+        flowId
+      });
+    });
+
+    const rank = { error: 0, warning: 1, info: 2 };
+    return diagnostics.sort((a, b) => rank[a.severity] - rank[b.severity]);
+  },
+
+  /**
+   * Short description of the edits from `before` to `after`, e.g. "Add SECURITY, edit DATA".
+   */
+  diff(before: readonly HubNode[], after: readonly HubNode[]): string {
+    const added = after.filter(h => !before.some(b => b.id === h.id)).map(h => `add ${h.id}`);
+    const removed = before.filter(h => !after.some(a => a.id === h.id)).map(h => `remove ${h.id}`);
+    const edited = after
+      .filter(h => before.some(b => b.id === h.id && !sameDistrict(b, h)))
+      .map(h => `edit ${h.id}`);
+    const changes = [...added, ...removed, ...edited].join(', ');
+    return changes ? changes.charAt(0).toUpperCase() + changes.slice(1) : 'No change';
+  },
+
+  /**
+   * District inventory for the assistant's context.
+   */
+  describe(topology: readonly HubNode[]): string {
+    return topology
+      .map(h => `${h.id}: ${h.label} (Tools: ${h.subPlatforms.map(s => s.name).join(', ') || 'none'}; roads to ${h.connections.join(', ') || 'none'})`)
+      .join('; ');
+  }
+};
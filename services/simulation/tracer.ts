@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CityState,
+  DataFlowPacket,
+  FlowRoute,
+  FlowTrace,
+  FlowTraceLeg,
+  FlowTraceStatus,
+  FlowTraceStep,
+  HubId,
+  RouteNode,
+  TransitHubId
+} from '../../types';
+import { ChaosEngine } from './chaos';
+import { TransitProfiles } from './transit';
+
+/** Health (%) below which a district is reported as slowing packets down. */
+const DEGRADED_HEALTH = 50;
+
+const SEVERITY: Record<FlowTraceStatus, number> = { ok: 0, degraded: 1, failed: 2 };
+
+const worst = (statuses: readonly FlowTraceStatus[]): FlowTraceStatus =>
+  statuses.reduce<FlowTraceStatus>((acc, s) => SEVERITY[s] > SEVERITY[acc] ? s : acc, 'ok');
+
+/** Expected traversal of a hub: its base latency plus half its jitter. */
+const traversal = (profiles: TransitProfiles, hub: TransitHubId) =>
+  profiles[hub].latency.base + profiles[hub].latency.jitter / 2;
+
+/**
+ * Condition of a district for a packet passing through it.
+ */
+const districtCondition = (state: CityState, id: HubId): Pick<FlowTraceStep, 'status' | 'note'> => {
+  const district = state.districts[id];
+  if (!district?.isActive) return { status: 'failed', note: `${id} offline` };
+
+  const loss = state.faults.find(({ fault }) => fault.kind === 'PACKET_LOSS' && fault.target === id)?.fault;
+  if (loss?.kind === 'PACKET_LOSS') return { status: 'degraded', note: `${loss.loss}% packet loss` };
+  if (district.health < DEGRADED_HEALTH) return { status: 'degraded', note: `Health ${district.health.toFixed(0)}%` };
+  return { status: 'ok' };
+};
+
+/**
+ * Flow tracer: follows a single packet of a flow from its source platform,
+ * through the hub carrying it, to each target platform, pricing and timing
+ * every step and locating where it would fail under the given state.
+ */
+export const FlowTracer = {
+  /**
+   * Traces one packet of `flow` along its computed route. Delivered legs follow
+   * the route's path; undeliverable ones follow the designed path up to the
+   * step that stops them. Latencies are expectations: half the jitter, the
+   * standing queue and any injected connection latency, without sampling.
+   */
+  trace(flow: DataFlowPacket, route: FlowRoute, state: CityState, baseProfiles: TransitProfiles): FlowTrace {
+    const profiles = ChaosEngine.profiles(baseProfiles, state.faults);
+    const hubStatus = state.transit.hubs[route.carrier];
+    const queueWait = hubStatus ? (hubStatus.queueDepth / profiles[route.carrier].capacity) * 1000 : 0;
+
+    const hubCondition = (): Pick<FlowTraceStep, 'status' | 'note'> => {
+      if (route.carrier === 'Manual') return { status: 'ok' };
+      if (!hubStatus?.isOnline) return { status: 'failed', note: `${route.carrier} offline` };
+      if (hubStatus.isDrained) return { status: 'failed', note: `${route.carrier} drained (${hubStatus.health.toFixed(0)}%)` };
+      const queue = state.telemetry.hubs[route.carrier];
+      if (queue && queue.dropRate > 0) return { status: 'degraded', note: `Dropping ${queue.dropRate.toFixed(0)} pkt/s` };
+      if (queue && queue.backpressure > 0) return { status: 'degraded', note: `Backpressure ${(queue.backpressure * 100).toFixed(0)}%` };
+      return { status: 'ok' };
+    };
+
+    const traceLeg = (destination: HubId, path: readonly RouteNode[], reason?: string): FlowTraceLeg => {
+      const target = flow.targets.find(t => t.district === destination);
+      const steps: FlowTraceStep[] = [];
+
+      for (let i = 0; i < path.length; i++) {
+        const node = path[i];
+        const previous = path[i - 1];
+        let step: FlowTraceStep;
+
+        if (node.kind === 'transit') {
+          const ends = [path[0], path[path.length - 1]];
+          step = {
+            node,
+            latencyMs: traversal(profiles, node.id) + queueWait + ChaosEngine.addedLatency(ends, state.faults),
+            costPer1k: profiles[node.id].costPer1k,
+            ...hubCondition()
+          };
+        } else {
+          const platform = i === 0 ? flow.source : node.id === destination ? target : undefined;
+          // Point-to-point: each district after the first is reached over a road
+          const road = previous?.kind === 'district'
+            ? traversal(profiles, 'Manual') + (i === 1 ? queueWait : 0) + ChaosEngine.addedLatency([previous, node], state.faults)
+            : 0;
+          step = {
+            node,
+            ...(platform ? { platform: platform.platform } : {}),
+            latencyMs: road + (platform?.expectedLatencyMs ?? 0),
+            costPer1k: 0,
+            ...districtCondition(state, node.id)
+          };
+        }
+
+        steps.push(step);
+        if (step.status === 'failed') break;
+      }
+
+      // Every step was passable, yet no path exists: the last step is where it stops
+      if (reason && steps.every(s => s.status !== 'failed')) {
+        const last = steps[steps.length - 1];
+        steps[steps.length - 1] = { ...last, status: 'failed', note: reason };
+      }
+
+      return {
+        destination,
+        steps,
+        latencyMs: steps.reduce((acc, s) => acc + s.latencyMs, 0),
+        status: worst(steps.map(s => s.status))
+      };
+    };
+
+    const legs = route.legs.map(leg => {
+      if (leg.delivered) return traceLeg(leg.destination, leg.path);
+      const designed: RouteNode[] = [
+        { kind: 'district', id: flow.origin },
+        ...(route.carrier !== 'Manual' ? [{ kind: 'transit', id: route.carrier } as RouteNode] : []),
+        { kind: 'district', id: leg.destination }
+      ];
+      return traceLeg(leg.destination, designed, route.reason ?? `No path to ${leg.destination}`);
+    });
+
+    const failedLeg = legs.find(l => l.status === 'failed');
+    const failedStep = failedLeg?.steps.find(s => s.status === 'failed');
+    return {
+      flowId: flow.id,
+      legs,
+      latencyMs: Math.max(0, ...legs.map(l => l.latencyMs)),
+      // The packet crosses its hub once before fanning out to the targets
+      costPer1k: route.carrier === 'Manual' ? 0 : profiles[route.carrier].costPer1k,
+      ...(failedLeg && failedStep ? { failure: { destination: failedLeg.destination, step: failedStep } } : {})
+    };
+  },
+
+  /**
+   * Districts and hubs a trace reaches, keyed as "kind:id", for highlighting.
+   */
+  nodes(trace: FlowTrace): Set<string> {
+    return new Set(trace.legs.flatMap(leg => leg.steps.map(step => `${step.node.kind}:${step.node.id}`)));
+  }
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DataFlowPacket,
+  TransitHubId,
+  TransitHubProfile,
+  TransitHubStatus,
+  HubTelemetry,
+  TransitState,
+  TransitShare,
+  TransitWeights
+} from '../../types';
+
+export type TransitProfiles = Readonly<Record<TransitHubId, TransitHubProfile>>;
+
+/** Hub carrying all traffic in a fresh run, and the reference for nominal routes. */
+export const PRIMARY_TRANSIT_HUB: TransitHubId = 'n8n';
+
+/** Default health (%) below which a hub is drained from the mix. */
+export const DEFAULT_FAILOVER_THRESHOLD = 50;
+
+/** Extra health a drained hub must regain before traffic returns, preventing flapping. */
+const RECOVERY_MARGIN = 20;
+
+/** Time constants (seconds) for hub health to converge on its load-derived target. */
+const DEGRADE_TAU = 6;
+const RECOVER_TAU = 12;
+
+/**
+ * Point-to-point roads: always available, never drained, and the last resort
+ * when no hub in the mix can take a flow.
+ */
+const ROADS: TransitHubId = 'Manual';
+
+const approach = (current: number, target: number, dt: number, tau: number) =>
+  current + (target - current) * (1 - Math.exp(-dt / tau));
+
+/**
+ * Health a hub converges to: 100 within capacity, falling with the square of
+ * the overload beyond it, and 0 while offline.
+ */
+const targetHealth = (status: TransitHubStatus, demand: number, capacity: number) => {
+  if (!status.isOnline) return 0;
+  const saturation = demand / capacity;
+  return saturation <= 1 ? 100 : 100 / (saturation * saturation);
+};
+
+const isAvailable = (status: TransitHubStatus) => status.id === ROADS || (status.isOnline && !status.isDrained);
+
+const normalize = (entries: readonly [TransitHubId, number][]): TransitShare[] => {
+  const total = entries.reduce((acc, [, weight]) => acc + weight, 0);
+  return entries
+    .map(([hub, weight]) => ({ hub, share: weight / total }))
+    .sort((a, b) => b.share - a.share);
+};
+
+/**
+ * Weighted multi-hub transit. General traffic is split across the configured
+ * hubs in proportion to their weights; a hub whose health falls below the
+ * failover threshold is drained and its share redistributed across the rest.
+ */
+export const TransitEngine = {
+  createInitialState(ids: readonly TransitHubId[]): TransitState {
+    return {
+      weights: { [PRIMARY_TRANSIT_HUB]: 1 },
+      hubs: Object.fromEntries(ids.map(id => [id, { id, isOnline: true, health: 100, isDrained: false, queueDepth: 0 }])) as Record<TransitHubId, TransitHubStatus>,
+      failoverThreshold: DEFAULT_FAILOVER_THRESHOLD
+    };
+  },
+
+  /**
+   * Divides a flow between the available hubs in the mix that accept its type.
+   * Falls back to a dedicated hub for the type, then to point-to-point roads.
+   */
+  split(flow: DataFlowPacket, transit: TransitState, profiles: TransitProfiles): TransitShare[] {
+    const accepts = (hub: TransitHubId) => profiles[hub].carries.includes(flow.type) && isAvailable(transit.hubs[hub]);
+
+    const mixed = (Object.entries(transit.weights) as [TransitHubId, number][])
+      .filter(([hub, weight]) => weight > 0 && accepts(hub));
+    if (mixed.length > 0) return normalize(mixed);
+
+    const dedicated = Object.values(profiles).find(p => p.dedicated && accepts(p.id));
+    return [{ hub: dedicated?.id ?? ROADS, share: 1 }];
+  },
+
+  /**
+   * Hubs configured in the mix but currently unable to take traffic.
+   */
+  unavailable(transit: TransitState): TransitHubStatus[] {
+    return (Object.keys(transit.weights) as TransitHubId[])
+      .filter(hub => (transit.weights[hub] ?? 0) > 0 && !isAvailable(transit.hubs[hub]))
+      .map(hub => transit.hubs[hub]);
+  },
+
+  /**
+   * Carries queue depths forward, converges hub health on its offered load and
+   * applies failover with hysteresis: drained below the threshold, restored at
+   * threshold + RECOVERY_MARGIN. Observed health, when given, replaces the
+   * modelled health of an online hub.
+   */
+  step(
+    transit: TransitState,
+    queues: Readonly<Partial<Record<TransitHubId, HubTelemetry>>>,
+    profiles: TransitProfiles,
+    dt: number,
+    observed?: Readonly<Partial<Record<TransitHubId, { readonly health?: number }>>>
+  ): TransitState {
+    const hubs = Object.fromEntries(Object.values(transit.hubs).map(status => {
+      const queueDepth = queues[status.id]?.queueDepth ?? 0;
+      if (status.id === ROADS) return [status.id, { ...status, queueDepth }];
+
+      const target = targetHealth(status, queues[status.id]?.arrivalRate ?? 0, profiles[status.id].capacity);
+      const health = (status.isOnline ? observed?.[status.id]?.health : undefined)
+        ?? approach(status.health, target, dt, target < status.health ? DEGRADE_TAU : RECOVER_TAU);
+      const isDrained = !status.isOnline || health < transit.failoverThreshold
+        || (status.isDrained && health < Math.min(100, transit.failoverThreshold + RECOVERY_MARGIN));
+      return [status.id, { ...status, health, isDrained, queueDepth }];
+    })) as Record<TransitHubId, TransitHubStatus>;
+
+    return { ...transit, hubs };
+  },
+
+  /**
+   * Normalized configured mix, largest share first.
+   */
+  mix(weights: TransitWeights): TransitShare[] {
+    const entries = (Object.entries(weights) as [TransitHubId, number][]).filter(([, weight]) => weight > 0);
+    return entries.length > 0 ? normalize(entries) : [];
+  },
+
+  /**
+   * Renders a mix as "n8n 80% · Zapier 20%".
+   */
+  describe(weights: TransitWeights): string {
+    return this.mix(weights).map(s => `${s.hub} ${Math.round(s.share * 100)}%`).join(' · ') || ROADS;
+  },
+
+  /**
+   * Parses a hub id ("Zapier") or a split ("n8n:80,Zapier:20") into weights.
+   * Returns null when any hub is unknown or no weight is positive.
+   */
+  parseWeights(text: string, ids: readonly TransitHubId[]): TransitWeights | null {
+    const weights: Partial<Record<TransitHubId, number>> = {};
+    for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+      const [name, raw] = part.split(/[:=]/).map(p => p.trim());
+      const hub = ids.find(id => id.toLowerCase() === name.toLowerCase());
+      const weight = raw === undefined ? 1 : Number(raw.replace('%', ''));
+      if (!hub || !Number.isFinite(weight) || weight < 0) return null;
+      weights[hub] = weight;
+    }
+    return Object.values(weights).some(w => (w ?? 0) > 0) ? weights : null;
+  }
+};
@@ -0,0 +1,676 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DISTRICT_COLOR_CLASSES, DISTRICT_ICONS, TRANSIT_HUBS, TRANSIT_HUB_IDS } from '../data/content';
+import { ArchitectureGraph, DataFlowPacket, FlowHop, FlowType, HubId, HubNode, TopologyFormat, TopologyImport } from '../types';
+import { TopologyModel } from './simulation/topology';
+import { parseAllDocuments } from 'yaml';
+
+type GraphGroup = ArchitectureGraph['groups'][number];
+type GraphNode = ArchitectureGraph['nodes'][number];
+type GraphEdge = ArchitectureGraph['edges'][number];
+type GraphApi = NonNullable<ArchitectureGraph['apis']>[number];
+type Warn = (message: string) => void;
+
+export const TOPOLOGY_FORMAT_LABELS: Readonly<Record<TopologyFormat, string>> = {
+  mermaid: 'Mermaid',
+  dot: 'Graphviz DOT',
+  backstage: 'Backstage catalog'
+};
+
+const ICON_KEYS = Object.keys(DISTRICT_ICONS);
+
+/** Packets per second of a flow read from a catalog, which states no traffic. */
+const IMPORTED_ARRIVAL_RATE = 100;
+
+/** Expected processing time at each hop of a flow read from a catalog, in milliseconds. */
+const IMPORTED_HOP_LATENCY = 20;
+
+/**
+ * Adds a node, or fills in the label and role of one first seen without them.
+ */
+const upsertNode = (nodes: Map<string, GraphNode>, node: GraphNode, hasLabel: boolean) => {
+  const known = nodes.get(node.key);
+  if (!known) nodes.set(node.key, node);
+  else if (hasLabel) nodes.set(node.key, { ...known, label: node.label, ...(node.role ? { role: node.role } : {}) });
+};
+
+/**
+ * Upper-case district ID for a source key, e.g. "cluster_payments" → "PAYMENTS".
+ */
+const toDistrictId = (key: string): string => {
+  const id = key
+    .replace(/^cluster_?/i, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 12)
+    .replace(/_+$/, '');
+  if (/^[A-Z]/.test(id) && id.length >= 2) return id;
+  return `D_${id}`.slice(0, 12).padEnd(2, 'X');
+};
+
+// ---------------------------------------------------------------------------
+// Mermaid flowcharts
+// ---------------------------------------------------------------------------
+
+/** Node shapes, longest opening first so "[(" is not read as "[". Only a cylinder implies a role. */
+const MERMAID_SHAPES: readonly { open: string; close: string; role?: string }[] = [
+  { open: '[(', close: ')]', role: 'Datastore' },
+  { open: '((', close: '))' },
+  { open: '[[', close: ']]' },
+  { open: '([', close: '])' },
+  { open: '{{', close: '}}' },
+  { open: '[', close: ']' },
+  { open: '(', close: ')' },
+  { open: '{', close: '}' },
+  { open: '>', close: ']' }
+];
+
+const MERMAID_ID = /[A-Za-z0-9_]+(?:[.-][A-Za-z0-9_]+)*/y;
+
+/** Arrow or line between nodes, with an optional |label|. */
+const MERMAID_LINK = /\s*<?(?:-{2,}|={2,}|-\.+-|~{3,})[->ox]?(?:\|[^|]*\|)?\s*/y;
+
+/** "A -- text --> B" style links, rewritten to plain arrows before scanning. */
+const MERMAID_TEXT_LINK = /\s(?:--|==|-\.)\s+[^|>]+?\s+(?:-->|---|==>|===|\.->|\.-)\s/g;
+
+const MERMAID_IGNORED = /^(?:classDef|class|style|linkStyle|click|direction|accTitle|accDescr)\b/;
+
+const cleanLabel = (text: string) => text.trim().replace(/^"(.*)"$/, '$1').replace(/^[/\\]|[/\\]$/g, '').trim();
+
+/**
+ * Reads one statement: node groups joined by links, e.g. "A[API] & B --> C[(DB)]".
+ * Returns null when the statement is not a node chain.
+ */
+const scanMermaidChain = (statement: string): { nodes: (GraphNode & { hasLabel: boolean })[][] } | null => {
+  let pos = 0;
+  const groups: (GraphNode & { hasLabel: boolean })[][] = [];
+
+  const skipSpace = () => { while (/\s/.test(statement[pos] ?? '')) pos++; };
+
+  const nodeRef = (): (GraphNode & { hasLabel: boolean }) | null => {
+    MERMAID_ID.lastIndex = pos;
+    const id = MERMAID_ID.exec(statement);
+    if (!id) return null;
+    pos += id[0].length;
+    const shape = MERMAID_SHAPES.find(s => statement.startsWith(s.open, pos));
+    let node: GraphNode & { hasLabel: boolean } = { key: id[0], label: id[0], hasLabel: false };
+    if (shape) {
+      const end = statement.indexOf(shape.close, pos + shape.open.length);
+      if (end < 0) return null;
+      node = {
+        key: id[0],
+        label: cleanLabel(statement.slice(pos + shape.open.length, end)) || id[0],
+        ...(shape.role ? { role: shape.role } : {}),
+        hasLabel: true
+      };
+      pos = end + shape.close.length;
+    }
+    const style = /:::[\w-]+/y;
+    style.lastIndex = pos;
+    if (style.exec(statement)) pos = style.lastIndex;
+    return node;
+  };
+
+  for (;;) {
+    skipSpace();
+    const group: (GraphNode & { hasLabel: boolean })[] = [];
+    for (;;) {
+      const node = nodeRef();
+      if (!node) return null;
+      group.push(node);
+      skipSpace();
+      if (statement[pos] !== '&') break;
+      pos++;
+      skipSpace();
+    }
+    groups.push(group);
+
+    MERMAID_LINK.lastIndex = pos;
+    const link = MERMAID_LINK.exec(statement);
+    if (!link) break;
+    pos += link[0].length;
+  }
+  skipSpace();
+  return pos === statement.length ? { nodes: groups } : null;
+};
+
+/**
+ * Subgraph header: "ID [Label]", "ID[\"Label\"]", "\"Label\"" or bare words.
+ */
+const mermaidSubgraph = (header: string): { key: string; label: string } => {
+  const titled = /^([\w.-]+)\s*\[(.*)\]$/.exec(header);
+  if (titled) return { key: titled[1], label: cleanLabel(titled[2]) || titled[1] };
+  const label = cleanLabel(header);
+  return { key: label, label };
+};
+
+/**
+ * Splits a line into statements at semicolons outside brackets and quotes.
+ */
+const splitStatements = (line: string): string[] => {
+  const statements: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (c === '"') quoted = !quoted;
+    else if (!quoted && '[({'.includes(c)) depth++;
+    else if (!quoted && '])}'.includes(c)) depth = Math.max(0, depth - 1);
+    else if (!quoted && depth === 0 && c === ';') {
+      statements.push(line.slice(start, i));
+      start = i + 1;
+    }
+  }
+  statements.push(line.slice(start));
+  return statements.map(s => s.trim()).filter(s => s !== '');
+};
+
+// ---------------------------------------------------------------------------
+// Graphviz DOT
+// ---------------------------------------------------------------------------
+
+interface DotToken {
+  readonly kind: 'id' | 'punct' | 'edge';
+  readonly value: string;
+  readonly line: number;
+}
+
+const tokenizeDot = (text: string): DotToken[] => {
+  const tokens: DotToken[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(c)) {
+      i++;
+    } else if (text.startsWith('//', i) || (c === '#' && (i === 0 || text[i - 1] === '\n'))) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      if (end < 0) throw new Error(`Line ${line}: unterminated comment.`);
+      line += (text.slice(i, end).match(/\n/g) ?? []).length;
+      i = end + 2;
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ kind: 'edge', value: text.slice(i, i + 2), line });
+      i += 2;
+    } else if ('{}[];,=:'.includes(c)) {
+      tokens.push({ kind: 'punct', value: c, line });
+      i++;
+    } else if (c === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && text[i + 1] === '"') i++;
+        else if (text[i] === '\\' && text[i + 1] === '\n') { i += 2; line++; continue; }
+        if (text[i] === '\n') line++;
+        value += text[i++];
+      }
+      if (i >= text.length) throw new Error(`Line ${line}: unterminated string.`);
+      i++;
+      tokens.push({ kind: 'id', value: value.replace(/\\[nlr]/g, ' ').trim(), line });
+    } else if (c === '<') {
+      // HTML-like label: kept as its text content
+      let depth = 0;
+      const start = i;
+      do {
+        if (text[i] === '<') depth++;
+        else if (text[i] === '>') depth--;
+        else if (text[i] === '\n') line++;
+        i++;
+      } while (i < text.length && depth > 0);
+      tokens.push({ kind: 'id', value: text.slice(start + 1, i - 1).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim(), line });
+    } else {
+      const id = /[A-Za-z0-9_.\u0080-\uFFFF]+/y;
+      id.lastIndex = i;
+      const match = id.exec(text);
+      if (!match) throw new Error(`Line ${line}: unexpected "${c}".`);
+      tokens.push({ kind: 'id', value: match[0], line });
+      i += match[0].length;
+    }
+  }
+  return tokens;
+};
+
+// ---------------------------------------------------------------------------
+// Backstage catalog
+// ---------------------------------------------------------------------------
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+/** Entity name of a reference such as "resource:default/orders-db". */
+const entityName = (ref: string) => ref.replace(/^[\w-]+:/, '').replace(/^.*\//, '');
+
+const titleCase = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Importers from architecture descriptions to a district topology. Each format
+ * is read into an ArchitectureGraph, which is then laid out as districts:
+ * groups become districts, the nodes inside them sub-platforms, and
+ * dependencies between nodes of different districts become roads.
+ */
+export const TopologyImporter = {
+  /**
+   * Guesses the format of a pasted description, or null if none fits.
+   */
+  detect(text: string): TopologyFormat | null {
+    const first = text.split(/\r?\n/).map(l => l.trim()).find(l => l !== '' && !l.startsWith('%%') && !l.startsWith('//') && !l.startsWith('#'));
+    if (!first) return null;
+    if (/^(?:graph|flowchart)\b/.test(first) && !first.includes('{')) return 'mermaid';
+    if (/^(?:strict\s+)?(?:di)?graph\b/i.test(first)) return 'dot';
+    if (/^apiVersion:\s*backstage\.io/m.test(text) || /^kind:\s*\w+/m.test(text)) return 'backstage';
+    return null;
+  },
+
+  /**
+   * Reads a Mermaid flowchart. Top-level subgraphs are groups; nested
+   * subgraphs fold into their top-level one.
+   */
+  fromMermaid(text: string, warn: Warn): ArchitectureGraph {
+    const groups: GraphGroup[] = [];
+    const nodes = new Map<string, GraphNode>();
+    const edges: GraphEdge[] = [];
+    const stack: string[] = [];
+    let sawHeader = false;
+
+    text.split(/\r?\n/).forEach((raw, i) => {
+      const line = raw.replace(/%%.*$/, '').trim();
+      if (line === '') return;
+      splitStatements(line).forEach(statement => {
+        if (/^(?:graph|flowchart)\b/.test(statement)) {
+          sawHeader = true;
+          return;
+        }
+        if (MERMAID_IGNORED.test(statement)) return;
+
+        const subgraph = /^subgraph\b\s*(.*)$/.exec(statement);
+        if (subgraph) {
+          const group = mermaidSubgraph(subgraph[1]);
+          if (stack.length === 0) groups.push(group);
+          else warn(`Subgraph ${group.label} is nested in ${stack[0]} and folded into it.`);
+          stack.push(stack.length === 0 ? group.key : stack[0]);
+          return;
+        }
+        if (statement === 'end') {
+          if (stack.pop() === undefined) warn(`Line ${i + 1}: "end" without a subgraph.`);
+          return;
+        }
+
+        const chain = scanMermaidChain(` ${statement} `.replace(MERMAID_TEXT_LINK, ' --> ').trim());
+        if (!chain) {
+          warn(`Line ${i + 1}: "${statement}" was not understood and is skipped.`);
+          return;
+        }
+        chain.nodes.forEach(group => group.forEach(({ hasLabel, ...node }) =>
+          upsertNode(nodes, { ...node, ...(stack.length > 0 ? { group: stack[0] } : {}) }, hasLabel)));
+        chain.nodes.slice(1).forEach((targets, j) =>
+          chain.nodes[j].forEach(from => targets.forEach(to => edges.push({ from: from.key, to: to.key }))));
+      });
+    });
+
+    if (!sawHeader) warn('No "flowchart" or "graph" header; read as a flowchart.');
+    if (stack.length > 0) warn(`Subgraph ${stack[0]} is never closed with "end".`);
+    return { groups, nodes: Array.from(nodes.values()), edges };
+  },
+
+  /**
+   * Reads a Graphviz graph. Clusters (subgraphs named "cluster…") are groups;
+   * other subgraphs only scope attributes. A node's label, `role` or `tooltip`
+   * and `shape=cylinder` describe its sub-platform; invisible nodes only anchor
+   * edges to their cluster.
+   */
+  fromDot(text: string, warn: Warn): ArchitectureGraph {
+    const tokens = tokenizeDot(text);
+    let pos = 0;
+    const groups: GraphGroup[] = [];
+    const nodes = new Map<string, GraphNode>();
+    const edges: GraphEdge[] = [];
+    const anchors = new Map<string, string | undefined>();
+
+    const peek = () => tokens[pos];
+    const expect = (value: string) => {
+      const token = tokens[pos];
+      if (token?.value !== value) throw new Error(`Line ${token?.line ?? 'end'}: expected "${value}".`);
+      pos++;
+    };
+
+    const attributes = (): Record<string, string> => {
+      const attrs: Record<string, string> = {};
+      while (peek()?.value === '[') {
+        pos++;
+        while (peek() && peek().value !== ']') {
+          const key = tokens[pos++];
+          if (key.kind !== 'id') throw new Error(`Line ${key.line}: expected an attribute name.`);
+          if (peek()?.value === '=') {
+            pos++;
+            attrs[key.value] = tokens[pos++]?.value ?? '';
+          }
+          if (peek()?.value === ',' || peek()?.value === ';') pos++;
+        }
+        expect(']');
+      }
+      return attrs;
+    };
+
+    const addNode = (key: string, cluster: string | undefined, attrs: Record<string, string>) => {
+      if (anchors.has(key)) return;
+      if (/invis/.test(attrs.style ?? '') && !nodes.has(key)) {
+        anchors.set(key, cluster);
+        return;
+      }
+      const labelled = attrs.label !== undefined && attrs.label !== '' && attrs.label !== '\\N';
+      const role = attrs.role ?? attrs.tooltip ?? (/cylinder/i.test(attrs.shape ?? '') ? 'Datastore' : undefined);
+      upsertNode(nodes, {
+        key,
+        label: labelled ? attrs.label : key,
+        ...(role ? { role } : {}),
+        ...(cluster ? { group: cluster } : {})
+      }, labelled || role !== undefined);
+    };
+
+    // Statements of a graph or subgraph body; returns the node keys it mentions
+    const body = (cluster: string | undefined): string[] => {
+      const mentioned: string[] = [];
+      expect('{');
+      while (peek() && peek().value !== '}') {
+        const operands: string[][] = [];
+        for (;;) {
+          const token = peek();
+          if (!token) throw new Error('Unexpected end of graph.');
+          if (token.value === '{' || (token.kind === 'id' && token.value.toLowerCase() === 'subgraph')) {
+            operands.push(subgraph(cluster));
+          } else if (token.kind === 'id' && ['graph', 'node', 'edge'].includes(token.value.toLowerCase()) && operands.length === 0) {
+            pos++;
+            const attrs = attributes();
+            if (token.value.toLowerCase() === 'graph' && cluster && attrs.label) {
+              const at = groups.findIndex(g => g.key === cluster);
+              groups[at] = { ...groups[at], label: attrs.label };
+            }
+            break;
+          } else if (token.kind === 'id') {
+            pos++;
+            if (peek()?.value === '=') {
+              pos++;
+              const value = tokens[pos++]?.value ?? '';
+              if (token.value === 'label' && cluster) {
+                const at = groups.findIndex(g => g.key === cluster);
+                groups[at] = { ...groups[at], label: value };
+              }
+              break;
+            }
+            // Ports and compass points are not districts
+            while (peek()?.value === ':') pos += 2;
+            operands.push([token.value]);
+          } else {
+            throw new Error(`Line ${token.line}: unexpected "${token.value}".`);
+          }
+          if (peek()?.kind !== 'edge') break;
+          pos++;
+        }
+
+        const attrs = attributes();
+        if (operands.length === 1) {
+          operands[0].forEach(key => addNode(key, cluster, attrs));
+        } else {
+          operands.forEach(keys => keys.forEach(key => addNode(key, cluster, {})));
+          operands.slice(1).forEach((targets, j) =>
+            operands[j].forEach(from => targets.forEach(to => edges.push({ from, to }))));
+        }
+        mentioned.push(...operands.flat());
+        if (peek()?.value === ';' || peek()?.value === ',') pos++;
+      }
+      expect('}');
+      return mentioned;
+    };
+
+    const subgraph = (cluster: string | undefined): string[] => {
+      let name: string | undefined;
+      if (peek()?.value.toLowerCase() === 'subgraph') {
+        pos++;
+        if (peek()?.kind === 'id') name = tokens[pos++].value;
+      }
+      let scope = cluster;
+      if (name && /^cluster/i.test(name)) {
+        if (cluster) warn(`Cluster ${name} is nested in ${cluster} and folded into it.`);
+        else {
+          groups.push({ key: name, label: name.replace(/^cluster_?/i, '') || name });
+          scope = name;
+        }
+      }
+      return body(scope);
+    };
+
+    if (peek()?.value.toLowerCase() === 'strict') pos++;
+    const kind = peek()?.value.toLowerCase();
+    if (kind !== 'graph' && kind !== 'digraph') throw new Error('DOT input must start with "graph" or "digraph".');
+    pos++;
+    if (peek()?.kind === 'id') pos++;
+    body(undefined);
+    if (pos < tokens.length) warn(`Content after the closing "}" on line ${tokens[pos].line} is ignored.`);
+    const resolve = (key: string) => anchors.get(key) ?? key;
+    return { groups, nodes: Array.from(nodes.values()), edges: edges.map(e => ({ from: resolve(e.from), to: resolve(e.to) })) };
+  },
+
+  /**
+   * Reads Backstage catalog entities. Systems are groups; Components,
+   * Resources and APIs are nodes in their `spec.system`, linked by
+   * `dependsOn`, `consumesApis` and `providesApis`. APIs also become flows.
+   */
+  fromBackstage(text: string, warn: Warn): ArchitectureGraph {
+    const documents = parseAllDocuments(text, { merge: true });
+    // Messages read e.g. "… at line 3, column 9:" followed by the offending source
+    const failed = documents.find(doc => doc.errors.length > 0);
+    if (failed) throw new Error(failed.errors[0].message.split('\n')[0].replace(/:$/, '.'));
+
+    const entities = documents.map((doc, i) => {
+      try {
+        return doc.toJS();
+      } catch (e) {
+        // e.g. an alias to an anchor in another document
+        throw new Error(`Document ${i + 1}: ${(e as Error).message}`);
+      }
+    }).filter(isRecord).flatMap(doc =>
+      // A Location may inline its targets as a list of entities
+      doc.kind === 'List' && Array.isArray(doc.items) ? doc.items.filter(isRecord) : [doc]);
+    if (entities.length === 0) throw new Error('No catalog entities found.');
+
+    const groups: GraphGroup[] = [];
+    const nodes = new Map<string, GraphNode>();
+    const edges: GraphEdge[] = [];
+    const providers = new Map<string, string>();
+    const consumers = new Map<string, string[]>();
+    const apis: Omit<GraphApi, 'provider' | 'consumers'>[] = [];
+
+    entities.forEach((entity, i) => {
+      const metadata = isRecord(entity.metadata) ? entity.metadata : {};
+      const spec = isRecord(entity.spec) ? entity.spec : {};
+      const name = typeof metadata.name === 'string' ? metadata.name : null;
+      if (!name) {
+        warn(`Entity ${i + 1} has no metadata.name and is skipped.`);
+        return;
+      }
+      const label = typeof metadata.title === 'string' ? metadata.title : name;
+      const desc = typeof metadata.description === 'string' ? metadata.description.trim() : undefined;
+      const system = typeof spec.system === 'string' ? entityName(spec.system) : undefined;
+
+      switch (entity.kind) {
+        case 'System':
+          groups.push({ key: name, label, ...(desc ? { desc } : {}) });
+          break;
+        case 'Component':
+        case 'Resource':
+        case 'API':
+          nodes.set(name, {
+            key: name,
+            label,
+            role: typeof spec.type === 'string' ? titleCase(spec.type) : String(entity.kind),
+            ...(system ? { group: system } : {})
+          });
+          stringList(spec.dependsOn).forEach(ref => edges.push({ from: name, to: entityName(ref) }));
+          stringList(spec.consumesApis).forEach(ref => {
+            consumers.set(entityName(ref), [...consumers.get(entityName(ref)) ?? [], name]);
+            edges.push({ from: name, to: entityName(ref) });
+          });
+          if (entity.kind === 'API') apis.push({ key: name, label, ...(typeof spec.type === 'string' ? { type: spec.type } : {}) });
+          stringList(spec.providesApis).forEach(ref => {
+            providers.set(entityName(ref), name);
+            edges.push({ from: entityName(ref), to: name });
+          });
+          break;
+        case 'Domain':
+        case 'Group':
+        case 'User':
+        case 'Location':
+        case 'Template':
+          break;
+        default:
+          warn(`${name}: kind ${String(entity.kind)} is not imported.`);
+      }
+    });
+
+    // An API without a system of its own sits with the component providing it
+    providers.forEach((provider, api) => {
+      const node = nodes.get(api);
+      const group = nodes.get(provider)?.group;
+      if (node && !node.group && group) nodes.set(api, { ...node, group });
+    });
+
+    return {
+      groups,
+      nodes: Array.from(nodes.values()),
+      edges,
+      apis: apis.map(api => ({ ...api, provider: providers.get(api.key), consumers: consumers.get(api.key) ?? [] }))
+    };
+  },
+
+  /**
+   * Lays a graph out as districts. Districts matching a current one by ID or
+   * label keep its ID, icon and colour, and its platforms' roles where the
+   * source states none; nodes outside any group become districts of their own.
+   */
+  layout(graph: ArchitectureGraph, current: readonly HubNode[], format: TopologyFormat, warn: Warn): HubNode[] {
+    const groupKeys = new Set(graph.groups.map(g => g.key));
+    const nodes = graph.nodes.filter(n => !groupKeys.has(n.key));
+    const implicit = Array.from(new Set(nodes.flatMap(n => n.group && !groupKeys.has(n.group) ? [n.group] : [])))
+      .map((key): GraphGroup => ({ key, label: key }));
+    const standalone = nodes.filter(n => !n.group).map((n): GraphGroup => ({ key: n.key, label: n.label }));
+    const districts = [...graph.groups, ...implicit, ...standalone];
+
+    const used = new Set<HubId>();
+    const districtOf = new Map<string, HubId>();
+    districts.forEach(group => {
+      const existing = current.find(h => !used.has(h.id)
+        && (h.id === toDistrictId(group.key) || h.label.toLowerCase() === group.label.toLowerCase()));
+      let id = existing?.id ?? toDistrictId(group.key);
+      for (let n = 2; used.has(id); n++) id = `${toDistrictId(group.key).slice(0, 9)}_${n}`;
+      used.add(id);
+      districtOf.set(group.key, id);
+    });
+    nodes.forEach(n => {
+      const id = districtOf.get(n.group ?? n.key);
+      if (id) districtOf.set(n.key, id);
+    });
+
+    const hubs = districts.map((group, i): HubNode => {
+      const id = districtOf.get(group.key)!;
+      const existing = current.find(h => h.id === id);
+      const platforms = nodes.filter(n => n.group === group.key);
+      return {
+        id,
+        // A bare key such as "AI" says less than the matching district's label
+        label: existing && group.label === group.key ? existing.label : group.label,
+        icon: existing?.icon ?? ICON_KEYS[i % ICON_KEYS.length],
+        color: existing?.color ?? DISTRICT_COLOR_CLASSES[i % DISTRICT_COLOR_CLASSES.length],
+        desc: group.desc ?? existing?.desc ?? `Imported from ${TOPOLOGY_FORMAT_LABELS[format]}.`,
+        connections: [],
+        subPlatforms: platforms
+          .filter((p, j) => platforms.findIndex(q => q.label === p.label) === j)
+          .map(p => ({ name: p.label, role: p.role ?? existing?.subPlatforms.find(q => q.name === p.label)?.role ?? 'Service' }))
+      };
+    });
+
+    const unknown = new Set<string>();
+    graph.edges.forEach(({ from, to }) => {
+      const a = districtOf.get(from);
+      const b = districtOf.get(to);
+      [[from, a], [to, b]].forEach(([key, id]) => { if (!id) unknown.add(key!); });
+      if (!a || !b || a === b) return;
+      const hub = hubs.find(h => h.id === a)!;
+      if (!hub.connections.includes(b)) hubs[hubs.indexOf(hub)] = { ...hub, connections: [...hub.connections, b] };
+    });
+    unknown.forEach(key => warn(`${key} is referenced but not defined; its dependencies are skipped.`));
+
+    return TopologyModel.normalize(hubs);
+  },
+
+  /**
+   * Turns a graph's APIs into flows over a laid-out topology, from the
+   * providing platform to every consuming district. Catalogs state no traffic
+   * or timings, so rates and hop latencies are nominal; the carrier is the
+   * first transit hub for the API type: AsyncAPI as events, "mcp" as tool
+   * calls, anything else as webhooks.
+   */
+  flows(graph: ArchitectureGraph, topology: readonly HubNode[], warn: Warn): DataFlowPacket[] {
+    const hop = (key: string, payload: string): FlowHop | null => {
+      const label = graph.nodes.find(n => n.key === key)?.label ?? key;
+      const district = topology.find(h => h.subPlatforms.some(p => p.name === label));
+      return district ? { district: district.id, platform: label, payload, expectedLatencyMs: IMPORTED_HOP_LATENCY } : null;
+    };
+
+    return (graph.apis ?? []).flatMap((api): DataFlowPacket[] => {
+      const source = api.provider ? hop(api.provider, api.label) : null;
+      const targets = api.consumers
+        .map(key => hop(key, api.label))
+        .filter((t): t is FlowHop => t !== null && t.district !== source?.district)
+        .filter((t, i, all) => all.findIndex(u => u.district === t.district) === i);
+      if (!source || targets.length === 0) {
+        warn(`${api.label} is not read as a flow: it needs a provider and a consumer in another district.`);
+        return [];
+      }
+
+      const type: FlowType = api.type === 'asyncapi' ? 'event' : api.type === 'mcp' ? 'tool-call' : 'webhook';
+      const hub = TRANSIT_HUB_IDS.find(id => TRANSIT_HUBS[id].carries.includes(type))!;
+      return [{
+        id: api.key,
+        label: api.label,
+        type,
+        arrivalRate: IMPORTED_ARRIVAL_RATE,
+        source,
+        transit: { hub, expectedLatencyMs: TRANSIT_HUBS[hub].latency.base },
+        targets,
+        origin: source.district,
+        destinations: targets.map(t => t.district)
+      }];
+    });
+  },
+
+  /**
+   * Reads a description into a topology for preview. `format` 'auto' detects
+   * it. Throws when the description cannot be read at all.
+   */
+  read(text: string, format: TopologyFormat | 'auto', current: readonly HubNode[]): TopologyImport {
+    const resolved = format === 'auto' ? this.detect(text) : format;
+    if (!resolved) throw new Error('Unrecognized format: expected a Mermaid flowchart, a DOT graph or a Backstage catalog.');
+
+    const warnings: string[] = [];
+    const warn = (message: string) => warnings.push(message);
+    const graph = resolved === 'mermaid' ? this.fromMermaid(text, warn)
+      : resolved === 'dot' ? this.fromDot(text, warn)
+      : this.fromBackstage(text, warn);
+    if (graph.groups.length === 0 && graph.nodes.length === 0) throw new Error('The description has no nodes.');
+
+    const topology = this.layout(graph, current, resolved, warn);
+    return { format: resolved, topology, flows: this.flows(graph, topology, warn), warnings };
+  }
+};
@@ -7,9 +7,10 @@
 import React from 'react';
 
 /** 
- * Unique identifiers for the 7 federated districts of the FlashFusion ecosystem.
+ * Unique identifier of a federated district, e.g. 'DATA'. The city starts with
+ * the seven districts of HUBS_DATA; more can be added at runtime.
  */
-export type HubId = 'DEV' | 'DATA' | 'AI' | 'OPS' | 'GROWTH' | 'COMMERCE' | 'COLLAB';
+export type HubId = string;
 
 /**
  * Technical specification for a service integrated within a district.
@@ -29,8 +30,8 @@ export interface HubNode {
   readonly id: HubId;
   /** Display label */
   readonly label: string;
-  /** Visual icon component */
-  readonly icon: React.ElementType;
+  /** Key of the district's icon in DISTRICT_ICONS */
+  readonly icon: string;
   /** Tailwind-compatible background class */
   readonly color: string;
   /** Narrative description of the district's responsibility */
@@ -67,12 +68,50 @@ export interface RoadmapStep {
 }
 
 /**
- * Metadata for a data packet flow within the integration layer.
+ * Kind of traffic a flow carries; transit hubs only accept the kinds they support.
+ */
+export type FlowType = 'event' | 'webhook' | 'tool-call';
+
+/**
+ * A district platform a flow passes through.
+ */
+export interface FlowHop {
+  readonly district: HubId;
+  /** Name of one of the district's subPlatforms */
+  readonly platform: string;
+  /** What the platform emits or receives, e.g. "Event" or "Deal" */
+  readonly payload: string;
+  /** Expected processing time at the hop, in milliseconds */
+  readonly expectedLatencyMs: number;
+}
+
+/**
+ * The transit hub a flow is designed to ride between its hops.
+ */
+export interface FlowTransit {
+  readonly hub: TransitHubId;
+  /** Expected time in transit, in milliseconds */
+  readonly expectedLatencyMs: number;
+}
+
+/**
+ * Metadata for a data packet flow within the integration layer: emitted at
+ * `source`, carried by `transit`, and delivered to every target in parallel.
  */
 export interface DataFlowPacket {
   readonly id: string;
   readonly label: string;
-  readonly desc: string;
+  readonly type: FlowType;
+  /** Packets per second the flow emits at its origin */
+  readonly arrivalRate: number;
+  readonly source: FlowHop;
+  /** Designed carrier; live routing follows the configured transit mix */
+  readonly transit: FlowTransit;
+  readonly targets: readonly FlowHop[];
+  /** District where the packet is emitted, the source district */
+  readonly origin: HubId;
+  /** Districts the packet must reach for the flow to complete, the target districts */
+  readonly destinations: readonly HubId[];
 }
 
 /**
@@ -125,6 +164,34 @@ export interface ThemeHook {
   readonly toggleTheme: () => void;
 }
 
+/**
+ * Transit hubs capable of carrying packets between districts.
+ * 'Manual' means no hub: packets travel point-to-point over district connections.
+ */
+export type TransitHubId = 'n8n' | 'Zapier' | 'Make' | 'MCP' | 'Manual';
+
+/**
+ * Operating characteristics of a transit hub.
+ */
+export interface TransitHubProfile {
+  readonly id: TransitHubId;
+  /** Display label, e.g. "n8n Metro" */
+  readonly label: string;
+  readonly role: string;
+  /** Service rate: packets per second the hub can deliver */
+  readonly capacity: number;
+  /** Packets the hub can hold waiting; overflow is dropped */
+  readonly queueLimit: number;
+  /** Milliseconds per traversal: base plus up to `jitter` of random delay. For Manual, per road hop. */
+  readonly latency: { readonly base: number; readonly jitter: number };
+  /** USD per 1,000 packets carried */
+  readonly costPer1k: number;
+  /** Flow types the hub accepts */
+  readonly carries: readonly FlowType[];
+  /** Dedicated hubs keep carrying their flow types whichever hub is active */
+  readonly dedicated?: boolean;
+}
+
 /**
  * Telemetry status for an architectural district.
  */
@@ -140,34 +207,929 @@ export interface DistrictStatus {
   };
 }
 
+/**
+ * Per-edge dependency strength (0–1), keyed by dependent district then dependency.
+ * 1 means the dependent cannot function without the dependency; 0 means no coupling.
+ */
+export type DependencyCriticality = Partial<Record<HubId, Partial<Record<HubId, number>>>>;
+
+/**
+ * Single simulation clock. Every random draw in the simulation comes from the
+ * seeded PRNG threaded through this state, so a seed reproduces a run exactly.
+ */
+export interface SimulationClock {
+  /** Seed the run was started from */
+  readonly seed: number;
+  /** Current PRNG state, advanced by every draw */
+  readonly rngState: number;
+  /** Number of ticks elapsed since the run started */
+  readonly tick: number;
+  /** Simulated seconds elapsed since the run started */
+  readonly elapsed: number;
+  readonly paused: boolean;
+  /** Wall-clock speed multiplier applied to the tick interval */
+  readonly speed: number;
+}
+
+/**
+ * End-to-end latency distribution in milliseconds.
+ */
+export interface LatencyPercentiles {
+  readonly p50: number;
+  readonly p95: number;
+  readonly p99: number;
+}
+
+/**
+ * Queueing telemetry of a single transit hub for one tick.
+ */
+export interface HubTelemetry {
+  /** Packets per second offered to the hub */
+  readonly arrivalRate: number;
+  /** Packets per second served */
+  readonly throughput: number;
+  /** Packets waiting at the end of the tick */
+  readonly queueDepth: number;
+  /** Packets per second lost to queue overflow or outage */
+  readonly dropRate: number;
+  /** Offered load over service rate; above 1 the queue grows */
+  readonly utilization: number;
+  /** Fraction (0-1) of arrivals held back at the source */
+  readonly backpressure: number;
+}
+
+/**
+ * Aggregate network telemetry sampled on every clock tick.
+ */
+export interface NetworkTelemetry {
+  /** Delivered requests per second across all transit routes */
+  readonly throughput: number;
+  /** End-to-end latency of delivered traffic */
+  readonly latency: LatencyPercentiles;
+  /** Percentage of offered packets delivered */
+  readonly integrity: number;
+  /** Packets per second lost: unroutable, or dropped by a hub */
+  readonly dropRate: number;
+  /** Transit spend in USD per hour at the current throughput */
+  readonly transitCost: number;
+  /** Queueing telemetry of every hub carrying or holding traffic */
+  readonly hubs: Readonly<Partial<Record<TransitHubId, HubTelemetry>>>;
+}
+
+/**
+ * Relative share of traffic configured per hub. Hubs absent or at 0 are not in the mix.
+ */
+export type TransitWeights = Readonly<Partial<Record<TransitHubId, number>>>;
+
+/** Per-hub rate in packets per second. */
+export type TransitHubRates = Readonly<Partial<Record<TransitHubId, number>>>;
+
+/**
+ * Runtime status of a transit hub.
+ */
+export interface TransitHubStatus {
+  readonly id: TransitHubId;
+  readonly isOnline: boolean;
+  /** 0-100; falls while the hub is offline or saturated beyond capacity */
+  readonly health: number;
+  /** Removed from the mix by automatic failover until its health recovers */
+  readonly isDrained: boolean;
+  /** Packets waiting to be served */
+  readonly queueDepth: number;
+}
+
+/**
+ * Weighted multi-hub transit configuration with health-based failover.
+ */
+export interface TransitState {
+  readonly weights: TransitWeights;
+  readonly hubs: Readonly<Record<TransitHubId, TransitHubStatus>>;
+  /** Health below which a hub is drained and its share redistributed */
+  readonly failoverThreshold: number;
+}
+
+/**
+ * Share of a flow's traffic carried by one hub.
+ */
+export interface TransitShare {
+  readonly hub: TransitHubId;
+  /** Fraction (0-1) of the flow's traffic */
+  readonly share: number;
+}
+
+/**
+ * Fault injected by chaos testing. Faults persist until cleared.
+ * - DEGRADE: caps a district's health (%) while leaving it online
+ * - LATENCY: adds milliseconds to traffic crossing the connection between two districts
+ * - PACKET_LOSS: loses a percentage of the packets passing through a district
+ * - FLAP: takes a district offline and back every `period` seconds
+ * - RATE_LIMIT: caps a transit hub's service rate (packets per second)
+ * - GPU_THROTTLE: cuts the AI district's GPU throughput by a percentage
+ */
+export type ChaosFault =
+  | { readonly kind: 'DEGRADE'; readonly target: HubId; readonly health: number }
+  | { readonly kind: 'LATENCY'; readonly from: HubId; readonly to: HubId; readonly latency: number }
+  | { readonly kind: 'PACKET_LOSS'; readonly target: HubId; readonly loss: number }
+  | { readonly kind: 'FLAP'; readonly target: HubId; readonly period: number }
+  | { readonly kind: 'RATE_LIMIT'; readonly hub: TransitHubId; readonly rate: number }
+  | { readonly kind: 'GPU_THROTTLE'; readonly throttle: number };
+
+export type ChaosFaultKind = ChaosFault['kind'];
+
+/**
+ * A fault in effect. At most one fault of each kind is active per target.
+ */
+export interface ActiveFault {
+  /** Kind and target, e.g. "FLAP:DATA" */
+  readonly id: string;
+  /** Simulated seconds at which the fault was injected */
+  readonly since: number;
+  readonly fault: ChaosFault;
+}
+
+/**
+ * What a service level objective measures.
+ * - availability: share of offered packets delivered
+ * - latency: share of offered packets delivered within `thresholdMs`
+ */
+export type SloIndicator = 'availability' | 'latency';
+
+/**
+ * Traffic an objective covers: one flow, or every flow leg starting or ending in a district.
+ */
+export type SloScope =
+  | { readonly kind: 'flow'; readonly id: string }
+  | { readonly kind: 'district'; readonly id: HubId };
+
+/**
+ * Service level objective over the compliance period.
+ */
+export interface ServiceLevelObjective {
+  readonly id: string;
+  readonly label: string;
+  readonly scope: SloScope;
+  readonly indicator: SloIndicator;
+  /** Target share (0-1) of good events, e.g. 0.99 */
+  readonly objective: number;
+  /** Latency objectives only: slowest delivery (ms) still counted as good */
+  readonly thresholdMs?: number;
+}
+
+/**
+ * Multi-window burn-rate alert: fires while the error budget burns faster than
+ * `burnRate` over both the long and the short window (simulated seconds).
+ */
+export interface BurnRateAlert {
+  readonly id: string;
+  readonly severity: 'page' | 'ticket';
+  readonly longWindow: number;
+  readonly shortWindow: number;
+  readonly burnRate: number;
+}
+
+/**
+ * Good and total events (packets) counted against an objective during one tick.
+ */
+export interface SloSample {
+  readonly good: number;
+  readonly total: number;
+}
+
+/**
+ * Per-objective samples covering the compliance period, oldest first.
+ */
+export type SloLedger = Readonly<Record<string, readonly SloSample[]>>;
+
+/**
+ * Burn rates of an objective measured for one alert.
+ */
+export interface BurnRateReading {
+  readonly alert: BurnRateAlert;
+  readonly long: number;
+  readonly short: number;
+  readonly firing: boolean;
+}
+
+/**
+ * Evaluated state of an objective's error budget.
+ */
+export interface SloStatus {
+  readonly slo: ServiceLevelObjective;
+  /** Share (0-1) of good events over the compliance period so far */
+  readonly sli: number;
+  /** Share of the error budget left; negative once overspent */
+  readonly budgetRemaining: number;
+  readonly burnRates: readonly BurnRateReading[];
+  /** Seconds until the budget runs out at the recent burn rate; null when not burning down */
+  readonly timeToExhaustion: number | null;
+}
+
+/**
+ * Telemetry an alert rule watches. District metrics are evaluated per district:
+ * `district-offline` is 1 for an offline district, while health, load and VRAM
+ * are only read from online ones. `flows-broken` counts flows with no deliverable leg.
+ */
+export type AlertMetric =
+  | 'district-offline'
+  | 'district-health'
+  | 'district-load'
+  | 'gpu-vram'
+  | 'latency-p95'
+  | 'integrity'
+  | 'flows-broken';
+
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+
+/**
+ * Threshold rule evaluated against simulation telemetry on every tick.
+ */
+export interface AlertRule {
+  readonly id: string;
+  readonly label: string;
+  readonly metric: AlertMetric;
+  readonly comparator: 'above' | 'below';
+  readonly threshold: number;
+  readonly severity: AlertSeverity;
+  /** Simulated seconds the condition must hold before the alert fires */
+  readonly forSeconds: number;
+  /** District metrics only: restricts the rule to one district */
+  readonly district?: HubId;
+}
+
+/**
+ * A fired alert. One incident is open per rule and subject at a time; an
+ * alert recurring shortly after resolving reopens the same incident.
+ */
+export interface Incident {
+  /** Fingerprint plus the time it first fired, e.g. "district-down:DATA@30" */
+  readonly id: string;
+  /** Rule and subject, e.g. "district-down:DATA" */
+  readonly fingerprint: string;
+  readonly ruleId: string;
+  /** District the alert concerns, or "network" */
+  readonly subject: string;
+  readonly severity: AlertSeverity;
+  readonly firedAt: number;
+  /** Value that tripped the rule */
+  readonly value: number;
+  /** Worst value observed while firing */
+  readonly peak: number;
+  /** Times the alert fired, including reopenings */
+  readonly occurrences: number;
+  readonly acknowledgedAt: number | null;
+  readonly acknowledgedBy: IncidentActor | null;
+  /** Null while the alert is firing */
+  readonly resolvedAt: number | null;
+  /** Last change to the city while firing; once resolved, the change that preceded it */
+  readonly resolvedBy: IncidentActor | null;
+}
+
+/**
+ * A change to the city credited on an incident.
+ */
+export interface IncidentActor {
+  readonly source: ActionSource;
+  readonly action: CityAction;
+  /** Simulated second the change was made */
+  readonly at: number;
+}
+
+/**
+ * Alerting state: conditions waiting out their `forSeconds`, and the incident log.
+ */
+export interface AlertState {
+  /** Simulated second each breached fingerprint started breaching */
+  readonly pending: Readonly<Record<string, number>>;
+  /** Most recent incidents, oldest first */
+  readonly incidents: readonly Incident[];
+}
+
+/**
+ * One sample line of the Prometheus text exposition format.
+ */
+export interface PrometheusSample {
+  readonly name: string;
+  readonly labels: Readonly<Record<string, string>>;
+  readonly value: number;
+  /** Milliseconds since the epoch, when the exporter supplied one */
+  readonly timestamp?: number;
+}
+
+/**
+ * Simulation field an ingested series drives.
+ */
+export type MetricTarget =
+  | { readonly kind: 'district'; readonly id: HubId; readonly field: 'load' | 'health' }
+  | { readonly kind: 'hub'; readonly id: TransitHubId; readonly field: 'health' };
+
+/**
+ * Maps the Prometheus series matching `metric` and every label in `matchers`
+ * onto a district or transit hub field, as `scale * aggregate(values)`.
+ */
+export interface MetricMapping {
+  readonly metric: string;
+  readonly matchers: Readonly<Record<string, string>>;
+  readonly aggregate: 'avg' | 'sum' | 'min' | 'max';
+  readonly scale: number;
+  readonly target: MetricTarget;
+}
+
+/**
+ * Real load and health readings (0-100) taken from an external metrics source.
+ * Fields left out fall back to the synthetic generator.
+ */
+export interface ObservedTelemetry {
+  /** Where the readings came from, e.g. an endpoint URL */
+  readonly origin: string;
+  readonly districts: Readonly<Partial<Record<HubId, { readonly load?: number; readonly health?: number }>>>;
+  readonly hubs: Readonly<Partial<Record<TransitHubId, { readonly health?: number }>>>;
+}
+
+/**
+ * Span of simulated time a history chart covers.
+ */
+export type HistoryWindow = '1m' | '15m' | '1h';
+
+/**
+ * Fixed-capacity circular buffer. Once full, each write overwrites the oldest value.
+ */
+export interface RingBuffer {
+  readonly capacity: number;
+  /** Slot the next value is written to */
+  readonly next: number;
+  readonly values: readonly number[];
+}
+
+/**
+ * One resolution of the telemetry history: each point is the mean of the
+ * samples taken during `resolution` simulated seconds.
+ */
+export interface HistoryTier {
+  readonly resolution: number;
+  /** Simulated second at which each point closed */
+  readonly times: RingBuffer;
+  /** Points per series, keyed e.g. "district:AI:tflops" */
+  readonly series: Readonly<Record<string, RingBuffer>>;
+  /** Samples accumulated towards the next point */
+  readonly bucket: {
+    readonly count: number;
+    readonly sums: Readonly<Record<string, number>>;
+  };
+}
+
+/**
+ * Downsampled time series of every district, hub and network metric.
+ */
+export type TelemetryHistory = Readonly<Record<HistoryWindow, HistoryTier>>;
+
+/**
+ * A series value at a simulated second.
+ */
+export interface TimeSeriesPoint {
+  readonly at: number;
+  readonly value: number;
+}
+
 /**
  * Global city state for the interactive simulation engine.
  */
 export interface CityState {
   readonly districts: Record<HubId, DistrictStatus>;
-  readonly transitHub: 'n8n' | 'Zapier' | 'Manual';
+  readonly transit: TransitState;
+  readonly faults: readonly ActiveFault[];
+  /** Error-budget samples of every declared SLO */
+  readonly slo: SloLedger;
+  readonly alerts: AlertState;
+  /** Time series of the telemetry, for the history charts */
+  readonly history: TelemetryHistory;
+  /** Latest ingested real metrics, overriding synthetic load and health; null when none */
+  readonly observed: ObservedTelemetry | null;
+  /** Districts, their connections and sub-platforms; HUBS_DATA until edited */
+  readonly topology: readonly HubNode[];
+  /** Declared flows, FLOW_PACKETS until an import brings its own; those the topology cannot carry sit idle */
+  readonly flows: readonly DataFlowPacket[];
   readonly simulationActive: boolean;
+  readonly clock: SimulationClock;
+  readonly telemetry: NetworkTelemetry;
+}
+
+/**
+ * State transitions understood by the simulation engine.
+ */
+export type CityAction =
+  | { readonly type: 'TICK' }
+  | { readonly type: 'TOGGLE_DISTRICT'; readonly id: HubId }
+  | { readonly type: 'SET_TRANSIT_HUB'; readonly hub: TransitHubId }
+  | { readonly type: 'SET_TRANSIT_WEIGHTS'; readonly weights: TransitWeights }
+  | { readonly type: 'TOGGLE_TRANSIT_HUB'; readonly hub: TransitHubId }
+  | { readonly type: 'SET_FAILOVER_THRESHOLD'; readonly threshold: number }
+  | { readonly type: 'TOGGLE_GPU_BOOST' }
+  | { readonly type: 'INJECT_FAULT'; readonly fault: ChaosFault }
+  | { readonly type: 'CLEAR_FAULT'; readonly id: string }
+  | { readonly type: 'ACK_INCIDENT'; readonly id: string }
+  | { readonly type: 'INGEST_METRICS'; readonly observed: ObservedTelemetry }
+  | { readonly type: 'CLEAR_METRICS' }
+  | { readonly type: 'SET_TOPOLOGY'; readonly topology: readonly HubNode[]; readonly change: string; readonly flows?: readonly DataFlowPacket[] }
+  | { readonly type: 'RESET' }
+  | { readonly type: 'SET_PAUSED'; readonly paused: boolean }
+  | { readonly type: 'SET_SPEED'; readonly speed: number }
+  | { readonly type: 'RESEED'; readonly seed: number };
+
+/**
+ * Originator of a state transition, recorded for attribution in the timeline.
+ */
+export type ActionSource = 'user' | 'ai' | 'scenario' | 'clock' | 'telemetry';
+
+/**
+ * Entry in the event-sourced simulation log.
+ */
+export interface SimulationEvent {
+  /** Position in the log, starting at 0; renumbered when a live session drops its oldest events */
+  readonly seq: number;
+  readonly source: ActionSource;
+  readonly action: CityAction;
+  /** Simulated seconds at which the event was applied */
+  readonly at: number;
+  /** Set when the event undoes or redoes an earlier event */
+  readonly revises?: { readonly kind: 'undo' | 'redo'; readonly seq: number };
+}
+
+/**
+ * Portable recording of a run: replaying `events` onto `initial` reproduces every state.
+ */
+export interface SimulationRecording {
+  readonly version: 1;
+  readonly initial: CityState;
+  readonly events: readonly SimulationEvent[];
+}
+
+/**
+ * Read-only view of the recorded timeline exposed to consumers.
+ */
+export interface TimelineView {
+  readonly events: readonly SimulationEvent[];
+  /** Event index being viewed, or null when following the live state */
+  readonly cursor: number | null;
+  readonly isReplaying: boolean;
+}
+
+/**
+ * Undo/redo stacks derived from the timeline. Only user and AI mutations of the
+ * city are undoable; clock controls and scenario steps are not.
+ */
+export interface UndoHistory {
+  /** Events that can be undone, most recent last */
+  readonly undoable: readonly SimulationEvent[];
+  /** Undone events that can be redone, next redo last */
+  readonly redoable: readonly SimulationEvent[];
+}
+
+/**
+ * A single stop on a computed packet route.
+ */
+export type RouteNode =
+  | { readonly kind: 'district'; readonly id: HubId }
+  | { readonly kind: 'transit'; readonly id: TransitHubId };
+
+/**
+ * A span read from an OpenTelemetry trace export.
+ */
+export interface TraceSpan {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  /** `service.name` of the emitting resource */
+  readonly service: string;
+  /** Milliseconds since the epoch */
+  readonly startMs: number;
+  readonly endMs: number;
+  readonly attributes: Readonly<Record<string, string | number | boolean>>;
+  readonly isError: boolean;
+}
+
+/**
+ * Routes the spans of a service onto a district or transit hub. The service
+ * matches when any dash-, dot- or underscore-separated word of its name equals `service`.
+ */
+export interface TraceServiceMapping {
+  readonly service: string;
+  readonly node: RouteNode;
+}
+
+/**
+ * A stop of a recorded trace: consecutive spans on the same district or hub.
+ */
+export interface TraceHop {
+  readonly node: RouteNode;
+  readonly service: string;
+  readonly operation: string;
+  /** Milliseconds from the start of the trace */
+  readonly offsetMs: number;
+  readonly durationMs: number;
+  readonly isError: boolean;
+}
+
+/**
+ * An imported trace as a path through the city.
+ */
+export interface RecordedTrace {
+  readonly traceId: string;
+  /** Name of the root span */
+  readonly label: string;
+  /** Declared flow the trace is an instance of, when its stops match one */
+  readonly flowId?: string;
+  readonly durationMs: number;
+  readonly hops: readonly TraceHop[];
+  /** Services whose spans mapped to no district or hub */
+  readonly unmappedServices: readonly string[];
+}
+
+/**
+ * Delivery of a flow to one of its destination districts.
+ */
+export interface RouteLeg {
+  readonly destination: HubId;
+  /** Ordered stops from origin to destination; empty when undeliverable */
+  readonly path: readonly RouteNode[];
+  readonly delivered: boolean;
+  /** True when the path differs from the nominal (all districts online, primary hub) path */
+  readonly rerouted: boolean;
+}
+
+/**
+ * Routing outcome of a flow.
+ * - nominal: every leg delivered over its primary path
+ * - rerouted: every leg delivered, at least one over an alternate path
+ * - degraded: some legs undeliverable
+ * - broken: no leg deliverable
+ */
+export type RouteStatus = 'nominal' | 'rerouted' | 'degraded' | 'broken';
+
+/**
+ * Computed route of a DataFlowPacket through the transit hub and districts.
+ */
+export interface FlowRoute {
+  readonly flowId: string;
+  readonly status: RouteStatus;
+  /** Hub carrying the largest share of the flow; 'Manual' when it travels point-to-point */
+  readonly carrier: TransitHubId;
+  /** How the flow's traffic is divided between hubs, largest share first */
+  readonly split: readonly TransitShare[];
+  readonly legs: readonly RouteLeg[];
+  /** Human-readable cause when the flow is not nominal */
+  readonly reason?: string;
+}
+
+/**
+ * How a packet fares at one step of a flow trace.
+ * - ok: handled normally
+ * - degraded: handled, but slowed or partly lost
+ * - failed: the packet stops here
+ */
+export type FlowTraceStatus = 'ok' | 'degraded' | 'failed';
+
+/**
+ * A district platform, transit hub or road a traced packet passes through.
+ */
+export interface FlowTraceStep {
+  readonly node: RouteNode;
+  /** District platform handling the packet; absent for hubs and roads crossed on the way */
+  readonly platform?: string;
+  /** Milliseconds to reach and be handled at the step */
+  readonly latencyMs: number;
+  /** USD per 1,000 packets charged at the step */
+  readonly costPer1k: number;
+  readonly status: FlowTraceStatus;
+  /** Why the step is degraded or failed */
+  readonly note?: string;
+}
+
+/**
+ * Trace of one flow leg from the source platform to a target platform.
+ */
+export interface FlowTraceLeg {
+  readonly destination: HubId;
+  readonly steps: readonly FlowTraceStep[];
+  /** Sum of the step latencies up to the failing step, if any */
+  readonly latencyMs: number;
+  readonly status: FlowTraceStatus;
+}
+
+/**
+ * Step-by-step trace of a single packet of a flow under the current state.
+ */
+export interface FlowTrace {
+  readonly flowId: string;
+  readonly legs: readonly FlowTraceLeg[];
+  /** Slowest leg, since targets are served in parallel */
+  readonly latencyMs: number;
+  /** USD per 1,000 packets across every step */
+  readonly costPer1k: number;
+  /** First step at which a leg fails, if any */
+  readonly failure?: { readonly destination: HubId; readonly step: FlowTraceStep };
+}
+
+/**
+ * A road between two districts, ends in topology order.
+ */
+export type Road = readonly [HubId, HubId];
+
+/**
+ * Fewest roads whose loss separates two districts, and one such set of roads.
+ */
+export interface MinCut {
+  readonly from: HubId;
+  readonly to: HubId;
+  /** Number of roads in the cut; 0 when the districts are already apart */
+  readonly size: number;
+  readonly roads: readonly Road[];
+}
+
+/**
+ * How much the city depends on one district.
+ */
+export interface DistrictResilience {
+  readonly district: HubId;
+  /** Share (0-1) of shortest road paths between other districts passing through it */
+  readonly betweenness: number;
+  /** Whether losing it splits the road network */
+  readonly isArticulationPoint: boolean;
+  /** Flows starting or ending in the district, lost along with it */
+  readonly endpointFlows: readonly string[];
+  /** Other flows losing a destination when it fails, under the current transit mix */
+  readonly strandedFlows: readonly string[];
+  /** Other flows losing a destination when it fails, with traffic on roads only */
+  readonly strandedByRoad: readonly string[];
+}
+
+/**
+ * Structural analysis of the district road network and the flows over it.
+ */
+export interface ResilienceReport {
+  /** Districts, most critical first */
+  readonly districts: readonly DistrictResilience[];
+  /** Districts whose loss splits the road network */
+  readonly articulationPoints: readonly HubId[];
+  /** Roads whose loss splits the road network */
+  readonly bridges: readonly Road[];
+  /** Weakest cut between each flow's origin and any of its destinations */
+  readonly flowCuts: readonly (MinCut & { readonly flowId: string })[];
+}
+
+/**
+ * Architecture description formats a topology can be imported from.
+ */
+export type TopologyFormat = 'mermaid' | 'dot' | 'backstage';
+
+/**
+ * Component graph read from an architecture description, before it is laid
+ * out as districts: groups (subgraphs, clusters, systems) become districts and
+ * the nodes inside them become sub-platforms.
+ */
+export interface ArchitectureGraph {
+  readonly groups: readonly { readonly key: string; readonly label: string; readonly desc?: string }[];
+  /** Nodes; `role` is absent when the source does not state one */
+  readonly nodes: readonly { readonly key: string; readonly label: string; readonly role?: string; readonly group?: string }[];
+  /** Dependencies from one node or group key to another */
+  readonly edges: readonly { readonly from: string; readonly to: string }[];
+  /** APIs with the node providing them and those consuming them, read as flows */
+  readonly apis?: readonly {
+    readonly key: string;
+    readonly label: string;
+    /** API type as stated by the source, e.g. "asyncapi" */
+    readonly type?: string;
+    readonly provider?: string;
+    readonly consumers: readonly string[];
+  }[];
+}
+
+/**
+ * Result of importing a topology, to be previewed before it is applied.
+ */
+export interface TopologyImport {
+  readonly format: TopologyFormat;
+  readonly topology: readonly HubNode[];
+  /** Flows the source declares, empty when it declares none */
+  readonly flows: readonly DataFlowPacket[];
+  /** Parts of the source that were skipped or reinterpreted */
+  readonly warnings: readonly string[];
+}
+
+export type TopologyDiagnosticKind =
+  | 'duplicate-district'
+  | 'unknown-district'
+  | 'asymmetric-road'
+  | 'orphan-district'
+  | 'duplicate-platform'
+  | 'idle-flow';
+
+/**
+ * A consistency problem in a topology. Errors make it unusable, warnings are
+ * likely mistakes, and info notes are worth knowing but may be intended.
+ */
+export interface TopologyDiagnostic {
+  readonly kind: TopologyDiagnosticKind;
+  readonly severity: 'error' | 'warning' | 'info';
+  readonly message: string;
+  /** Districts involved, for highlighting */
+  readonly districts: readonly HubId[];
+  /** Flow involved, for idle-flow */
+  readonly flowId?: string;
 }
 
 /**
  * Controller interface for city simulation interactions.
  */
 export interface CityContextType {
+  /** State being displayed: the live state, or a historical one while time-travelling */
   readonly state: CityState;
-  readonly toggleDistrict: (id: HubId) => void;
-  readonly setTransitHub: (hub: 'n8n' | 'Zapier' | 'Manual') => void;
-  readonly resetSimulation: () => void;
-  readonly toggleGPUBooost: () => void;
+  /** Declared flows the topology can carry */
+  readonly flows: readonly DataFlowPacket[];
+  /** Routes of every flow, recomputed whenever districts or the transit hub change */
+  readonly routes: readonly FlowRoute[];
+  readonly toggleDistrict: (id: HubId, source?: ActionSource) => void;
+  /** Sends all traffic through a single hub */
+  readonly setTransitHub: (hub: TransitHubId, source?: ActionSource) => void;
+  readonly setTransitWeights: (weights: TransitWeights, source?: ActionSource) => void;
+  /** Takes a hub offline or brings it back */
+  readonly toggleTransitHub: (hub: TransitHubId, source?: ActionSource) => void;
+  readonly setFailoverThreshold: (threshold: number) => void;
+  readonly resetSimulation: (source?: ActionSource) => void;
+  readonly toggleGPUBooost: (source?: ActionSource) => void;
+  /** Injects a chaos fault, replacing any fault of the same kind on the same target */
+  readonly injectFault: (fault: ChaosFault, source?: ActionSource) => void;
+  readonly clearFault: (id: string, source?: ActionSource) => void;
+  readonly acknowledgeIncident: (id: string, source?: ActionSource) => void;
+  /** Drives district and hub load/health from real metrics until cleared */
+  readonly ingestMetrics: (observed: ObservedTelemetry, source?: ActionSource) => void;
+  /** Returns to fully synthetic telemetry */
+  readonly clearMetrics: (source?: ActionSource) => void;
+  /** Replaces the topology, and the declared flows if given; ignored when it cannot be simulated. `change` labels it on the timeline */
+  readonly setTopology: (topology: readonly HubNode[], change: string, flows?: readonly DataFlowPacket[], source?: ActionSource) => void;
+  /** Pauses or resumes the simulation clock */
+  readonly setPaused: (paused: boolean) => void;
+  /** Advances the clock by exactly one tick */
+  readonly stepSimulation: () => void;
+  readonly setSimulationSpeed: (speed: number) => void;
+  /** Restarts the run from the given seed */
+  readonly reseed: (seed: number) => void;
+  readonly timeline: TimelineView;
+  /** Views the state after `index` events; null returns to the live state */
+  readonly seek: (index: number | null) => void;
+  /** Plays recorded events forward from the cursor at clock speed */
+  readonly setReplaying: (replaying: boolean) => void;
+  /** Discards events after the cursor and continues live from there */
+  readonly resumeFromCursor: () => void;
+  readonly exportRecording: () => string;
+  /** Loads a recording for review; throws when the file is not a valid recording */
+  readonly importRecording: (json: string) => void;
+  readonly history: UndoHistory;
+  /** Reverts the most recent undoable mutation by recording its inverse */
+  readonly undo: (source?: ActionSource) => void;
+  /** Re-applies the most recently undone mutation */
+  readonly redo: (source?: ActionSource) => void;
+  /** Flow followed by the flow tracer and highlighted across the diagrams; null when none */
+  readonly tracedFlowId: string | null;
+  readonly traceFlow: (flowId: string | null) => void;
+}
+
+/**
+ * A timed instruction within a simulation scenario. `at` is in simulated seconds
+ * from the moment the scenario starts.
+ */
+export type ScenarioStep =
+  | { readonly at: number; readonly action: 'FAIL_DISTRICT' | 'RESTORE_DISTRICT'; readonly target: HubId; readonly note?: string }
+  | { readonly at: number; readonly action: 'SWITCH_TRANSIT'; readonly target: TransitHubId; readonly note?: string }
+  | { readonly at: number; readonly action: 'SET_GPU_BOOST'; readonly enabled: boolean; readonly note?: string }
+  | { readonly at: number; readonly action: 'RESET'; readonly note?: string };
+
+/**
+ * Scripted incident rehearsal played against the simulation sandbox.
+ */
+export interface Scenario {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  /** Steps ordered by `at` */
+  readonly steps: readonly ScenarioStep[];
+}
+
+/**
+ * Readings the NOC derives from the simulation, available to crisis rules.
+ */
+export type NocMetric =
+  | 'broken-flows'
+  | 'degraded-flows'
+  | 'offline-districts'
+  | 'city-health'
+  | 'integrity'
+  | 'latency'
+  | 'critical-alerts';
+
+/**
+ * Condition under which the NOC declares a crisis.
+ */
+export interface CrisisRule {
+  readonly id: string;
+  readonly metric: NocMetric;
+  readonly comparator: 'above' | 'below';
+  readonly threshold: number;
+  readonly enabled: boolean;
+}
+
+/**
+ * How the NOC's headline figures are computed.
+ * - integrity: packets delivered, weighted district health, or the lower of the two
+ * - latencyPercentile: which end-to-end latency percentile the dashboard reports
+ */
+export interface NocFormulas {
+  readonly integrity: 'packet-delivery' | 'weighted-health' | 'lowest';
+  readonly latencyPercentile: keyof LatencyPercentiles;
+}
+
+/**
+ * Operator-defined NOC configuration: what a degraded city means for this team.
+ */
+export interface NocConfig {
+  readonly version: 1;
+  /** Relative importance (0-3) of each district in the city health score */
+  readonly districtWeights: Readonly<Record<HubId, number>>;
+  /** Crisis is declared while any enabled rule matches */
+  readonly crisisRules: readonly CrisisRule[];
+  readonly formulas: NocFormulas;
+}
+
+/**
+ * NOC configuration hook return type.
+ */
+export interface NocConfigHook {
+  readonly config: NocConfig;
+  readonly updateConfig: (update: (config: NocConfig) => NocConfig) => void;
+  readonly resetConfig: () => void;
 }
 
 /**
  * AI Performance metrics for real-time inference monitoring.
  */
 export interface InferenceMetrics {
+  /** Milliseconds from the request to the first streamed token */
   readonly ttft: number;
   readonly totalLatency: number;
+  readonly outputTokens: number;
+  /** Output tokens per second from the first token to the last */
+  readonly tokensPerSecond: number;
   readonly cached: boolean;
   readonly accelerated: boolean;
+  /** Whether the response was stopped before it finished */
+  readonly cancelled?: boolean;
+}
+
+/**
+ * Hooks into a streamed assistant response.
+ */
+export interface InferenceStreamOptions {
+  /** Aborts the request; the text received so far is returned */
+  readonly signal?: AbortSignal;
+  /** Called with the full text received so far, after each chunk */
+  readonly onText?: (text: string) => void;
+}
+
+/**
+ * A function call made by the assistant.
+ */
+export interface ToolCall {
+  readonly id?: string;
+  readonly name: string;
+  readonly args: Readonly<Record<string, unknown>>;
+  /** Opaque reasoning signature the model expects back with the call */
+  readonly signature?: string;
+}
+
+/**
+ * Outcome of a tool call, reported back to the assistant on the next turn.
+ */
+export interface ToolResult {
+  readonly id?: string;
+  readonly name: string;
+  readonly response: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * One turn of an assistant conversation.
+ */
+export type ChatTurn =
+  | { readonly role: 'user'; readonly text: string }
+  | { readonly role: 'model'; readonly text: string; readonly toolCalls: readonly ToolCall[] }
+  | { readonly role: 'tool'; readonly results: readonly ToolResult[] };
+
+/**
+ * Conversation sent with each assistant request: recent turns verbatim and a
+ * summary of the older turns trimmed to keep the context window small.
+ */
+export interface Conversation {
+  readonly summary: readonly string[];
+  readonly turns: readonly ChatTurn[];
 }
 
 export interface AuthorCardProps {